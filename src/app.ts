@@ -1,282 +1,230 @@
-import { Score, Fusion } from './models/Fusion.js';
-import { EmbeddingType, QueryType, NdcgResultType, QueryScores, 
-         RankedScore, Relevance, SearchResult } from './types.js';
-import { AggregateSteps, createClient, RedisClientType, SchemaFieldTypes, VectorAlgorithms } from 'redis';
-import axios from 'axios';
-import fs from 'node:fs';
-import JSONStream from 'JSONStream';
-import { Stream } from 'node:stream';
-import assert from 'node:assert/strict';
+import { ExplainMethod, formatExplanation, FusedResult } from './models/Fusion.js';
+import { Tuner, TUNABLE_METHODS } from './models/Tuner.js';
+import { evaluate, QueryMetrics } from './models/Evaluation.js';
+import { compare, formatComparisons, MethodResults } from './models/Significance.js';
+import { RedisBackend, ServerFusion } from './models/RedisBackend.js';
+import { compareFusion, formatHarness } from './models/FusionHarness.js';
+import { combinations, fusionOf, retrieve } from './models/Retriever.js';
+import { adaptiveFusion, AdaptiveStrategy } from './models/AdaptiveWeights.js';
+import { CachedReranker, HttpReranker, LexicalReranker, rerank, Reranker, RerankMode } from './models/Reranker.js';
+import { FeedbackMode, feedbackQueries } from './models/Feedback.js';
+import { createRetrievers, envSettings, loadQrels, readJson, readQueries, reportLoadFailures } from './config.js';
+import { Passage, QueryType, RankedScore, SearchResult } from './types.js';
 import process from 'node:process';
-import { Buffer } from 'node:buffer';
 
-const EMBEDDING_URL = 'http://localhost:8000/v1/embeddings';
-const EMBEDDING_MODEL = 'nvidia/nv-embedqa-e5-v5';
-const EMBEDDING_DIM = 1024;
-const EMBEDDING_TYPE = 'FLOAT32';
-const PASSAGES_FILE = `${process.env.PWD}/data/passages.jsonl`;
-const QUERIES_FILE = `${process.env.PWD}/data/queries.jsonl`
-const REDIS_URL = 'redis://localhost:12000';
-const REDIS_IDX = 'idx';
+const SETTINGS = envSettings();
+const SERVER_FUSION = process.env.SERVER_FUSION === 'true';
+const ADAPTIVE_METHODS = ['RRF', 'RSF'];
+const EXPLAIN_QID = process.env.EXPLAIN;
+const EXPLAIN_FORMAT = process.env.EXPLAIN_FORMAT ?? 'table';
+const RERANKER = process.env.RERANKER;
+const RERANK_URL = process.env.RERANK_URL ?? 'http://localhost:8001/v1/ranking';
+const RERANK_MODEL = process.env.RERANK_MODEL ?? 'nvidia/nv-rerankqa-mistral-4b-v3';
+const RERANK_MODE = (process.env.RERANK_MODE ?? RerankMode.Replace) as RerankMode;
+const RERANK_TOP_K = parseInt(process.env.RERANK_TOP_K ?? '10');
+const RERANK_ALPHA = parseFloat(process.env.RERANK_ALPHA ?? '0.5');
+const FEEDBACK_MODES = (process.env.FEEDBACK ?? '').split(',').filter((mode) => mode) as Array<FeedbackMode>;
+const FEEDBACK_DOCS = parseInt(process.env.FEEDBACK_DOCS ?? '10');
+const FEEDBACK_TERMS = parseInt(process.env.FEEDBACK_TERMS ?? '10');
 
 /**
- * Creates a Redis index with a schema that includes a text and vector field.
- * 
- * @async
- * @function
- * @param { RedisClientType } client 
- */
-async function createIndex(client: RedisClientType) {
-    try { await client.ft.dropIndex(REDIS_IDX); }
-    catch {void 0};
-
-    await client.ft.create(REDIS_IDX, { 
-        '$.text': { 
-            type: SchemaFieldTypes.TEXT, 
-            AS: 'text' 
-        },
-        '$.vector': { 
-            type: SchemaFieldTypes.VECTOR,
-            AS: 'vector',
-            ALGORITHM: VectorAlgorithms.FLAT,
-            TYPE: EMBEDDING_TYPE,
-            DIM: EMBEDDING_DIM,
-            DISTANCE_METRIC: 'COSINE'
-        }}, 
-        { ON: 'JSON', PREFIX: 'passage:' });
-};
-
-/**
- * Reformats a ranked fusion array (array of IDs) into an array of objects that include the ID and its
+ * Reformats a fused result array into an array of objects that include the ID, its fused score and its
  * original MS Marco relevance rank.
  * 
  * @function
- * @param { Array<string> } inArr sorted array of IDs returned from fusion function
+ * @param { Array<FusedResult> } inArr sorted array of fused results returned from fusion function
  * @param { Array<RankedScore> } orig array IDs and their corresponding MS Marco relevance ranks
  * @returns { Array<RankedScore> }
  */
-function formatFused(inArr: Array<string>, orig: Array<RankedScore>): Array<RankedScore> {
+function formatFused(inArr: Array<FusedResult>, orig: Array<RankedScore>): Array<RankedScore> {
+    const marcoRanks = new Map(orig.map((elm) => [elm.id, elm.rank]));
     const outArr: Array<RankedScore> = [];
 
-    for (let i=0, j=inArr.length; i < inArr.length; i++, j--) {
-        const match: RankedScore | undefined = orig.find(elm => elm.id == inArr[i]);
-        if (match) {
-            outArr[i] = {id: inArr[i], score: j, rank: match['rank']}
+    for (const fused of inArr) {
+        const rank = marcoRanks.get(fused.id);
+        if (rank !== undefined) {
+            outArr.push({id: fused.id, score: fused.score, rank: rank});
         }
     }
     return outArr;
 };
 
 /**
- * Performs a REST API call to a Nvidia NIM embedding service.
+ * Creates the reranker selected by the RERANKER environment variable: 'nim' for the Nvidia NIM or any compatible
+ * /v1/ranking service, 'lexical' for the local deterministic query term overlap reranker.  Scores are cached in
+ * memory, since the fusion methods mostly rerank the same passages.
  * 
- * @async
  * @function
- * @param {string} text passage or query to be vectorized
- * @param { EmbeddingType } type type of vector to be created (query or passage)
- * @returns { Promise<Array<number>> }
+ * @returns { Reranker | undefined } undefined when RERANKER is not set, i.e., no rerank stage
  */
-async function getEmbedding(text:string, type: EmbeddingType): Promise<Array<number>> {
-    const result = await axios.post(EMBEDDING_URL, {
-            input: [text],
-            model: EMBEDDING_MODEL,
-            input_type: type
-    });
-    return result.data.data[0].embedding;
-};
-
-/**
- * Helper function for creating the Redis vector index and loading the MS Marco passages from file to
- * Redis JSON documents.
- * 
- * @async
- * @function
- * @param { RedisClientType } client 
- */
-async function loadRedis(client: RedisClientType) {
-    const passagesStr = fs.createReadStream(PASSAGES_FILE)
-        .pipe(JSONStream.parse())
-        .pipe(new Stream.PassThrough({objectMode: true}))
-
-    await createIndex(client);
-    for await (const doc of passagesStr) {
-        doc['vector'] = await getEmbedding(doc['text'], EmbeddingType.Passage);
-        await client.json.set(`passage:${doc['pid']}`, '$', doc);
+function createReranker(): Reranker | undefined {
+    switch (RERANKER) {
+        case undefined:
+        case '':
+            return undefined;
+        case 'lexical':
+            return new CachedReranker(new LexicalReranker());
+        case 'nim':
+            return new CachedReranker(new HttpReranker({
+                url: RERANK_URL, 
+                model: RERANK_MODEL, 
+                apiKey: process.env.RERANK_API_KEY
+            }));
+        default:
+            console.error(`invalid reranker: ${RERANKER}`);
+            process.exit(1);
     }
 };
 
 /**
- * Implements the Normalized Discount Cumulative Gain algorithm.  The input is an array of SearchResults.
- * Each SearchResult is a query ID and a sorted array of RankedScores.  A RankedScore is a passage ID,
- * it's score yielded from a fusion algorithm, and its original MS Marco relevance rank.
- * 
- * The function measures how closely the generated ranks are to the original MS Marco ranks.
- * 
- * @function
- * @param { Array<SearchResult> } searchResults results from fusion algorithm
- * @returns { Array<NdcgResultType> } array of NDCG calculations, one per query ID
+ * Main routine. Retrieves passages for all queries with every retriever (by default, the lists of a hybrid query,
+ * RETRIEVAL_MODE=hybrid, KNN among the text matches, or of a union query, RETRIEVAL_MODE=union, independent FTS top-N
+ * and KNN top-M lists), then performs the rank fusion algorithms on every combination of two or more retrievers and
+ * calculates mean NDCG@10, MAP, MRR, Recall@10 and Precision@10 across queries for each fusion type and combination.
+ * Relevance judgments are read from data/qrels.tsv if present, otherwise derived from the MS Marco ranks.  Each fusion
+ * type's per-query NDCG is tested for significant differences against the single-retriever baselines.  With RERANKER
+ * set, the top fused results of every fusion type are also reranked and reported as fusion+rerank.  RRF and RSF are
+ * also evaluated with query-adaptive weights of the first semantic and lexical retrievers, for each adaptive strategy.
+ * With EXPLAIN set to a qid, the Borda, RRF, RSF and DBSF scores of that query's top results are explained list by
+ * list.  With FEEDBACK set to text, vector and/or both, retrieval is re-run with pseudo-relevance feedback from the
+ * fused top passages (RM3 text expansion, Rocchio vector shift), and every retriever and fusion of all retrievers is
+ * compared with its first-pass results.  With SERVER_FUSION=true, RSF and approximate RRF computed inside FT.AGGREGATE
+ * are compared with client-side Fusion.
  */
-function ndcg(searchResults: Array<SearchResult>): Array<NdcgResultType> {
-    const metrics: Array<NdcgResultType> = [];
-    const calcDCG = (acc: number, elm:Relevance, index: number) => acc + (Math.pow(elm['relevance'], 2) - 1) / Math.log2(index + 2);
-    
-    searchResults.forEach((searchResult) => {
-        const predicted: Array<Relevance> = [];
-        searchResult['scores'].forEach((result) => {
-            predicted.push({pid: result['id'], relevance:searchResult['scores'].length - result['rank'] + 1});
-        });
-        const groundTruth: Array<Relevance> = [...predicted].sort((a,b) => b.relevance - a.relevance);
-        const dcg = predicted.reduce(calcDCG, 0);
-        const idcg = groundTruth.reduce(calcDCG, 0);
-        metrics.push({qid: searchResult['qid'], ndcg: parseFloat((dcg/idcg).toFixed(4))});
-    });
-    return metrics;
-}
-
-/**
- * Implements a Redis FT.AGGREGATION query.  The function is parameterized to allow for full-text, KNN,
- * or hybrid queries.  The node-redis query structure is built according to the query type.  The return
- * value is an array of QueryScores objects.  Each QueryScore object is a query ID along with the Redis
- * search result which could be full-text score, vector distance score or both in the case of a hybrid
- * query.
- * 
- * @async
- * @function
- * @param { RedisClientType } client 
- * @param { QueryType } queryType 
- * @returns { Promise<Array<QueryScores>> }
- */
-async function search(client: RedisClientType, queryType: QueryType): Promise<Array<QueryScores>> {    
-    const queries = fs.createReadStream(QUERIES_FILE)
-    .pipe(JSONStream.parse())
-    .pipe(new Stream.PassThrough({objectMode: true}));
-    
-    const allResults = [];
-    for await (const query of queries) {
-        let qstr = '';
-        const qobj: { [key:string]: string|number|boolean|Array<object>|object } = {    
-            LOAD: [
-                { identifier: '$.qid', AS: 'qid' },
-                { identifier: '$.pid', AS: 'pid' },
-                { identifier: '$.rank', AS: 'rank' },
-            ],        
-            SCORER: 'TFIDF',
-            ADDSCORES: true,
-            DIALECT: 4
-        };
-        let qvec;
-        switch (queryType) {
-            case QueryType.FTS:
-                qstr = `@text:${query['q_str']}`;
-                qobj['STEPS'] = [ 
-                    { type: AggregateSteps.SORTBY, BY: {BY: '@__score', DIRECTION: 'DESC'}}
-                ];
-                break;
-            case QueryType.KNN:
-                qvec = await getEmbedding(query['query'], EmbeddingType.Query) 
-                qstr = '*=>[KNN 10 @vector $qvec AS dist]'; 
-                qobj['PARAMS'] = { qvec: Buffer.from(new Float32Array(qvec).buffer) };
-                qobj['STEPS'] = [ 
-                    { type: AggregateSteps.APPLY, expression: '(2 - @dist)/2', AS: 'cos_score'},
-                    { type: AggregateSteps.SORTBY, BY: {BY: '@cos_score', DIRECTION: 'DESC'}}
-                ];
-                break;
-            case QueryType.HYB:
-                qvec = await getEmbedding(query['query'], EmbeddingType.Query); 
-                qstr = `@text:${query['q_str']}=>[KNN 10 @vector $qvec AS dist]`;
-                qobj['PARAMS'] = { qvec: Buffer.from(new Float32Array(qvec).buffer) };
-                qobj['STEPS'] = [ 
-                    { type: AggregateSteps.APPLY, expression: '(2 - @dist)/2', AS: 'cos_score'}
-                ];
-                break;
-            default:
-                console.error('invalid query type');
-                process.exit(1);
+(async () => {
+    const { retrievers, backends, close } = await createRetrievers(SETTINGS);
+    for (const backend of backends) {
+        if (backend instanceof RedisBackend) {
+            reportLoadFailures(backend.options.index, await backend.ingest(readJson<Passage>(SETTINGS.passagesFile)));
+        } else {
+            await backend.load(readJson<Passage>(SETTINGS.passagesFile));
         }
+    }
+    const reranker = createReranker();
+    const invalid = FEEDBACK_MODES.find((mode) => !Object.values(FeedbackMode).includes(mode));
+    if (invalid) {
+        console.error(`invalid feedback mode: ${invalid}`);
+        process.exit(1);
+    }
+    if (!Object.values(RerankMode).includes(RERANK_MODE)) {
+        console.error(`invalid rerank mode: ${RERANK_MODE}`);
+        process.exit(1);
+    }
+    const texts = new Map<string, string>();
+    if (reranker || FEEDBACK_MODES.length > 0) {
+        for await (const passage of readJson<Passage>(SETTINGS.passagesFile)) {
+            texts.set(passage['pid'], passage['text']);
+        }
+    }
 
-        const rows = await client.ft.aggregate(REDIS_IDX, qstr, qobj);
-        const queryScores: QueryScores = {qid:query['qid'], results:{cos:[], fts:[]}};
-        for (const row of rows.results) {
-            assert(JSON.parse(row['qid'])[0] === query['qid']);
-            switch (queryType) {
-                case QueryType.FTS:
-                    queryScores['results']['fts'].push(new Score(
-                        JSON.parse(row['pid'])[0], 
-                        parseFloat(row['__score']), 
-                        JSON.parse(row['rank'])[0]
-                    ));
-                    break;
-                case QueryType.KNN:
-                    queryScores['results']['cos'].push(new Score(
-                        JSON.parse(row['pid'])[0], 
-                        parseFloat(row['cos_score']), 
-                        JSON.parse(row['rank'])[0]
-                    ));
-                    break;
-                case QueryType.HYB:  
-                    queryScores['results']['fts'].push(new Score(
-                        JSON.parse(row['pid'])[0], 
-                        parseFloat(row['__score']), 
-                        JSON.parse(row['rank'])[0]
-                    ));
-                    queryScores['results']['cos'].push(new Score(
-                        JSON.parse(row['pid'])[0], 
-                        parseFloat(row['cos_score']), 
-                        JSON.parse(row['rank'])[0]
-                    ));
-                    break;
-                default:
-                    console.error('invalid query type');
-                    process.exit(1);
+    const queries = await readQueries(SETTINGS.queriesFile);
+    const results = await retrieve(queries, retrievers);
+    const names = retrievers.map((retriever) => retriever.name);
+    const qrels = await loadQrels(SETTINGS);
+
+    const combos = combinations(names, 2);
+    const semantic = retrievers.find((retriever) => (retriever.list ?? (retriever.queryType === QueryType.KNN ? 'cos' : '')) === 'cos');
+    const lexical = retrievers.find((retriever) => (retriever.list ?? (retriever.queryType === QueryType.FTS ? 'fts' : '')) === 'fts');
+    const adaptive = semantic && lexical ? Object.values(AdaptiveStrategy).flatMap((strategy) => 
+        ADAPTIVE_METHODS.map((method) => `${method} [${semantic.name}+${lexical.name}] adaptive:${strategy}`)) : [];
+    const feedback = FEEDBACK_MODES.flatMap((mode) => [...names.map((name) => name.toUpperCase()),
+        ...TUNABLE_METHODS.map((method) => `${method.name} [${names.join('+')}]`)].map((name) => `${name} feedback:${mode}`));
+    const labels = [...names.map((name) => name.toUpperCase()), ...adaptive, ...feedback,
+        ...combos.flatMap((combo) => TUNABLE_METHODS.map((method) => `${method.name} [${combo.join('+')}]${reranker ? ' +rerank' : ''}`))];
+    const width = Math.max(...labels.map((label) => label.length)) + 2;
+    const report = (name: string, results: Array<SearchResult>): Array<QueryMetrics> => {
+        const { mean, queries } = evaluate(results, qrels, {k: 10});
+        console.log(`${name}:`.padEnd(width) + `NDCG@10 ${mean.ndcg.toFixed(4)}  MAP ${mean.map.toFixed(4)}  ` + 
+            `MRR ${mean.mrr.toFixed(4)}  R@10 ${mean.recall.toFixed(4)}  P@10 ${mean.precision.toFixed(4)}`);
+        return queries;
+    };
+
+    const baselines: Array<MethodResults> = names.map((name) => ({
+        name: name.toUpperCase(), 
+        results: report(name.toUpperCase(), results.map((elm) => ({qid: elm.qid, scores: fusionOf(elm, [name]).rsf()})))
+    }));
+    const fusedMetrics: Array<MethodResults> = [];
+    const queryText = new Map(queries.map((query) => [query['qid'], query['query']]));
+    for (const combo of combos) {
+        for (const method of TUNABLE_METHODS) {
+            const name = `${method.name} [${combo.join('+')}]`;
+            const fusions = results.map((elm) => ({qid: elm['qid'], fused: method.fuse(fusionOf(elm, combo, retrievers), 60), 
+                orig: combo.flatMap((retriever) => elm['results'][retriever])}));
+            const fused = fusions.map((elm) => ({qid: elm.qid, scores: formatFused(elm.fused, elm.orig)}));
+            fusedMetrics.push({name: name, results: report(name, fused)});
+            if (reranker) {
+                const reranked = await Promise.all(fusions.map(async (elm) => ({
+                    qid: elm.qid, 
+                    scores: formatFused(await rerank(queryText.get(elm.qid) as string, elm.fused, texts, reranker, 
+                        {topK: RERANK_TOP_K, mode: RERANK_MODE, alpha: RERANK_ALPHA}), elm.orig)
+                })));
+                fusedMetrics.push({name: `${name} +rerank`, results: report(`${name} +rerank`, reranked)});
+            }
+        }
+    }
+    if (semantic && lexical) {
+        for (const strategy of Object.values(AdaptiveStrategy)) {
+            for (const method of TUNABLE_METHODS.filter((elm) => ADAPTIVE_METHODS.includes(elm.name))) {
+                const fused = results.map((elm) => ({
+                    qid: elm['qid'], 
+                    scores: formatFused(method.fuse(adaptiveFusion(elm, queryText.get(elm['qid']) as string, [semantic.name, lexical.name], strategy), 60), 
+                        [...elm['results'][semantic.name], ...elm['results'][lexical.name]])
+                }));
+                const name = `${method.name} [${semantic.name}+${lexical.name}] adaptive:${strategy}`;
+                fusedMetrics.push({name: name, results: report(name, fused)});
             }
         }
-        allResults.push(queryScores);
     }
-    return allResults;
-}
+    for (const baseline of baselines) {
+        console.log(formatComparisons(compare(baseline, fusedMetrics)));
+    }
 
-/**
- * Main routine. Perform the rank fusion algorithms on all queries and associated MS Marco passages then calculates
- * a NDCG average agains the Marco relevances across queries for each fusion type.
- */
-(async () => {
-    const client: RedisClientType = createClient({url: REDIS_URL});
-    client.on('error', (err) => {
-        console.error(err.message);
-    });  
-    await client.connect();
-    await loadRedis(client);
+    const feedbackMetrics: Array<MethodResults> = [];
+    for (const mode of FEEDBACK_MODES) {
+        const expanded = await feedbackQueries(queries, results, retrievers, texts, {mode: mode, docs: FEEDBACK_DOCS, terms: FEEDBACK_TERMS});
+        const second = await retrieve(expanded, retrievers);
+        for (const name of names) {
+            const label = `${name.toUpperCase()} feedback:${mode}`;
+            feedbackMetrics.push({name: label, results: report(label, second.map((elm) => ({qid: elm.qid, scores: fusionOf(elm, [name]).rsf()})))});
+        }
+        for (const method of TUNABLE_METHODS) {
+            const label = `${method.name} [${names.join('+')}] feedback:${mode}`;
+            const fused = second.map((elm) => ({qid: elm['qid'], 
+                scores: formatFused(method.fuse(fusionOf(elm, names, retrievers), 60), names.flatMap((name) => elm['results'][name]))}));
+            feedbackMetrics.push({name: label, results: report(label, fused)});
+        }
+    }
+    for (const baseline of [...baselines, ...fusedMetrics]) {
+        const variants = feedbackMetrics.filter((elm) => elm.name.startsWith(`${baseline.name} feedback:`));
+        if (variants.length > 0) {
+            console.log(formatComparisons(compare(baseline, variants)));
+        }
+    }
 
-    const mean = (acc: number, cur: NdcgResultType, _: number, arr: Array<NdcgResultType>) => acc + cur.ndcg/arr.length;
-    const hyb = await search(client, QueryType.HYB);
-    const bordaScores: Array<SearchResult> = [];
-    const rrfScores: Array<SearchResult> = [];
-    const rsfScores: Array<SearchResult> = [];
-    const dbsfScores: Array<SearchResult> = [];
-    hyb.forEach((resObj) => {
-        const cos = resObj['results']['cos'];
-        const fts = resObj['results']['fts'];
-        const fusion = new Fusion([cos, fts]);
-        bordaScores.push({qid: resObj['qid'], scores: formatFused(fusion.borda(), cos)});
-        rrfScores.push({qid: resObj['qid'], scores: formatFused(fusion.rrf(), cos)});
-        rsfScores.push({qid: resObj['qid'], scores: formatFused(fusion.rsf(), cos)});
-        dbsfScores.push({qid: resObj['qid'], scores: formatFused(fusion.dbsf(), cos)});
+    const tuner = new Tuner(results, qrels, names, {folds: 3});
+    for (const result of tuner.tuneAll()) {
+        console.log(`${result.method} [${names.join('+')}] tuned: weights=${JSON.stringify(result.config.weights)} k=${result.config.k} ` + 
+            `NDCG@10=${result.score.toFixed(4)} CV NDCG@10=${result.cvScore?.toFixed(4)}`);
+    }
 
-    });
-    console.log(`Borda NDCG Mean: ${ndcg(bordaScores).reduce(mean,0).toFixed(4)}`);
-    console.log(`RRF NDCG Mean:   ${ndcg(rrfScores).reduce(mean,0).toFixed(4)}`);
-    console.log(`RSF NDCG Mean:   ${ndcg(rsfScores).reduce(mean,0).toFixed(4)}`);
-    console.log(`DBSF NDCG Mean:  ${ndcg(dbsfScores).reduce(mean,0).toFixed(4)}`);
+    const explained = results.find((elm) => elm['qid'] === EXPLAIN_QID);
+    if (EXPLAIN_QID && !explained) {
+        console.error(`unknown qid to explain: ${EXPLAIN_QID}`);
+    }
+    if (explained) {
+        for (const method of Object.values(ExplainMethod)) {
+            const explanations = fusionOf(explained, names, retrievers).explain(method, 10);
+            console.log(EXPLAIN_FORMAT === 'json' ? JSON.stringify({qid: EXPLAIN_QID, method: method, lists: names, results: explanations}) : 
+                `${method.toUpperCase()} [${names.join('+')}] qid ${EXPLAIN_QID}\n${formatExplanation(explanations, names)}`);
+        }
+    }
 
-    /*
-    const knn = await search(client, QueryType.KNN);
-    const knnScores: Array<SearchResult> = knn.map((elm) => ({'qid': elm.qid, 'scores': elm.results.cos}));
-    console.log(`KNN NDCG Mean: ${ndcg(knnScores).reduce(mean,0).toFixed(4)}`);
-    
-    const fts = await search(client, QueryType.FTS);
-    const ftsScores: Array<SearchResult> = fts.map((elm) => ({'qid': elm.qid, 'scores': elm.results.fts}));
-    console.log(`FTS NDCG Mean: ${ndcg(ftsScores).reduce(mean,0).toFixed(4)}`);
-    */
+    const redis = backends.find((backend) => backend instanceof RedisBackend);
+    if (SERVER_FUSION && redis instanceof RedisBackend) {
+        for (const method of Object.values(ServerFusion)) {
+            console.log(formatHarness(await compareFusion(redis, queries, method)));
+        }
+    }
 
-    await client.disconnect();
-})();
\ No newline at end of file
+    await close();
+})();
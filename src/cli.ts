@@ -0,0 +1,536 @@
+import { parseArgs, ParseArgsConfig } from 'node:util';
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { Dataset, loadBeir, loadMarco, loadTrec, SamplingOptions, writeDataset } from './models/Dataset.js';
+import { FeedbackMode, feedbackQueries } from './models/Feedback.js';
+import { Score } from './models/Fusion.js';
+import { evaluate, readQrels } from './models/Evaluation.js';
+import { MemoryBackend } from './models/MemoryBackend.js';
+import { RedisBackend } from './models/RedisBackend.js';
+import { retrieve } from './models/Retriever.js';
+import { fuseRuns, readRun, TrecRun } from './models/TrecRun.js';
+import { TUNABLE_METHODS } from './models/Tuner.js';
+import { createRetrievers, envSettings, loadQrels, readJson, readQueries, reportLoadFailures, Settings } from './config.js';
+import { formatRows, OutputFormat, parseRows, Row } from './utils/output.js';
+import { Passage, Query } from './types.js';
+
+const USAGE = `usage: npm run cli -- <command> [options]
+commands:
+  load <beir|trec|marco>        import a dataset into queries.jsonl, passages.jsonl and qrels.tsv
+    beir   --dir <dataset dir> [--split test] [--run <run file>]
+    trec   --queries-file <file> --corpus <file> --run <run file> [--qrels <file>]
+    marco  [--dir marco] [--queries-file data/queries.jsonl] [--run <run file>] [--qrels <file>]
+    --queries <n>  --qids <qid,qid,...>  --passages <n per query, default 10>  --seed <n, default 1>
+    --out <dir, default data>
+  index                         load the passages into the search backend; Redis loads skip unchanged passages
+                                and resume an interrupted load
+    --recreate                  drop and recreate an existing Redis index
+  search                        retrieve passages for the queries with every retriever
+    --queries <file, default data/queries.jsonl> | --query <text>
+    --feedback <text|vector|both>  re-run retrieval with pseudo-relevance feedback from the fused top passages
+    --feedback-docs <n, default 10>  --feedback-terms <n, default 10>
+  fuse <ranking> ...            fuse rankings query by query
+    --method <${TUNABLE_METHODS.map((method) => method.name).join(',')}, default RRF>  --k <RRF k, default 60>
+    --runs <run,run,...>  --weights <w1,w2,...>  --depth <results per query, default 1000>
+    --tag <run tag, default fused-<method>>
+  evaluate <ranking> ...        evaluate rankings against relevance judgments
+    --qrels <TREC qrels file, default data/qrels.tsv>  --k <rank cutoff, default 10>  --per-query
+backend options (index, search):
+  --backend <redis|memory>  --redis-url <url>  --index <name>  --config <search config file>
+  --passages <file, default data/passages.jsonl>  --mode <hybrid|union>  --k <list size, default 10>
+  --embedding <nim|hash>  --embedding-url <url>  --embedding-model <model>  --embedding-dim <n>
+output options:
+  --format <json|csv|markdown|trec, default json; trec for fuse>  --out <file, default stdout>
+rankings are TREC run files, or rows of qid, run, rank, id and score as JSON lines (.json, .jsonl) or CSV (.csv)`;
+
+type Options = NonNullable<ParseArgsConfig['options']>;
+type Values = { [name: string]: string | boolean | Array<string | boolean> | undefined };
+
+const OUTPUT_OPTIONS: Options = {
+    'format': { type: 'string' },
+    'out': { type: 'string' }
+};
+
+const BACKEND_OPTIONS: Options = {
+    'backend': { type: 'string' },
+    'redis-url': { type: 'string' },
+    'index': { type: 'string' },
+    'config': { type: 'string' },
+    'passages': { type: 'string' },
+    'mode': { type: 'string' },
+    'k': { type: 'string' },
+    'embedding': { type: 'string' },
+    'embedding-url': { type: 'string' },
+    'embedding-model': { type: 'string' },
+    'embedding-dim': { type: 'string' }
+};
+
+/**
+ * Prints an error and the usage, then exits.
+ *
+ * @function
+ * @param { string } message
+ * @returns { never }
+ */
+function usage(message: string): never {
+    console.error(`${message}\n${USAGE}`);
+    process.exit(1);
+};
+
+/**
+ * Reads a positive integer option.
+ *
+ * @function
+ * @param { Values } values parsed options
+ * @param { string } name option name
+ * @param { number } fallback value when the option is missing
+ * @returns { number }
+ */
+function intOption(values: Values, name: string, fallback: number): number {
+    const value = values[name];
+    if (value === undefined) {
+        return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        usage(`invalid --${name}: ${value}`);
+    }
+    return parsed;
+};
+
+/**
+ * Reads a string option.
+ *
+ * @function
+ * @param { Values } values parsed options
+ * @param { string } name option name
+ * @returns { string | undefined }
+ */
+function stringOption(values: Values, name: string): string | undefined {
+    const value = values[name];
+    return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Reads a comma-separated list option.
+ *
+ * @function
+ * @param { Values } values parsed options
+ * @param { string } name option name
+ * @returns { Array<string> | undefined }
+ */
+function listOption(values: Values, name: string): Array<string> | undefined {
+    return stringOption(values, name)?.split(',').map((elm) => elm.trim()).filter((elm) => elm);
+};
+
+/**
+ * Applies the backend options to the settings from the environment.
+ *
+ * @function
+ * @param { Values } values parsed options
+ * @returns { Settings }
+ */
+function backendSettings(values: Values): Settings {
+    const settings = envSettings();
+    const dim = values['embedding-dim'] === undefined ? settings.embedding.dim : intOption(values, 'embedding-dim', 0);
+    const k = values['k'] === undefined ? undefined : intOption(values, 'k', 0);
+    const mode = stringOption(values, 'mode') ?? settings.retrievalMode;
+    if (!['hybrid', 'union'].includes(mode)) {
+        usage(`invalid --mode: ${mode}`);
+    }
+    return {
+        ...settings,
+        embedding: {
+            provider: stringOption(values, 'embedding') ?? settings.embedding.provider,
+            url: stringOption(values, 'embedding-url') ?? settings.embedding.url,
+            model: stringOption(values, 'embedding-model') ?? settings.embedding.model,
+            dim: dim
+        },
+        passagesFile: stringOption(values, 'passages') ?? settings.passagesFile,
+        searchBackend: stringOption(values, 'backend') ?? settings.searchBackend,
+        retrievalMode: mode,
+        ftsLimit: k ?? settings.ftsLimit,
+        knnLimit: k ?? settings.knnLimit,
+        searchConfigFile: stringOption(values, 'config') ?? settings.searchConfigFile,
+        searchOptions: values['recreate'] ? {recreate: true} : {},
+        redisUrl: stringOption(values, 'redis-url') ?? settings.redisUrl,
+        redisIndex: stringOption(values, 'index') ?? settings.redisIndex
+    };
+};
+
+/**
+ * Reads rankings: a TREC run file, or ranking rows (qid, run, rank, id, score) as JSON lines or CSV, selected
+ * by the file extension.  Rows without a run column belong to a run named after the file.
+ *
+ * @async
+ * @function
+ * @param { string } file
+ * @returns { Promise<Array<TrecRun>> } one run per distinct run name, in order of first appearance
+ */
+async function readRankings(file: string): Promise<Array<TrecRun>> {
+    const ext = path.extname(file).toLowerCase();
+    const name = path.basename(file).replace(/\.gz$/i, '').replace(/\.[^.]*$/, '');
+    if (!['.json', '.jsonl', '.csv'].includes(ext)) {
+        const run = await readRun(file);
+        run.tag ||= name;
+        return [run];
+    }
+
+    const rows = parseRows(await fs.promises.readFile(file, 'utf8'), ext === '.csv' ? OutputFormat.CSV : OutputFormat.JSON);
+    const runs = new Map<string, TrecRun>();
+    for (const row of rows) {
+        for (const column of ['qid', 'id', 'rank', 'score']) {
+            if (row[column] === undefined || row[column] === '') {
+                throw new Error(`missing ${column} in ranking row of ${file}: ${JSON.stringify(row)}`);
+            }
+        }
+        const [rank, score] = [Number(row['rank']), Number(row['score'])];
+        if (isNaN(rank) || isNaN(score)) {
+            throw new Error(`invalid rank or score in ranking row of ${file}: ${JSON.stringify(row)}`);
+        }
+        const tag = String(row['run'] ?? name);
+        const run = runs.get(tag) ?? {tag: tag, queries: new Map<string, Array<Score>>()};
+        runs.set(tag, run);
+        const qid = String(row['qid']);
+        run.queries.set(qid, [...run.queries.get(qid) ?? [], new Score(String(row['id']), score, rank)]);
+    }
+    runs.forEach((run) => run.queries.forEach((scores) => scores.sort((a, b) => a.rank - b.rank)));
+    return [...runs.values()];
+};
+
+/**
+ * Reads the runs of every ranking file.
+ *
+ * @async
+ * @function
+ * @param { Array<string> } files
+ * @returns { Promise<Array<TrecRun>> }
+ */
+async function readAllRankings(files: Array<string>): Promise<Array<TrecRun>> {
+    if (files.length === 0) {
+        usage('no rankings');
+    }
+    const runs: Array<TrecRun> = [];
+    for (const file of files) {
+        runs.push(...await readRankings(file));
+    }
+    return runs;
+};
+
+/**
+ * Imports a BEIR, TREC or MS MARCO dataset into queries.jsonl, passages.jsonl and qrels.tsv of the --out
+ * directory, replacing any previous import.
+ *
+ * @async
+ * @function
+ * @param { Array<string> } positionals dataset format
+ * @param { Values } values parsed options
+ * @returns { Promise<Array<Row>> } dataset summary
+ */
+async function load(positionals: Array<string>, values: Values): Promise<Array<Row>> {
+    const sampling: SamplingOptions = {
+        queries: values['queries'] === undefined ? undefined : intOption(values, 'queries', 0),
+        qids: listOption(values, 'qids'),
+        passagesPerQuery: intOption(values, 'passages', 10),
+        seed: intOption(values, 'seed', 1)
+    };
+    const required = (name: string): string => stringOption(values, name) ?? usage(`missing --${name}`);
+
+    let dataset: Dataset;
+    switch (positionals[0]) {
+        case 'beir':
+            dataset = await loadBeir(required('dir'), {...sampling, split: stringOption(values, 'split') ?? 'test',
+                run: stringOption(values, 'run')});
+            break;
+        case 'trec':
+            dataset = await loadTrec({queries: required('queries-file'), corpus: required('corpus'), run: required('run'),
+                qrels: stringOption(values, 'qrels')}, sampling);
+            break;
+        case 'marco': {
+            const dir = stringOption(values, 'dir') ?? `${process.env.PWD}/marco`;
+            dataset = await loadMarco({
+                queries: stringOption(values, 'queries-file') ?? `${process.env.PWD}/data/queries.jsonl`,
+                run: stringOption(values, 'run') ?? path.join(dir, 'passv2_dev2_top100.txt'),
+                passages: path.join(dir, 'msmarco_v2_passage'),
+                qrels: stringOption(values, 'qrels')
+            }, sampling);
+            break;
+        }
+        default:
+            usage(`invalid dataset format: ${positionals[0]}`);
+    }
+    const out = stringOption(values, 'out') ?? `${process.env.PWD}/data`;
+    await writeDataset(dataset, out);
+    return [{
+        dir: out,
+        queries: dataset.queries.length,
+        passages: dataset.passages.length,
+        judgments: Object.values(dataset.qrels).reduce((acc, rels) => acc + Object.keys(rels).length, 0)
+    }];
+};
+
+/**
+ * Loads the passages into every distinct backend of the retrievers.  The in-memory backend only lives as long
+ * as the process, so indexing it just checks the passages and embeddings.  Redis loads report their progress
+ * to stderr, skip unchanged passages and resume from the checkpoint of an interrupted load; passages that fail
+ * for good are listed on stderr and set the exit code to 1.
+ *
+ * @async
+ * @function
+ * @param { Values } values parsed options
+ * @returns { Promise<Array<Row>> } number of passages loaded per backend
+ */
+async function index(values: Values): Promise<Array<Row>> {
+    const settings = backendSettings(values);
+    const { backends, close } = await createRetrievers(settings);
+    const rows: Array<Row> = [];
+    try {
+        for (const backend of backends) {
+            if (backend instanceof RedisBackend) {
+                const name = backend.options.index;
+                let reported = 0;
+                const report = await backend.ingest(readJson<Passage>(settings.passagesFile), (progress) => {
+                    if (progress.ms - reported >= 1000) {
+                        reported = progress.ms;
+                        console.error(`${name}: ${progress.processed} passages, ${progress.loaded} loaded, ` +
+                            `${progress.unchanged} unchanged, ${progress.failed} failed, ${progress.rate.toFixed(1)} passages/s`);
+                    }
+                });
+                reportLoadFailures(name, report);
+                if (report.failures.length > 0) {
+                    process.exitCode = 1;
+                }
+                rows.push({
+                    backend: settings.searchBackend,
+                    index: name,
+                    passages: report.processed,
+                    loaded: report.loaded,
+                    unchanged: report.unchanged,
+                    failed: report.failed,
+                    resumed: report.resumed,
+                    retries: report.retries,
+                    seconds: Math.round(report.ms) / 1000
+                });
+            } else {
+                let count = 0;
+                const counted = async function* () {
+                    for await (const passage of readJson<Passage>(settings.passagesFile)) {
+                        count++;
+                        yield passage;
+                    }
+                };
+                await backend.load(counted());
+                rows.push({backend: settings.searchBackend, index: '', passages: count});
+            }
+        }
+    } finally {
+        await close();
+    }
+    return rows;
+};
+
+/**
+ * Retrieves passages for the queries with every retriever.  In-memory backends are loaded first; Redis indexes
+ * must have been loaded with the index command.  With --feedback, the queries are expanded with pseudo-relevance
+ * feedback from the first-pass results and retrieval is run again.
+ *
+ * @async
+ * @function
+ * @param { Values } values parsed options
+ * @returns { Promise<Array<Row>> } ranking rows, with the retriever as run
+ */
+async function search(values: Values): Promise<Array<Row>> {
+    const settings = backendSettings(values);
+    const text = stringOption(values, 'query');
+    const queries: Array<Query> = text ? [{qid: 'query', query: text}] :
+        await readQueries(stringOption(values, 'queries') ?? settings.queriesFile);
+    const { retrievers, backends, close } = await createRetrievers(settings);
+    try {
+        for (const backend of backends.filter((elm) => elm instanceof MemoryBackend)) {
+            await backend.load(readJson<Passage>(settings.passagesFile));
+        }
+        let results = await retrieve(queries, retrievers);
+        const mode = stringOption(values, 'feedback');
+        if (mode !== undefined) {
+            if (!Object.values(FeedbackMode).includes(mode as FeedbackMode)) {
+                usage(`invalid --feedback: ${mode}`);
+            }
+            const texts = new Map<string, string>();
+            for await (const passage of readJson<Passage>(settings.passagesFile)) {
+                texts.set(passage['pid'], passage['text']);
+            }
+            const expanded = await feedbackQueries(queries, results, retrievers, texts, {mode: mode as FeedbackMode,
+                docs: intOption(values, 'feedback-docs', 10), terms: intOption(values, 'feedback-terms', 10)});
+            results = await retrieve(expanded, retrievers);
+        }
+        // hybrid lists come in cosine order, so each list is ranked by its own score
+        return results.flatMap((result) => retrievers.flatMap((retriever) =>
+            [...result['results'][retriever.name]].sort((a, b) => b.score - a.score)
+                .map((elm, i) => ({qid: result['qid'], run: retriever.name, rank: i + 1, id: elm.id, score: elm.score}))));
+    } finally {
+        await close();
+    }
+};
+
+/**
+ * Fuses rankings query by query with one or more fusion methods.
+ *
+ * @async
+ * @function
+ * @param { Array<string> } positionals ranking files
+ * @param { Values } values parsed options
+ * @returns { Promise<Array<Row>> } ranking rows, with the method's run tag as run
+ */
+async function fuse(positionals: Array<string>, values: Values): Promise<Array<Row>> {
+    const names = listOption(values, 'method') ?? ['RRF'];
+    const methods = names.map((name) => TUNABLE_METHODS.find((elm) => elm.name.toLowerCase() === name.toLowerCase()) ??
+        usage(`invalid fusion method: ${name}`));
+    const tag = stringOption(values, 'tag');
+    if (tag && methods.length > 1) {
+        usage('--tag needs a single fusion method');
+    }
+    const all = await readAllRankings(positionals);
+    const selected = listOption(values, 'runs');
+    const runs = selected ? selected.map((name) => all.find((run) => run.tag === name) ?? usage(`unknown run: ${name}`)) : all;
+    const weights = listOption(values, 'weights')?.map((weight) => Number(weight));
+    if (weights && (weights.length !== runs.length || weights.some((weight) => isNaN(weight)))) {
+        usage(`--weights needs ${runs.length} numbers, one per run: ${runs.map((run) => run.tag).join(',')}`);
+    }
+    const k = intOption(values, 'k', 60);
+    const depth = intOption(values, 'depth', 1000);
+    // methods with a size limit, i.e., Condorcet, are checked before any fusion runs
+    const qids = [...new Set(runs.flatMap((run) => [...run.queries.keys()]))];
+    for (const method of methods.filter((elm) => elm.maxIds !== undefined)) {
+        for (const qid of qids) {
+            const size = new Set(runs.flatMap((run) => (run.queries.get(qid) ?? []).map((elm) => elm.id))).size;
+            if (size > (method.maxIds as number)) {
+                usage(`${method.name} fuses at most ${method.maxIds} distinct ids per query, query ${qid} has ${size}`);
+            }
+        }
+    }
+
+    return methods.flatMap((method) => {
+        const run = tag ?? `fused-${method.name.toLowerCase()}`;
+        return fuseRuns(runs, (fusion) => method.fuse(fusion, k, depth), weights).flatMap((query) =>
+            query.results.map((elm) => ({qid: query.qid, run: run, rank: elm.rank, id: elm.id, score: elm.score})));
+    });
+};
+
+/**
+ * Evaluates rankings with mean NDCG@k, MAP, MRR, Recall@k and Precision@k, or per query with --per-query.
+ *
+ * @async
+ * @function
+ * @param { Array<string> } positionals ranking files
+ * @param { Values } values parsed options
+ * @returns { Promise<Array<Row>> } metric rows per run
+ */
+async function evaluateRankings(positionals: Array<string>, values: Values): Promise<Array<Row>> {
+    const runs = await readAllRankings(positionals);
+    const file = stringOption(values, 'qrels');
+    const qrels = file ? await readQrels(file) : await loadQrels(envSettings());
+    const k = intOption(values, 'k', 10);
+    return runs.flatMap((run): Array<Row> => {
+        const { mean, queries } = evaluate([...run.queries].map(([qid, scores]) => ({qid: qid, scores: scores})), qrels, {k: k});
+        return values['per-query'] ?
+            queries.map((query) => ({run: run.tag, k: k, ...query})) :
+            [{run: run.tag, k: k, queries: queries.length, ...mean}];
+    });
+};
+
+/**
+ * Writes formatted output to a file, through a temporary file, or to stdout.
+ *
+ * @async
+ * @function
+ * @param { string } text
+ * @param { string | undefined } file
+ * @returns { Promise<void> }
+ */
+async function write(text: string, file?: string): Promise<void> {
+    if (!file) {
+        process.stdout.write(text);
+        return;
+    }
+    await fs.promises.mkdir(path.dirname(file), {recursive: true});
+    await fs.promises.writeFile(`${file}.tmp`, text);
+    await fs.promises.rename(`${file}.tmp`, file);
+};
+
+/**
+ * Command line interface: load, index, search, fuse and evaluate subcommands.  Every subcommand writes its
+ * results as rows in the --format of choice, to --out or stdout; rankings written by search and fuse can be
+ * read back by fuse and evaluate.  Defaults of the backend options come from the same environment variables
+ * as the app.
+ */
+(async () => {
+    const [command, ...args] = process.argv.slice(2);
+    const commands: { [name: string]: {options: Options, run: (positionals: Array<string>, values: Values) => Promise<Array<Row>>} } = {
+        'load': {
+            options: {
+                'dir': { type: 'string' },
+                'split': { type: 'string' },
+                'run': { type: 'string' },
+                'queries-file': { type: 'string' },
+                'corpus': { type: 'string' },
+                'qrels': { type: 'string' },
+                'queries': { type: 'string' },
+                'qids': { type: 'string' },
+                'passages': { type: 'string' },
+                'seed': { type: 'string' }
+            },
+            run: load
+        },
+        'index': {
+            options: {...BACKEND_OPTIONS, 'recreate': { type: 'boolean' }},
+            run: (positionals, values) => index(values)
+        },
+        'search': {
+            options: {...BACKEND_OPTIONS, 'queries': { type: 'string' }, 'query': { type: 'string' },
+                'feedback': { type: 'string' }, 'feedback-docs': { type: 'string' }, 'feedback-terms': { type: 'string' }},
+            run: (positionals, values) => search(values)
+        },
+        'fuse': {
+            options: {
+                'method': { type: 'string' },
+                'k': { type: 'string' },
+                'runs': { type: 'string' },
+                'weights': { type: 'string' },
+                'depth': { type: 'string' },
+                'tag': { type: 'string' }
+            },
+            run: fuse
+        },
+        'evaluate': {
+            options: {
+                'qrels': { type: 'string' },
+                'k': { type: 'string' },
+                'per-query': { type: 'boolean' }
+            },
+            run: evaluateRankings
+        }
+    };
+    const spec = commands[command] ?? usage(command ? `invalid command: ${command}` : 'missing command');
+
+    let parsed;
+    try {
+        parsed = parseArgs({args: args, allowPositionals: true, options: {...spec.options, ...OUTPUT_OPTIONS}});
+    } catch (err) {
+        usage((err as Error).message);
+    }
+    const { positionals, values } = parsed;
+    const format = (stringOption(values, 'format') ?? (command === 'fuse' ? OutputFormat.TREC : OutputFormat.JSON)) as OutputFormat;
+    if (!Object.values(OutputFormat).includes(format)) {
+        usage(`invalid --format: ${format}`);
+    }
+
+    try {
+        const rows = await spec.run(positionals, values);
+        // load writes the dataset to --out; its summary goes to stdout
+        await write(formatRows(rows, format), command === 'load' ? undefined : stringOption(values, 'out'));
+    } catch (err) {
+        console.error((err as Error).message);
+        process.exit(1);
+    }
+})();
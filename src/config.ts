@@ -0,0 +1,305 @@
+import { CachedEmbeddingProvider, EmbeddingProvider, HashEmbeddingProvider,
+         HttpEmbeddingProvider } from './models/Embedding.js';
+import { rankQrels } from './models/Dataset.js';
+import { readQrels } from './models/Evaluation.js';
+import { SearchBackend } from './models/SearchBackend.js';
+import { LoadReport, RedisBackend, RedisBackendOptions } from './models/RedisBackend.js';
+import { MemoryBackend } from './models/MemoryBackend.js';
+import { QueryMode } from './models/QueryBuilder.js';
+import { Retriever } from './models/Retriever.js';
+import { Passage, Query, QueryType, Qrels } from './types.js';
+import { createClient, RedisClientType } from 'redis';
+import fs from 'node:fs';
+import JSONStream from 'JSONStream';
+import { Stream } from 'node:stream';
+import process from 'node:process';
+
+/**
+ * Embedding provider settings.  Defaults come from the EMBEDDING_* environment variables.
+ */
+export type EmbeddingSettings = {
+    provider: string,
+    url: string,
+    model: string,
+    dim: number
+};
+
+/**
+ * Settings shared by the app and the CLI.  Defaults come from environment variables, see envSettings().
+ *  -   embedding:            default embedding provider settings of the retrievers
+ *  -   embeddingApiKey:      optional bearer token of the embedding service
+ *  -   embeddingBatchSize:   maximum number of texts per embedding request
+ *  -   embeddingConcurrency: maximum number of concurrent embedding requests
+ *  -   embeddingCacheFile:   on-disk cache of service embeddings
+ *  -   loadRetries:          maximum number of retries of failed embedding requests and Redis calls while loading
+ *  -   checkpointDir:        directory of the checkpoints of interrupted Redis loads, one per index
+ *  -   passagesFile, queriesFile, qrelsFile: dataset files
+ *  -   searchBackend:        redis or memory
+ *  -   retrievalMode:        hybrid or union; sets the cos and fts retrievers when the search config has none
+ *  -   ftsLimit, knnLimit:   list sizes
+ *  -   queryMode:            combination of the terms of generated text queries
+ *  -   searchConfigFile:     optional JSON file of backend options and retrievers
+ *  -   searchOptions:        backend options on top of the search config file
+ *  -   redisUrl, redisIndex: RediSearch server and default index
+ */
+export type Settings = {
+    embedding: EmbeddingSettings,
+    embeddingApiKey?: string,
+    embeddingBatchSize: number,
+    embeddingConcurrency: number,
+    embeddingCacheFile: string,
+    loadRetries: number,
+    checkpointDir: string,
+    passagesFile: string,
+    queriesFile: string,
+    qrelsFile: string,
+    searchBackend: string,
+    retrievalMode: string,
+    ftsLimit: number,
+    knnLimit: number,
+    queryMode: QueryMode,
+    searchConfigFile?: string,
+    searchOptions: Partial<RedisBackendOptions>,
+    redisUrl: string,
+    redisIndex: string
+};
+
+/**
+ * A retriever of the SEARCH_CONFIG file: a named result list with its own fusion weight, embedding model
+ * and backend options, on top of the options shared by all retrievers.
+ */
+type RetrieverConfig = {
+    name: string,
+    queryType?: keyof typeof QueryType,
+    list?: 'cos' | 'fts',
+    weight?: number,
+    embedding?: Partial<EmbeddingSettings>,
+    options?: Partial<RedisBackendOptions>
+};
+
+type SearchConfig = Partial<RedisBackendOptions> & { retrievers?: Array<RetrieverConfig> };
+
+/**
+ * Reads the settings from the environment: EMBEDDING_PROVIDER, EMBEDDING_URL, EMBEDDING_MODEL, EMBEDDING_DIM,
+ * EMBEDDING_API_KEY, LOAD_RETRIES, SEARCH_BACKEND, RETRIEVAL_MODE, FTS_LIMIT, KNN_LIMIT, QUERY_MODE and
+ * SEARCH_CONFIG.  Dataset files are in the data directory, the embedding cache and load checkpoints in the .cache
+ * directory of the working directory.
+ *
+ * @function
+ * @returns { Settings }
+ */
+export function envSettings(): Settings {
+    return {
+        embedding: {
+            provider: process.env.EMBEDDING_PROVIDER ?? 'nim',
+            url: process.env.EMBEDDING_URL ?? 'http://localhost:8000/v1/embeddings',
+            model: process.env.EMBEDDING_MODEL ?? 'nvidia/nv-embedqa-e5-v5',
+            dim: parseInt(process.env.EMBEDDING_DIM ?? '1024')
+        },
+        embeddingApiKey: process.env.EMBEDDING_API_KEY,
+        embeddingBatchSize: 32,
+        embeddingConcurrency: 4,
+        embeddingCacheFile: `${process.env.PWD}/.cache/embeddings.jsonl`,
+        loadRetries: parseInt(process.env.LOAD_RETRIES ?? '3'),
+        checkpointDir: `${process.env.PWD}/.cache`,
+        passagesFile: `${process.env.PWD}/data/passages.jsonl`,
+        queriesFile: `${process.env.PWD}/data/queries.jsonl`,
+        qrelsFile: `${process.env.PWD}/data/qrels.tsv`,
+        searchBackend: process.env.SEARCH_BACKEND ?? 'redis',
+        retrievalMode: process.env.RETRIEVAL_MODE ?? 'hybrid',
+        ftsLimit: parseInt(process.env.FTS_LIMIT ?? '10'),
+        knnLimit: parseInt(process.env.KNN_LIMIT ?? '10'),
+        queryMode: (process.env.QUERY_MODE ?? QueryMode.Or) as QueryMode,
+        searchConfigFile: process.env.SEARCH_CONFIG,
+        searchOptions: {},
+        redisUrl: 'redis://localhost:12000',
+        redisIndex: 'idx'
+    };
+};
+
+/**
+ * Reads a file of concatenated JSON objects (e.g., JSON lines) as a stream of objects.
+ *
+ * @function
+ * @param { string } file path of the file
+ * @returns { AsyncIterable<T> }
+ */
+export function readJson<T>(file: string): AsyncIterable<T> {
+    return fs.createReadStream(file)
+        .pipe(JSONStream.parse())
+        .pipe(new Stream.PassThrough({objectMode: true}));
+};
+
+/**
+ * Reads all queries of a queries file.
+ *
+ * @async
+ * @function
+ * @param { string } file path of the JSON lines file
+ * @returns { Promise<Array<Query>> }
+ */
+export async function readQueries(file: string): Promise<Array<Query>> {
+    const queries: Array<Query> = [];
+    for await (const query of readJson<Query>(file)) {
+        queries.push(query);
+    }
+    return queries;
+};
+
+/**
+ * Builds graded relevance judgments from the original MS Marco ranks of each query's passages with rankQrels:
+ * number of passages of the query - rank + 1.  Used when no qrels file is available.
+ *
+ * @async
+ * @function
+ * @param { string } file path of the passages file
+ * @returns { Promise<Qrels> }
+ */
+async function marcoQrels(file: string): Promise<Qrels> {
+    const passages: Array<Passage> = [];
+    for await (const passage of readJson<Passage>(file)) {
+        passages.push(passage);
+    }
+    return rankQrels(passages);
+};
+
+/**
+ * Reads the relevance judgments: the qrels file if present, otherwise judgments derived from the MS Marco ranks
+ * of the passages file.
+ *
+ * @async
+ * @function
+ * @param { Settings } settings
+ * @returns { Promise<Qrels> }
+ */
+export async function loadQrels(settings: Settings): Promise<Qrels> {
+    return fs.existsSync(settings.qrelsFile) ? await readQrels(settings.qrelsFile) : await marcoQrels(settings.passagesFile);
+};
+
+/**
+ * Creates the embedding provider selected by the EMBEDDING_PROVIDER environment variable: 'nim' (default) for
+ * the Nvidia NIM or any OpenAI-compatible embedding service, 'hash' for the local deterministic provider
+ * that needs no network or GPU.  Service embeddings are cached on disk in .cache/embeddings.jsonl.
+ *
+ * @function
+ * @param { Settings } settings
+ * @param { Partial<EmbeddingSettings> } overrides settings that differ from the defaults
+ * @returns { EmbeddingProvider }
+ */
+export function createEmbedder(settings: Settings, overrides: Partial<EmbeddingSettings> = {}): EmbeddingProvider {
+    const embedding: EmbeddingSettings = {...settings.embedding, ...overrides};
+    switch (embedding.provider) {
+        case 'hash':
+            return new HashEmbeddingProvider(embedding.dim);
+        case 'nim':
+            return new CachedEmbeddingProvider(new HttpEmbeddingProvider({
+                url: embedding.url,
+                model: embedding.model,
+                dim: embedding.dim,
+                apiKey: settings.embeddingApiKey
+            }), settings.embeddingCacheFile);
+        default:
+            console.error(`invalid embedding provider: ${embedding.provider}`);
+            process.exit(1);
+    }
+};
+
+/**
+ * Creates the retrievers and their search backends.  The backend type is selected by the SEARCH_BACKEND
+ * environment variable: 'redis' (default) for RediSearch on REDIS_URL, 'memory' for the in-process BM25 and
+ * brute-force KNN backend that needs no Redis.  Options read from the JSON file named by SEARCH_CONFIG (index
+ * schema, scorer, KNN size, ...) override the defaults; the in-memory backend uses only its scorer, knn, ftsLimit
+ * and query options.  Without a retrievers list in SEARCH_CONFIG, the retrievers are the cos and fts lists of a
+ * hybrid or union query (RETRIEVAL_MODE).  Retrievers with identical embedding settings and options share a
+ * backend.  Retrievers may share a Redis index only if they share its embedding model and dimension.
+ *
+ * @async
+ * @function
+ * @param { Settings } settings
+ * @returns { Promise<{retrievers: Array<Retriever>, backends: Array<SearchBackend>, close: () => Promise<void>}> }
+ * retrievers, the distinct backends to load and their cleanup
+ */
+export async function createRetrievers(settings: Settings):
+    Promise<{retrievers: Array<Retriever>, backends: Array<SearchBackend>, close: () => Promise<void>}> {
+    const { retrievers: retrieverConfigs, ...fileConfig }: SearchConfig = settings.searchConfigFile ?
+        JSON.parse(fs.readFileSync(settings.searchConfigFile, 'utf8')) : {};
+    const config = {...fileConfig, ...settings.searchOptions};
+    const mode = settings.retrievalMode === 'union' ? 'UNI' : 'HYB';
+    const specs: Array<RetrieverConfig> = retrieverConfigs ?? [
+        {name: 'cos', queryType: mode, list: 'cos'},
+        {name: 'fts', queryType: mode, list: 'fts'}
+    ];
+    const common = {knn: settings.knnLimit, ftsLimit: settings.ftsLimit, query: {mode: settings.queryMode},
+        batchSize: settings.embeddingBatchSize, concurrency: settings.embeddingConcurrency, retries: settings.loadRetries};
+
+    let client: RedisClientType | undefined;
+    if (settings.searchBackend === 'redis') {
+        client = createClient({url: settings.redisUrl});
+        client.on('error', (err) => {
+            console.error(err.message);
+        });
+        await client.connect();
+    } else if (settings.searchBackend !== 'memory') {
+        console.error(`invalid search backend: ${settings.searchBackend}`);
+        process.exit(1);
+    }
+
+    const shared = new Map<string, SearchBackend>();
+    const indexEmbedders = new Map<string, string>();
+    const backends: Array<SearchBackend> = [];
+    const retrievers = specs.map((spec) => {
+        const options = {...config, ...spec.options};
+        const key = JSON.stringify([spec.embedding ?? {}, options]);
+        let backend = shared.get(key);
+        if (!backend) {
+            const embedder = createEmbedder(settings, spec.embedding);
+            if (client) {
+                const index = options.index ?? settings.redisIndex;
+                const redis = new RedisBackend(client, embedder, {index: index, 
+                    checkpoint: `${settings.checkpointDir}/${index}.checkpoint.json`, ...common, ...options});
+                // several retrievers can search one index, e.g., with different scorers; it is loaded once, so they
+                // must share its embedder
+                const indexEmbedder = `${embedder.model} (${embedder.dim})`;
+                const loadedWith = indexEmbedders.get(redis.options.index);
+                if (loadedWith === undefined) {
+                    indexEmbedders.set(redis.options.index, indexEmbedder);
+                    backends.push(redis);
+                } else if (loadedWith !== indexEmbedder) {
+                    console.error(`index ${redis.options.index} is shared by the embedders ${loadedWith} and ${indexEmbedder}, ` +
+                        'give each embedder its own index');
+                    process.exit(1);
+                }
+                backend = redis;
+            } else {
+                const { scorer, knn, ftsLimit, query } = options;
+                const overrides = Object.fromEntries(Object.entries({scorer, knn, ftsLimit, query}).filter(([, val]) => val !== undefined));
+                backend = new MemoryBackend(embedder, {...common, ...overrides});
+                backends.push(backend);
+            }
+            shared.set(key, backend);
+        }
+        return {
+            name: spec.name,
+            backend: backend,
+            queryType: QueryType[spec.queryType ?? mode],
+            list: spec.list,
+            weight: spec.weight
+        };
+    });
+    return {retrievers: retrievers, backends: backends, close: async () => { await client?.disconnect(); }};
+};
+
+/**
+ * Prints the summary of the passages that failed to load into a Redis index, if any.
+ *
+ * @function
+ * @param { string } index name of the index
+ * @param { LoadReport } report outcome of the load
+ */
+export function reportLoadFailures(index: string, report: LoadReport): void {
+    if (report.failures.length === 0) {
+        return;
+    }
+    console.error(`${report.failures.length} of ${report.processed} passages failed to load into ${index}:`);
+    report.failures.forEach((failure) => console.error(`  ${failure.pid}: ${failure.error}`));
+};
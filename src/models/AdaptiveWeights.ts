@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { Fusion, Score } from './Fusion.js';
+import { QueryScores } from '../types.js';
+import { tokenize } from '../utils/text.js';
+
+/**
+ * Per-query features that indicate whether the lexical or the semantic list is more reliable.
+ *  -   length:    number of query words
+ *  -   ftsSpread: (max - min) / max of the FTS scores, 0 for fewer than two scores or a non-positive max.  A high
+ *                 spread means a few passages match the text query much better than the others.
+ *  -   knnMargin: cosine score of the KNN top-1 minus that of the top-2, 0 for fewer than two scores.  A high
+ *                 margin means a clear nearest neighbor.
+ *  -   overlap:   Jaccard similarity of the IDs of the two lists
+ */
+export type QueryFeatures = {
+    length: number,
+    ftsSpread: number,
+    knnMargin: number,
+    overlap: number
+};
+
+/**
+ * Built-in weighting strategies.  Each one sets the semantic share s of the total weight, between 0 and 1;
+ * the weights are [2s, 2(1 - s)] for the [semantic, lexical] lists, so s = 0.5 equals the static weights [1, 1].
+ *  -   Length:   s = length / (length + 4); short keyword queries favor FTS, long questions favor vectors
+ *  -   Spread:   s = 0.75 - 0.5 * ftsSpread; a decisive FTS list favors FTS
+ *  -   Margin:   s = 0.25 + 0.5 * min(1, knnMargin / 0.1); a clear nearest neighbor favors vectors
+ *  -   Combined: the mean s of the three strategies above, pulled towards 0.5 by up to half with the list
+ *                overlap, since weights matter less when both lists agree
+ * @enum
+ */
+export enum AdaptiveStrategy {
+    Length = 'length',
+    Spread = 'spread',
+    Margin = 'margin',
+    Combined = 'combined'
+};
+
+/**
+ * A weighting strategy maps the features of a query to the [semantic, lexical] fusion weights of the query.
+ */
+export type WeightStrategy = (features: QueryFeatures) => [number, number];
+
+/**
+ * Converts a semantic share to [semantic, lexical] weights.
+ *
+ * @function
+ * @param {number} share semantic share of the total weight
+ * @returns {[number, number]}
+ */
+function fromShare(share: number): [number, number] {
+    const s = Math.min(1, Math.max(0, share));
+    return [2 * s, 2 * (1 - s)];
+}
+
+const shares: { [key in Exclude<AdaptiveStrategy, AdaptiveStrategy.Combined>]: (features: QueryFeatures) => number } = {
+    [AdaptiveStrategy.Length]: (features) => features.length / (features.length + 4),
+    [AdaptiveStrategy.Spread]: (features) => 0.75 - 0.5 * features.ftsSpread,
+    [AdaptiveStrategy.Margin]: (features) => 0.25 + 0.5 * Math.min(1, features.knnMargin / 0.1)
+};
+
+const strategies: { [key in AdaptiveStrategy]: WeightStrategy } = {
+    [AdaptiveStrategy.Length]: (features) => fromShare(shares[AdaptiveStrategy.Length](features)),
+    [AdaptiveStrategy.Spread]: (features) => fromShare(shares[AdaptiveStrategy.Spread](features)),
+    [AdaptiveStrategy.Margin]: (features) => fromShare(shares[AdaptiveStrategy.Margin](features)),
+    [AdaptiveStrategy.Combined]: (features) => {
+        const mean = Object.values(shares).reduce((acc, share) => acc + share(features), 0) / Object.values(shares).length;
+        return fromShare(0.5 + (mean - 0.5) * (1 - features.overlap / 2));
+    }
+};
+
+/**
+ * Extracts the features of a query from its text and its semantic and lexical result lists.
+ *
+ * @function
+ * @param {string} query natural-language query
+ * @param {Array<Score>} cos semantic (KNN) result list
+ * @param {Array<Score>} fts lexical (FTS) result list
+ * @returns {QueryFeatures}
+ */
+export function queryFeatures(query: string, cos: Array<Score>, fts: Array<Score>): QueryFeatures {
+    const ftsScores = fts.map((elm) => elm.score);
+    const max = Math.max(...ftsScores);
+    const min = Math.min(...ftsScores);
+    const cosScores = cos.map((elm) => elm.score).sort((a, b) => b - a);
+    const cosIds = new Set(cos.map((elm) => elm.id));
+    const ftsIds = new Set(fts.map((elm) => elm.id));
+    const shared = [...cosIds].filter((id) => ftsIds.has(id)).length;
+    const union = cosIds.size + ftsIds.size - shared;
+    return {
+        length: tokenize(query).length,
+        ftsSpread: ftsScores.length > 1 && max > 0 ? (max - min) / max : 0,
+        knnMargin: cosScores.length > 1 ? cosScores[0] - cosScores[1] : 0,
+        overlap: union ? shared / union : 0
+    };
+}
+
+/**
+ * Calculates the [semantic, lexical] fusion weights of a query with either a built-in strategy or a custom
+ * strategy function.
+ *
+ * @function
+ * @param {QueryFeatures} features features of the query
+ * @param {AdaptiveStrategy | WeightStrategy} strategy built-in strategy or custom strategy function
+ * @returns {[number, number]}
+ * @example
+ *  adaptiveWeights({length: 2, ftsSpread: 0.8, knnMargin: 0, overlap: 0.2}, AdaptiveStrategy.Length);   // [0.6667, 1.3333]
+ *  adaptiveWeights(features, (features) => features.length > 5 ? [1, 0.5] : [0.5, 1]);
+ */
+export function adaptiveWeights(features: QueryFeatures, strategy: AdaptiveStrategy | WeightStrategy): [number, number] {
+    const fn = typeof strategy === 'function' ? strategy : strategies[strategy];
+    assert(fn !== undefined, `invalid adaptive strategy: ${strategy}`);
+    const weights = fn(features);
+    assert(weights.length === 2 && weights.every((weight) => Number.isFinite(weight) && weight >= 0),
+        'adaptive weights must be two non-negative numbers');
+    return weights;
+}
+
+/**
+ * Builds a Fusion object over the semantic and lexical lists of a query, weighted for the query by a strategy.
+ *
+ * @function
+ * @param {QueryScores} queryScores results of a query
+ * @param {string} query natural-language query
+ * @param {[string, string]} names names of the [semantic, lexical] lists in queryScores
+ * @param {AdaptiveStrategy | WeightStrategy} strategy built-in strategy or custom strategy function
+ * @returns {Fusion}
+ */
+export function adaptiveFusion(queryScores: QueryScores, query: string, names: [string, string],
+    strategy: AdaptiveStrategy | WeightStrategy): Fusion {
+    const [cos, fts] = names.map((name) => {
+        const list = queryScores['results'][name];
+        assert(list !== undefined, `query ${queryScores['qid']} has no results for retriever ${name}`);
+        return list;
+    });
+    return new Fusion([cos, fts], adaptiveWeights(queryFeatures(query, cos, fts), strategy));
+}
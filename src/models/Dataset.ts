@@ -0,0 +1,428 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+import { readQrels } from './Evaluation.js';
+import { readRun } from './TrecRun.js';
+import { Passage, Qrels, Query } from '../types.js';
+import { prng } from '../utils/random.js';
+
+/**
+ * A test collection in the app's format: queries, the candidate passages of each query and graded relevance
+ * judgments.  Passages are ordered by query, then by rank.
+ */
+export type Dataset = {
+    queries: Array<Query>,
+    passages: Array<Passage>,
+    qrels: Qrels
+};
+
+/**
+ * Selection of the queries and passages of a dataset.
+ *  -   queries:          maximum number of queries, sampled with the seed; all queries by default
+ *  -   qids:             restricts the queries to these IDs
+ *  -   passagesPerQuery: maximum number of candidate passages per query
+ *  -   seed:             seed of the query sample and of the BEIR negatives
+ */
+export type SamplingOptions = {
+    queries?: number,
+    qids?: Array<string>,
+    passagesPerQuery: number,
+    seed: number
+};
+
+/**
+ * Options of the BEIR importer.
+ *  -   split: qrels split, i.e., qrels/<split>.tsv
+ *  -   run:   optional TREC run file whose top passages are the candidates.  Without a run, the candidates are
+ *             the judged passages of a query filled up with randomly sampled corpus passages.
+ */
+export type BeirOptions = SamplingOptions & {
+    split: string,
+    run?: string
+};
+
+/**
+ * Files of the TREC importer.
+ *  -   queries: queries, as TSV (qid, text) or JSON lines
+ *  -   corpus:  passages, as TSV (pid, text) or JSON lines (_id or pid, text, optional title); may be gzipped
+ *  -   run:     TREC run file (qid Q0 pid rank score tag) that selects and ranks the candidates
+ *  -   qrels:   optional TREC qrels file; without it, graded judgments are derived from the run ranks
+ */
+export type TrecFiles = {
+    queries: string,
+    corpus: string,
+    run: string,
+    qrels?: string
+};
+
+/**
+ * Files of the MS MARCO v2 importer.
+ *  -   queries:  queries, as JSON lines (e.g., the hand-built data/queries.jsonl) or TSV
+ *  -   run:      top-100 run file, e.g., passv2_dev2_top100.txt
+ *  -   passages: msmarco_v2_passage directory of gzipped passage shards
+ *  -   qrels:    optional TREC qrels file, e.g., passv2_dev2_qrels.tsv; without it, graded judgments are
+ *                derived from the run ranks
+ */
+export type MarcoFiles = {
+    queries: string,
+    run: string,
+    passages: string,
+    qrels?: string
+};
+
+export const DEFAULT_SAMPLING: SamplingOptions = {
+    passagesPerQuery: 10,
+    seed: 1
+};
+
+const MARCO_PREFIX = 'msmarco_passage_';
+
+/**
+ * Reads the lines of a text file, gunzipping files that end in .gz.  Empty lines are skipped.
+ *
+ * @async
+ * @generator
+ * @param {string} file
+ * @returns {AsyncGenerator<string>}
+ */
+async function* readLines(file: string): AsyncGenerator<string> {
+    let input: Readable = fs.createReadStream(file);
+    if (file.endsWith('.gz')) {
+        input = input.pipe(createGunzip());
+    }
+    for await (const line of readline.createInterface({input: input, crlfDelay: Infinity})) {
+        if (line.trim()) {
+            yield line;
+        }
+    }
+}
+
+/**
+ * Reads queries from JSON lines (qid and query, or BEIR's _id and text; q_str is kept) or from TSV (qid, text).
+ *
+ * @async
+ * @function
+ * @param {string} file
+ * @returns {Promise<Array<Query>>} queries in file order
+ */
+async function readQueries(file: string): Promise<Array<Query>> {
+    const queries: Array<Query> = [];
+    for await (const line of readLines(file)) {
+        if (line.trimStart().startsWith('{')) {
+            const row = JSON.parse(line);
+            const query: Query = {qid: String(row['qid'] ?? row['_id']), query: row['query'] ?? row['text']};
+            if (row['q_str']) {
+                query['q_str'] = row['q_str'];
+            }
+            queries.push(query);
+        } else {
+            const [qid, ...text] = line.split('\t');
+            queries.push({qid: qid, query: text.join('\t')});
+        }
+    }
+    queries.forEach((query) => assert(query['qid'] && typeof query['query'] === 'string', `invalid query ${query['qid']} in ${file}`));
+    return queries;
+}
+
+/**
+ * Reads the ranked document IDs of each query of a TREC run file.
+ *
+ * @async
+ * @function
+ * @param {string} file
+ * @returns {Promise<Map<string, Array<string>>>} passage IDs of each query, by ascending rank
+ */
+async function rankedIds(file: string): Promise<Map<string, Array<string>>> {
+    const run = await readRun(file);
+    return new Map([...run.queries].map(([qid, scores]) => [qid, scores.map((elm) => elm.id)]));
+}
+
+/**
+ * Reads a BEIR qrels file (query-id, corpus-id, score; tab separated, with a header line).
+ *
+ * @async
+ * @function
+ * @param {string} file
+ * @returns {Promise<Qrels>}
+ */
+async function readBeirQrels(file: string): Promise<Qrels> {
+    const qrels: Qrels = {};
+    for await (const line of readLines(file)) {
+        const [qid, pid, rel] = line.trim().split('\t');
+        if (qid === 'query-id' || rel === undefined) {
+            continue;
+        }
+        qrels[qid] ??= {};
+        qrels[qid][pid] = parseInt(rel);
+    }
+    return qrels;
+}
+
+/**
+ * Streams a corpus and keeps the passages with the given IDs.  Optionally, a seeded reservoir sample of the
+ * other passages is collected in the same pass.
+ *
+ * @async
+ * @function
+ * @param {string} file corpus, as TSV (pid, text) or JSON lines (_id or pid, text, optional title)
+ * @param {Set<string>} ids IDs of the passages to keep
+ * @param {number} sampleSize size of the reservoir sample
+ * @param {() => number} random random number generator of the reservoir sample
+ * @returns {Promise<{texts: Map<string, {text: string, title?: string}>, sample: Array<string>}>} kept passages
+ * by ID (sampled passages included) and the sampled IDs
+ */
+async function readCorpus(file: string, ids: Set<string>, sampleSize: number = 0, random: () => number = Math.random):
+    Promise<{texts: Map<string, {text: string, title?: string}>, sample: Array<string>}> {
+    const texts = new Map<string, {text: string, title?: string}>();
+    const reservoir: Array<{pid: string, text: string, title?: string}> = [];
+    let seen = 0;
+    for await (const line of readLines(file)) {
+        let doc: {pid: string, text: string, title?: string};
+        if (line.trimStart().startsWith('{')) {
+            const row = JSON.parse(line);
+            doc = {pid: String(row['_id'] ?? row['pid']), text: row['text'] ?? row['passage']};
+            if (row['title']) {
+                doc.title = row['title'];
+            }
+        } else {
+            const [pid, ...text] = line.split('\t');
+            doc = {pid: pid, text: text.join('\t')};
+        }
+        if (ids.has(doc.pid)) {
+            texts.set(doc.pid, doc.title ? {text: doc.text, title: doc.title} : {text: doc.text});
+        } else if (sampleSize > 0) {
+            seen++;
+            if (reservoir.length < sampleSize) {
+                reservoir.push(doc);
+            } else {
+                const j = Math.floor(random() * seen);
+                if (j < sampleSize) {
+                    reservoir[j] = doc;
+                }
+            }
+        }
+    }
+    reservoir.forEach((doc) => texts.set(doc.pid, doc.title ? {text: doc.text, title: doc.title} : {text: doc.text}));
+    return {texts: texts, sample: reservoir.map((doc) => doc.pid)};
+}
+
+/**
+ * Selects the queries of a dataset: the queries with candidates, restricted to options.qids, then a seeded
+ * random sample of options.queries of them, in input order.
+ *
+ * @function
+ * @param {Array<Query>} queries all queries
+ * @param {(qid: string) => boolean} hasCandidates whether a query has candidate passages
+ * @param {SamplingOptions} options
+ * @returns {Array<Query>}
+ */
+function sampleQueries(queries: Array<Query>, hasCandidates: (qid: string) => boolean, options: SamplingOptions): Array<Query> {
+    const qids = options.qids ? new Set(options.qids) : undefined;
+    const eligible = queries.filter((query) => hasCandidates(query['qid']) && (!qids || qids.has(query['qid'])));
+    if (options.queries === undefined || options.queries >= eligible.length) {
+        return eligible;
+    }
+    const random = prng(options.seed);
+    const keys = eligible.map(() => random());
+    const chosen = new Set(eligible.map((_, i) => i).sort((a, b) => keys[a] - keys[b]).slice(0, options.queries));
+    return eligible.filter((_, i) => chosen.has(i));
+}
+
+/**
+ * Derives graded relevance judgments from candidate ranks: number of candidates of the query - rank + 1, as for
+ * the original MS MARCO sample.
+ *
+ * @function
+ * @param {Array<Passage>} passages
+ * @returns {Qrels}
+ */
+export function rankQrels(passages: Array<Passage>): Qrels {
+    const counts = new Map<string, number>();
+    passages.forEach((passage) => counts.set(passage['qid'], (counts.get(passage['qid']) ?? 0) + 1));
+    const qrels: Qrels = {};
+    passages.forEach((passage) => {
+        qrels[passage['qid']] ??= {};
+        qrels[passage['qid']][passage['pid']] = (counts.get(passage['qid']) as number) - passage['rank'] + 1;
+    });
+    return qrels;
+}
+
+/**
+ * Restricts judgments to the selected queries.
+ *
+ * @function
+ * @param {Qrels} qrels
+ * @param {Array<Query>} queries
+ * @returns {Qrels}
+ */
+function selectQrels(qrels: Qrels, queries: Array<Query>): Qrels {
+    return Object.fromEntries(queries.filter((query) => qrels[query['qid']]).map((query) => [query['qid'], qrels[query['qid']]]));
+}
+
+/**
+ * Builds the passages of the selected queries from their ranked candidate IDs.  Candidates missing from the
+ * corpus are skipped.
+ *
+ * @function
+ * @param {Array<Query>} queries
+ * @param {Map<string, Array<string>>} candidates ranked candidate IDs by query
+ * @param {Map<string, {text: string, title?: string}>} texts corpus passages by ID
+ * @param {(pid: string) => string} rename ID of the passage in the dataset
+ * @returns {Array<Passage>}
+ */
+function toPassages(queries: Array<Query>, candidates: Map<string, Array<string>>, texts: Map<string, {text: string, title?: string}>,
+    rename: (pid: string) => string = (pid) => pid): Array<Passage> {
+    return queries.flatMap((query) => (candidates.get(query['qid']) ?? [])
+        .filter((pid) => texts.has(pid))
+        .map((pid, i) => ({qid: query['qid'], pid: rename(pid), rank: i + 1, ...texts.get(pid)}) as Passage));
+}
+
+/**
+ * Imports a BEIR dataset directory (corpus.jsonl, queries.jsonl and qrels/<split>.tsv; the JSON lines files
+ * may be gzipped).  Only queries of the split are imported.  The corpus is streamed once.
+ *
+ * @async
+ * @function
+ * @param {string} dir dataset directory
+ * @param {Partial<BeirOptions>} options split (default test), candidate run and sampling
+ * @returns {Promise<Dataset>}
+ */
+export async function loadBeir(dir: string, options: Partial<BeirOptions> = {}): Promise<Dataset> {
+    const opts: BeirOptions = {...DEFAULT_SAMPLING, split: 'test', ...options};
+    const find = (name: string) => [name, `${name}.gz`].map((file) => path.join(dir, file)).find((file) => fs.existsSync(file)) ??
+        assert.fail(`missing ${name} in ${dir}`);
+    const qrels = await readBeirQrels(path.join(dir, 'qrels', `${opts.split}.tsv`));
+    const run = opts.run ? await rankedIds(opts.run) : undefined;
+    const queries = sampleQueries(await readQueries(find('queries.jsonl')),
+        (qid) => qrels[qid] !== undefined && (!run || run.has(qid)), opts);
+
+    const candidates = new Map<string, Array<string>>();
+    if (run) {
+        queries.forEach((query) => candidates.set(query['qid'], (run.get(query['qid']) ?? []).slice(0, opts.passagesPerQuery)));
+    } else {
+        queries.forEach((query) => candidates.set(query['qid'], Object.entries(qrels[query['qid']])
+            .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+            .slice(0, opts.passagesPerQuery).map(([pid]) => pid)));
+    }
+    const ids = new Set([...candidates.values()].flat());
+    const random = prng(opts.seed);
+    const sampleSize = run ? 0 : queries.length * opts.passagesPerQuery;
+    const { texts, sample } = await readCorpus(find('corpus.jsonl'), ids, sampleSize, random);
+
+    if (!run) {
+        // judged passages found in the corpus are filled up with unjudged negatives, and the candidates are
+        // shuffled so that the rank does not reveal the judgments
+        let next = 0;
+        candidates.forEach((judged, qid) => {
+            const pids = judged.filter((pid) => texts.has(pid));
+            candidates.set(qid, pids);
+            while (pids.length < opts.passagesPerQuery && next < sample.length) {
+                pids.push(sample[next++]);
+            }
+            const keys = new Map(pids.map((pid) => [pid, random()]));
+            pids.sort((a, b) => (keys.get(a) as number) - (keys.get(b) as number));
+        });
+    }
+    return {queries: queries, passages: toPassages(queries, candidates, texts), qrels: selectQrels(qrels, queries)};
+}
+
+/**
+ * Imports a dataset from TREC-style files: queries, a corpus, a run that selects the candidates and
+ * optional qrels.  The corpus is streamed once and only the candidates are kept.
+ *
+ * @async
+ * @function
+ * @param {TrecFiles} files
+ * @param {Partial<SamplingOptions>} options sampling
+ * @returns {Promise<Dataset>}
+ */
+export async function loadTrec(files: TrecFiles, options: Partial<SamplingOptions> = {}): Promise<Dataset> {
+    const opts: SamplingOptions = {...DEFAULT_SAMPLING, ...options};
+    const run = await rankedIds(files.run);
+    const queries = sampleQueries(await readQueries(files.queries), (qid) => run.has(qid), opts);
+    const candidates = new Map(queries.map((query) => [query['qid'], (run.get(query['qid']) ?? []).slice(0, opts.passagesPerQuery)]));
+    const { texts } = await readCorpus(files.corpus, new Set([...candidates.values()].flat()));
+    const passages = toPassages(queries, candidates, texts);
+    const qrels = files.qrels ? selectQrels(await readQrels(files.qrels), queries) : rankQrels(passages);
+    return {queries: queries, passages: passages, qrels: qrels};
+}
+
+/**
+ * Imports the MS MARCO v2 passage top-100 format.  Candidates are read from their gzipped shards
+ * (msmarco_passage_<shard>_<offset> lives in msmarco_passage_<shard>.gz), and each shard is read once.  The
+ * msmarco_passage_ prefix is removed from the passage IDs.
+ *
+ * @async
+ * @function
+ * @param {MarcoFiles} files
+ * @param {Partial<SamplingOptions>} options sampling
+ * @returns {Promise<Dataset>}
+ */
+export async function loadMarco(files: MarcoFiles, options: Partial<SamplingOptions> = {}): Promise<Dataset> {
+    const opts: SamplingOptions = {...DEFAULT_SAMPLING, ...options};
+    const run = await rankedIds(files.run);
+    const queries = sampleQueries(await readQueries(files.queries), (qid) => run.has(qid), opts);
+    const candidates = new Map(queries.map((query) => [query['qid'], (run.get(query['qid']) ?? []).slice(0, opts.passagesPerQuery)]));
+
+    const shards = new Map<string, Set<string>>();
+    [...candidates.values()].flat().forEach((pid) => {
+        const shard = pid.substring(0, pid.lastIndexOf('_'));
+        if (!shards.has(shard)) {
+            shards.set(shard, new Set());
+        }
+        shards.get(shard)?.add(pid);
+    });
+    const texts = new Map<string, {text: string}>();
+    for (const [shard, pids] of [...shards].sort((a, b) => a[0] < b[0] ? -1 : 1)) {
+        for await (const line of readLines(path.join(files.passages, `${shard}.gz`))) {
+            const doc = JSON.parse(line);
+            if (pids.has(doc['pid'])) {
+                texts.set(doc['pid'], {text: doc['passage']});
+                pids.delete(doc['pid']);
+                if (pids.size === 0) {
+                    break;
+                }
+            }
+        }
+    }
+
+    const strip = (pid: string) => pid.startsWith(MARCO_PREFIX) ? pid.substring(MARCO_PREFIX.length) : pid;
+    const passages = toPassages(queries, candidates, texts, strip);
+    let qrels = rankQrels(passages);
+    if (files.qrels) {
+        const judged = selectQrels(await readQrels(files.qrels), queries);
+        qrels = Object.fromEntries(Object.entries(judged).map(([qid, rels]) =>
+            [qid, Object.fromEntries(Object.entries(rels).map(([pid, rel]) => [strip(pid), rel]))]));
+    }
+    return {queries: queries, passages: passages, qrels: qrels};
+}
+
+/**
+ * Writes a dataset as queries.jsonl, passages.jsonl and qrels.tsv (TREC qrels, as read by readQrels()) to a
+ * directory.  Existing files are replaced, never appended to: each file is written to a temporary file that is
+ * then renamed, so importing the same data twice yields identical files.
+ *
+ * @async
+ * @function
+ * @param {Dataset} dataset
+ * @param {string} dir output directory, created if needed
+ * @returns {Promise<void>}
+ */
+export async function writeDataset(dataset: Dataset, dir: string): Promise<void> {
+    await fs.promises.mkdir(dir, {recursive: true});
+    const qrels = Object.entries(dataset.qrels).flatMap(([qid, rels]) =>
+        Object.entries(rels).map(([pid, rel]) => `${qid} 0 ${pid} ${rel}`));
+    const files: Array<[string, Array<string>]> = [
+        ['queries.jsonl', dataset.queries.map((query) => JSON.stringify(query))],
+        ['passages.jsonl', dataset.passages.map((passage) => JSON.stringify(passage))],
+        ['qrels.tsv', qrels]
+    ];
+    for (const [name, lines] of files) {
+        const file = path.join(dir, name);
+        await fs.promises.writeFile(`${file}.tmp`, lines.map((line) => `${line}\n`).join(''));
+        await fs.promises.rename(`${file}.tmp`, file);
+    }
+}
@@ -0,0 +1,322 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { Buffer } from 'node:buffer';
+import axios from 'axios';
+import { EmbeddingType } from '../types.js';
+import { tokenize } from '../utils/text.js';
+
+/**
+ * Source of text embeddings.  embed() returns one vector of length dim per input text, in input order.
+ */
+export interface EmbeddingProvider {
+    readonly model: string;
+    readonly dim: number;
+    embed(texts: Array<string>, type: EmbeddingType): Promise<Array<Array<number>>>;
+}
+
+/**
+ * Options of the HTTP embedding provider.
+ *  -   url:       endpoint of an OpenAI-compatible embeddings API, e.g., http://localhost:8000/v1/embeddings
+ *  -   model:     model name sent with each request
+ *  -   dim:       dimension of the returned vectors
+ *  -   apiKey:    optional bearer token
+ *  -   inputType: sends input_type (query or passage), as required by NIM retrieval models.  Disable for
+ *                 APIs that reject unknown parameters.
+ */
+export type HttpEmbeddingOptions = {
+    url: string,
+    model: string,
+    dim: number,
+    apiKey?: string,
+    inputType?: boolean
+};
+
+/**
+ * Class implementing an embedding provider for Nvidia NIM and other OpenAI-compatible /v1/embeddings APIs
+ * @class
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+    readonly model: string;
+    readonly dim: number;
+    #options: HttpEmbeddingOptions;
+
+    /**
+     * @constructor
+     * @param {HttpEmbeddingOptions} options endpoint, model and dimension
+     */
+    constructor(options: HttpEmbeddingOptions) {
+        this.model = options.model;
+        this.dim = options.dim;
+        this.#options = {inputType: true, ...options};
+    }
+
+    /**
+     * Embeds a batch of texts with a single REST API call.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {Array<string>} texts passages or queries to be vectorized
+     * @param {EmbeddingType} type type of vector to be created (query or passage)
+     * @returns {Promise<Array<Array<number>>>}
+     */
+    async embed(texts: Array<string>, type: EmbeddingType): Promise<Array<Array<number>>> {
+        if (texts.length === 0) {
+            return [];
+        }
+        const body: { [key: string]: string | Array<string> } = {
+            input: texts,
+            model: this.model,
+            encoding_format: 'float'
+        };
+        if (this.#options.inputType) {
+            body['input_type'] = type;
+        }
+        const headers = this.#options.apiKey ? { Authorization: `Bearer ${this.#options.apiKey}` } : {};
+        const result = await axios.post(this.#options.url, body, { headers: headers });
+
+        const data: Array<{ index: number, embedding: Array<number> }> = result.data.data;
+        assert.equal(data.length, texts.length);
+        const vectors = [...data].sort((a, b) => a.index - b.index).map((elm) => elm.embedding);
+        vectors.forEach((vector) => assert.equal(vector.length, this.dim));
+        return vectors;
+    }
+}
+
+/**
+ * Class implementing a local, deterministic embedding provider for offline use and CI.  Each text is split
+ * into lowercased words with tokenize(), as the lexical backends do; every word and every character n-gram of
+ * the padded word is hashed (FNV-1a) into one of dim buckets with a hash-derived sign.  The resulting vector is
+ * L2 normalized, so cosine similarity reflects lexical overlap.  Query and passage embeddings share the same space.
+ * @class
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+    readonly model: string;
+    readonly dim: number;
+    readonly n: number;
+
+    /**
+     * @constructor
+     * @param {number} dim dimension of the vectors
+     * @param {number} n character n-gram length
+     */
+    constructor(dim: number = 1024, n: number = 3) {
+        assert(dim > 0 && n > 0);
+        this.dim = dim;
+        this.n = n;
+        this.model = `hash-ngram-${n}-${dim}`;
+    }
+
+    /**
+     * Embeds a batch of texts.  The embedding type is ignored, since queries and passages share the same space.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {Array<string>} texts passages or queries to be vectorized
+     * @returns {Promise<Array<Array<number>>>}
+     */
+    async embed(texts: Array<string>): Promise<Array<Array<number>>> {
+        return texts.map((text) => this.#vectorize(text));
+    }
+
+    /**
+     * Builds the normalized hashed feature vector of a text.
+     *
+     * @private
+     * @function
+     * @param {string} text
+     * @returns {Array<number>}
+     */
+    #vectorize(text: string): Array<number> {
+        const vector: Array<number> = new Array(this.dim).fill(0);
+        const add = (feature: string) => {
+            const hash = HashEmbeddingProvider.#fnv1a(feature);
+            vector[hash % this.dim] += (hash & 0x80000000) ? -1 : 1;
+        };
+
+        for (const word of tokenize(text)) {
+            add(`w:${word}`);
+            const padded = `<${word}>`;
+            for (let i = 0; i + this.n <= padded.length; i++) {
+                add(padded.substring(i, i + this.n));
+            }
+        }
+
+        const norm = Math.sqrt(vector.reduce((acc, val) => acc + val * val, 0));
+        return norm === 0 ? vector : vector.map((val) => val / norm);
+    }
+
+    /**
+     * 32-bit FNV-1a hash of a string.
+     *
+     * @private
+     * @function
+     * @param {string} str
+     * @returns {number} unsigned 32-bit hash
+     */
+    static #fnv1a(str: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < str.length; i++) {
+            hash ^= str.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
+
+/**
+ * Class implementing a persistent on-disk cache in front of another embedding provider.  Vectors are keyed by
+ * a SHA-256 hash of the model, input type and text, and appended as JSON lines to the cache file, so unchanged
+ * texts are never sent to the underlying provider again, across runs.
+ * @class
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+    readonly model: string;
+    readonly dim: number;
+    readonly file: string;
+    hits: number = 0;
+    misses: number = 0;
+    #provider: EmbeddingProvider;
+    #cache: Promise<Map<string, Array<number>>> | undefined;
+    #writing: Promise<void> = Promise.resolve();
+    #truncated: boolean = false;
+
+    /**
+     * @constructor
+     * @param {EmbeddingProvider} provider underlying provider
+     * @param {string} file path of the JSON lines cache file, created on first write
+     */
+    constructor(provider: EmbeddingProvider, file: string) {
+        this.#provider = provider;
+        this.model = provider.model;
+        this.dim = provider.dim;
+        this.file = file;
+    }
+
+    /**
+     * Embeds a batch of texts, calling the underlying provider only for texts that are not cached.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {Array<string>} texts passages or queries to be vectorized
+     * @param {EmbeddingType} type type of vector to be created (query or passage)
+     * @returns {Promise<Array<Array<number>>>}
+     */
+    async embed(texts: Array<string>, type: EmbeddingType): Promise<Array<Array<number>>> {
+        const cache = await this.#load();
+        const keys = texts.map((text) => this.#key(text, type));
+        const missing = new Map<string, string>();
+        keys.forEach((key, i) => {
+            if (!cache.has(key)) {
+                missing.set(key, texts[i]);
+            }
+        });
+        const missed = keys.filter((key) => missing.has(key)).length;
+        this.misses += missed;
+        this.hits += keys.length - missed;
+
+        if (missing.size > 0) {
+            const vectors = await this.#provider.embed([...missing.values()], type);
+            const lines: Array<string> = [];
+            [...missing.keys()].forEach((key, i) => {
+                cache.set(key, vectors[i]);
+                lines.push(JSON.stringify({key: key, vector: vectors[i]}));
+            });
+            const prefix = this.#truncated ? '\n' : '';
+            this.#truncated = false;
+            // a failed append only fails the call that wrote it; later writes are chained after it regardless
+            this.#writing = this.#writing.catch(() => undefined)
+                .then(() => fs.promises.appendFile(this.file, prefix + lines.join('\n') + '\n'));
+            await this.#writing;
+        }
+        return keys.map((key) => cache.get(key) as Array<number>);
+    }
+
+    /**
+     * Cache key of a text: SHA-256 of model, input type and text.
+     *
+     * @private
+     * @function
+     * @param {string} text
+     * @param {EmbeddingType} type
+     * @returns {string}
+     */
+    #key(text: string, type: EmbeddingType): string {
+        return createHash('sha256').update(`${this.model}\0${type}\0${text}`).digest('hex');
+    }
+
+    /**
+     * Loads the cache file once.  Lines that cannot be parsed (e.g., a write interrupted by a crash) or that
+     * have the wrong dimension are ignored, and the next write starts on a new line.
+     *
+     * @private
+     * @function
+     * @returns {Promise<Map<string, Array<number>>>}
+     */
+    #load(): Promise<Map<string, Array<number>>> {
+        this.#cache ??= (async () => {
+            const cache = new Map<string, Array<number>>();
+            await fs.promises.mkdir(path.dirname(this.file), {recursive: true});
+            if (!fs.existsSync(this.file)) {
+                return cache;
+            }
+            const { size } = await fs.promises.stat(this.file);
+            if (size > 0) {
+                const fd = await fs.promises.open(this.file, 'r');
+                const { buffer } = await fd.read(Buffer.alloc(1), 0, 1, size - 1);
+                await fd.close();
+                this.#truncated = buffer[0] !== 0x0a;
+            }
+            const lines = readline.createInterface({input: fs.createReadStream(this.file), crlfDelay: Infinity});
+            for await (const line of lines) {
+                try {
+                    const entry = JSON.parse(line);
+                    if (entry.vector?.length === this.dim) {
+                        cache.set(entry.key, entry.vector);
+                    }
+                } catch {
+                    continue;
+                }
+            }
+            return cache;
+        })();
+        return this.#cache;
+    }
+}
+
+/**
+ * Embeds an arbitrary number of texts in batches of batchSize, with at most concurrency requests in flight.
+ *
+ * @async
+ * @function
+ * @param {EmbeddingProvider} embedder
+ * @param {Array<string>} texts passages or queries to be vectorized
+ * @param {EmbeddingType} type type of vector to be created (query or passage)
+ * @param {number} batchSize maximum number of texts per embed() call
+ * @param {number} concurrency maximum number of concurrent embed() calls
+ * @returns {Promise<Array<Array<number>>>} vectors in input order
+ */
+export async function embedBatched(embedder: EmbeddingProvider, texts: Array<string>, type: EmbeddingType,
+    batchSize: number = 32, concurrency: number = 4): Promise<Array<Array<number>>> {
+    assert(batchSize > 0 && concurrency > 0);
+    const batches: Array<Array<string>> = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+        batches.push(texts.slice(i, i + batchSize));
+    }
+
+    const results: Array<Array<Array<number>>> = new Array(batches.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < batches.length) {
+            const b = next++;
+            results[b] = await embedder.embed(batches[b], type);
+        }
+    };
+    await Promise.all(Array.from({length: Math.min(concurrency, batches.length)}, worker));
+    return results.flat();
+}
@@ -0,0 +1,213 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import readline from 'node:readline';
+import { Qrels, SearchResult } from '../types.js';
+
+/**
+ * Gain applied to graded relevance in NDCG.
+ *  -   Linear:      rel
+ *  -   Exponential: 2^rel - 1
+ * @enum
+ */
+export enum Gain {
+    Linear = 'linear',
+    Exponential = 'exponential'
+};
+
+/**
+ * Evaluation options.
+ *  -   k:         rank cutoff for NDCG@k, Recall@k and Precision@k
+ *  -   gain:      NDCG gain function
+ *  -   threshold: minimum relevance grade counted as relevant by the binary metrics (MAP, MRR, Recall, Precision)
+ */
+export type EvaluationOptions = {
+    k: number,
+    gain: Gain,
+    threshold: number
+};
+
+export type Metrics = {
+    ndcg: number,
+    map: number,
+    mrr: number,
+    recall: number,
+    precision: number
+};
+
+export type QueryMetrics = Metrics & {
+    qid: string
+};
+
+export type EvaluationResult = {
+    options: EvaluationOptions,
+    queries: Array<QueryMetrics>,
+    mean: Metrics
+};
+
+type relevanceType = {
+    [pid: string]: number
+};
+
+const DEFAULT_OPTIONS: EvaluationOptions = {
+    k: 10,
+    gain: Gain.Exponential,
+    threshold: 1
+};
+
+/**
+ * Calculates NDCG@k of a ranking.  The ideal DCG is calculated from every judged passage of the query, not just
+ * the retrieved ones.  Returns 0 if the query has no passage with a positive grade.
+ *
+ * @function
+ * @param {Array<string>} ranking IDs in ranked order
+ * @param {relevanceType} relevance graded relevance judgments of the query, keyed by ID
+ * @param {number} k rank cutoff
+ * @param {Gain} gain gain function
+ * @returns {number}
+ */
+export function ndcg(ranking: Array<string>, relevance: relevanceType, k: number = 10, gain: Gain = Gain.Exponential): number {
+    assert(k > 0);
+    const toGain = (rel: number) => gain === Gain.Exponential ? Math.pow(2, rel) - 1 : rel;
+    const dcg = (grades: Array<number>) => grades.slice(0, k).reduce((acc, rel, i) => acc + toGain(rel) / Math.log2(i + 2), 0);
+    const idcg = dcg(Object.values(relevance).filter((rel) => rel > 0).sort((a, b) => b - a));
+    return idcg === 0 ? 0 : dcg(ranking.map((id) => Math.max(0, relevance[id] ?? 0))) / idcg;
+}
+
+/**
+ * Calculates average precision of a full ranking: the sum of Precision@i at each relevant ID, divided by the
+ * number of relevant IDs in the judgments.
+ *
+ * @function
+ * @param {Array<string>} ranking IDs in ranked order
+ * @param {relevanceType} relevance graded relevance judgments of the query, keyed by ID
+ * @param {number} threshold minimum grade counted as relevant
+ * @returns {number}
+ */
+export function averagePrecision(ranking: Array<string>, relevance: relevanceType, threshold: number = 1): number {
+    const total = Object.values(relevance).filter((rel) => rel >= threshold).length;
+    if (total === 0) {
+        return 0;
+    }
+    let hits = 0;
+    const sum = ranking.reduce((acc, id, i) => {
+        if ((relevance[id] ?? 0) >= threshold) {
+            hits++;
+            return acc + hits / (i + 1);
+        }
+        return acc;
+    }, 0);
+    return sum / total;
+}
+
+/**
+ * Calculates the reciprocal rank of the first relevant ID of a full ranking, 0 if none is retrieved.
+ *
+ * @function
+ * @param {Array<string>} ranking IDs in ranked order
+ * @param {relevanceType} relevance graded relevance judgments of the query, keyed by ID
+ * @param {number} threshold minimum grade counted as relevant
+ * @returns {number}
+ */
+export function reciprocalRank(ranking: Array<string>, relevance: relevanceType, threshold: number = 1): number {
+    const idx = ranking.findIndex((id) => (relevance[id] ?? 0) >= threshold);
+    return idx === -1 ? 0 : 1 / (idx + 1);
+}
+
+/**
+ * Calculates Recall@k: relevant IDs in the top k divided by the number of relevant IDs in the judgments.
+ *
+ * @function
+ * @param {Array<string>} ranking IDs in ranked order
+ * @param {relevanceType} relevance graded relevance judgments of the query, keyed by ID
+ * @param {number} k rank cutoff
+ * @param {number} threshold minimum grade counted as relevant
+ * @returns {number}
+ */
+export function recall(ranking: Array<string>, relevance: relevanceType, k: number = 10, threshold: number = 1): number {
+    const total = Object.values(relevance).filter((rel) => rel >= threshold).length;
+    if (total === 0) {
+        return 0;
+    }
+    return ranking.slice(0, k).filter((id) => (relevance[id] ?? 0) >= threshold).length / total;
+}
+
+/**
+ * Calculates Precision@k: relevant IDs in the top k divided by k.  Rankings shorter than k are not padded, so
+ * the denominator is always k.
+ *
+ * @function
+ * @param {Array<string>} ranking IDs in ranked order
+ * @param {relevanceType} relevance graded relevance judgments of the query, keyed by ID
+ * @param {number} k rank cutoff
+ * @param {number} threshold minimum grade counted as relevant
+ * @returns {number}
+ */
+export function precision(ranking: Array<string>, relevance: relevanceType, k: number = 10, threshold: number = 1): number {
+    assert(k > 0);
+    return ranking.slice(0, k).filter((id) => (relevance[id] ?? 0) >= threshold).length / k;
+}
+
+/**
+ * Evaluates search results against graded relevance judgments.
+ *  -   Every query in the judgments with at least one relevant passage is evaluated.  Queries without
+ *      search results (nothing retrieved) score 0 on every metric rather than being skipped, so means are
+ *      comparable across runs.
+ *  -   Search results of queries without relevant judgments are ignored.
+ *  -   Each SearchResult's scores are assumed to be in ranked order.
+ *
+ * @function
+ * @param {Array<SearchResult>} results ranked results per query
+ * @param {Qrels} qrels graded relevance judgments, keyed by query ID then passage ID
+ * @param {Partial<EvaluationOptions>} options overrides of the default evaluation options
+ * @returns {EvaluationResult} per query metrics, in qrels order, and their means
+ */
+export function evaluate(results: Array<SearchResult>, qrels: Qrels, options: Partial<EvaluationOptions> = {}): EvaluationResult {
+    const opts: EvaluationOptions = {...DEFAULT_OPTIONS, ...options};
+    const rankings = new Map(results.map((result) => [result['qid'], result['scores'].map((elm) => elm.id)]));
+
+    const queries: Array<QueryMetrics> = [];
+    for (const [qid, relevance] of Object.entries(qrels)) {
+        if (!Object.values(relevance).some((rel) => rel >= opts.threshold)) {
+            continue;
+        }
+        const ranking = rankings.get(qid) ?? [];
+        queries.push({
+            qid: qid,
+            ndcg: ndcg(ranking, relevance, opts.k, opts.gain),
+            map: averagePrecision(ranking, relevance, opts.threshold),
+            mrr: reciprocalRank(ranking, relevance, opts.threshold),
+            recall: recall(ranking, relevance, opts.k, opts.threshold),
+            precision: precision(ranking, relevance, opts.k, opts.threshold)
+        });
+    }
+
+    const mean = (key: keyof Metrics) => queries.length ? queries.reduce((acc, query) => acc + query[key], 0) / queries.length : 0;
+    return {
+        options: opts,
+        queries: queries,
+        mean: { ndcg: mean('ndcg'), map: mean('map'), mrr: mean('mrr'), recall: mean('recall'), precision: mean('precision') }
+    };
+}
+
+/**
+ * Reads a TREC qrels file (qid iteration docid relevance, whitespace separated) into graded relevance judgments.
+ *
+ * @async
+ * @function
+ * @param {string} file path of the qrels file
+ * @returns {Promise<Qrels>}
+ */
+export async function readQrels(file: string): Promise<Qrels> {
+    const qrels: Qrels = {};
+    const lines = readline.createInterface({input: fs.createReadStream(file), crlfDelay: Infinity});
+    for await (const line of lines) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length < 4) {
+            continue;
+        }
+        const [qid, , pid, rel] = fields;
+        qrels[qid] ??= {};
+        qrels[qid][pid] = parseInt(rel);
+    }
+    return qrels;
+}
@@ -0,0 +1,207 @@
+import assert from 'node:assert/strict';
+import { EmbeddingProvider } from './Embedding.js';
+import { escape } from './QueryBuilder.js';
+import { fusionOf, Retriever } from './Retriever.js';
+import { EmbeddingType, Query, QueryScores } from '../types.js';
+import { STOPWORDS, tokenize } from '../utils/text.js';
+
+/**
+ * Retrieval sides that pseudo-relevance feedback is applied to.
+ *  -   Text:   the text query is replaced by an RM3 expansion of the query
+ *  -   Vector: the query vector is replaced by a Rocchio shift towards the feedback passages
+ *  -   Both:   text and vector feedback
+ * @enum
+ */
+export enum FeedbackMode {
+    Text = 'text',
+    Vector = 'vector',
+    Both = 'both'
+};
+
+/**
+ * Options of pseudo-relevance feedback.
+ *  -   mode:   retrieval sides that get feedback
+ *  -   docs:   number of feedback passages, the top passages of the RRF fusion of the first-pass lists
+ *  -   terms:  number of expansion terms taken from the feedback passages
+ *  -   lambda: RM3 weight of the original query terms; 1 - lambda goes to the expansion terms
+ *  -   alpha:  Rocchio weight of the original query vector
+ *  -   beta:   Rocchio weight of the centroid of the feedback passage vectors
+ */
+export type FeedbackOptions = {
+    mode: FeedbackMode,
+    docs: number,
+    terms: number,
+    lambda: number,
+    alpha: number,
+    beta: number
+};
+
+/**
+ * A weighted term of an expanded text query.
+ */
+export type WeightedTerm = {
+    term: string,
+    weight: number
+};
+
+/**
+ * A feedback passage: its text and its relevance weight, e.g., its first-pass fused score.
+ */
+export type FeedbackDoc = {
+    text: string,
+    weight: number
+};
+
+const DEFAULT_OPTIONS: FeedbackOptions = {
+    mode: FeedbackMode.Both,
+    docs: 10,
+    terms: 10,
+    lambda: 0.5,
+    alpha: 1,
+    beta: 0.75
+};
+
+/**
+ * Maximum likelihood language model of a text: relative frequencies of its non-stopword terms, or of all its
+ * terms if it has only stopwords.
+ *
+ * @function
+ * @param {string} text
+ * @returns {Map<string, number>}
+ */
+function languageModel(text: string): Map<string, number> {
+    const tokens = tokenize(text);
+    const terms = tokens.some((token) => !STOPWORDS.has(token)) ? tokens.filter((token) => !STOPWORDS.has(token)) : tokens;
+    const model = new Map<string, number>();
+    terms.forEach((term) => model.set(term, (model.get(term) ?? 0) + 1 / terms.length));
+    return model;
+}
+
+/**
+ * RM3 query expansion.  The relevance model P(w|R) = sum over the feedback passages d of P(q|d) P(w|d), where
+ * P(q|d) is the passage weight normalized to sum 1 and P(w|d) the relative frequency of w in d (RM1).  The
+ * top terms of P(w|R), renormalized, are interpolated with the maximum likelihood model of the query:
+ * lambda P(w|Q) + (1 - lambda) P(w|R).  Stopwords are neither query nor expansion terms.
+ *
+ * @function
+ * @param {string} query natural-language query
+ * @param {Array<FeedbackDoc>} docs feedback passages with non-negative weights
+ * @param {number} terms number of expansion terms
+ * @param {number} lambda weight of the original query model, between 0 and 1
+ * @returns {Array<WeightedTerm>} query and expansion terms, by descending weight and then term
+ */
+export function rm3(query: string, docs: Array<FeedbackDoc>, terms: number = 10, lambda: number = 0.5): Array<WeightedTerm> {
+    assert(lambda >= 0 && lambda <= 1, `invalid RM3 lambda: ${lambda}`);
+    assert(docs.every((doc) => doc.weight >= 0), 'feedback passage weights must be non-negative');
+    const total = docs.reduce((acc, doc) => acc + doc.weight, 0);
+    const relevance = new Map<string, number>();
+    for (const doc of docs) {
+        const prior = total > 0 ? doc.weight / total : 1 / docs.length;
+        languageModel(doc.text).forEach((p, term) => {
+            if (!STOPWORDS.has(term)) {
+                relevance.set(term, (relevance.get(term) ?? 0) + prior * p);
+            }
+        });
+    }
+    const byWeight = (a: WeightedTerm, b: WeightedTerm) => b.weight - a.weight || (a.term < b.term ? -1 : a.term > b.term ? 1 : 0);
+    const expansion = [...relevance].map(([term, weight]) => ({term: term, weight: weight})).sort(byWeight).slice(0, terms);
+    const mass = expansion.reduce((acc, elm) => acc + elm.weight, 0);
+
+    const weights = new Map<string, number>();
+    languageModel(query).forEach((p, term) => weights.set(term, lambda * p));
+    expansion.forEach((elm) => weights.set(elm.term, (weights.get(elm.term) ?? 0) + (1 - lambda) * elm.weight / mass));
+    return [...weights].map(([term, weight]) => ({term: term, weight: weight})).filter((elm) => elm.weight > 0).sort(byWeight);
+}
+
+/**
+ * Builds the RediSearch text query of weighted terms: a union of the terms, each with a $weight attribute
+ * relative to the largest weight.  The result is a field-less expression in the format of the q_str query field.
+ *
+ * @function
+ * @param {Array<WeightedTerm>} terms
+ * @returns {string}
+ * @example
+ *  weightedQuery([{term: 'silk', weight: 0.4}, {term: 'fiber', weight: 0.1}]);
+ *  // (((silk) => { $weight: 1; }) | ((fiber) => { $weight: 0.25; }))
+ */
+export function weightedQuery(terms: Array<WeightedTerm>): string {
+    assert(terms.length > 0, 'no terms to query');
+    const max = Math.max(...terms.map((elm) => elm.weight));
+    assert(max > 0, 'term weights must be positive');
+    const clauses = terms.map((elm) => ({term: elm.term, weight: parseFloat((elm.weight / max).toFixed(4))}))
+        .filter((elm) => elm.weight > 0)
+        .map((elm) => `((${escape(elm.term)}) => { $weight: ${elm.weight}; })`);
+    return `(${clauses.join(' | ')})`;
+}
+
+/**
+ * Rocchio feedback of a query vector: alpha * query + beta * centroid of the feedback passage vectors.
+ * Without feedback vectors, the query vector is returned unchanged.
+ *
+ * @function
+ * @param {Array<number>} qvec query vector
+ * @param {Array<Array<number>>} docs feedback passage vectors
+ * @param {number} alpha weight of the query vector
+ * @param {number} beta weight of the centroid
+ * @returns {Array<number>}
+ */
+export function rocchio(qvec: Array<number>, docs: Array<Array<number>>, alpha: number = 1, beta: number = 0.75): Array<number> {
+    if (docs.length === 0) {
+        return qvec;
+    }
+    docs.forEach((vector) => assert.equal(vector.length, qvec.length, 'feedback vector dimension mismatch'));
+    return qvec.map((val, i) => alpha * val + beta * docs.reduce((acc, vector) => acc + vector[i], 0) / docs.length);
+}
+
+/**
+ * Builds the second-pass queries of two-pass pseudo-relevance feedback.  The feedback passages of a query are
+ * the top passages of the RRF fusion of its first-pass lists, weighted by their fused scores; passages without
+ * a text are skipped.  Text feedback replaces q_str with the RM3 expansion of the query (see rm3 and
+ * weightedQuery).  Vector feedback sets the query vector of every distinct embedding model of the retrievers'
+ * backends to the Rocchio shift of the embedded query towards the embedded feedback passages.  Running the
+ * queries with retrieve() gives the second-pass lists, to be fused like the first-pass ones.
+ *
+ * @async
+ * @function
+ * @param {Array<Query>} queries
+ * @param {Array<QueryScores>} results first-pass results of the queries, as returned by retrieve()
+ * @param {Array<Retriever>} retrievers retrievers of the first pass
+ * @param {Map<string, string>} texts passage texts by ID
+ * @param {Partial<FeedbackOptions>} options overrides of the default feedback options
+ * @returns {Promise<Array<Query>>} second-pass queries, in query order
+ */
+export async function feedbackQueries(queries: Array<Query>, results: Array<QueryScores>, retrievers: Array<Retriever>,
+    texts: Map<string, string>, options: Partial<FeedbackOptions> = {}): Promise<Array<Query>> {
+    const opts: FeedbackOptions = {...DEFAULT_OPTIONS, ...options};
+    assert(Object.values(FeedbackMode).includes(opts.mode), `invalid feedback mode: ${opts.mode}`);
+    assert(opts.docs > 0 && opts.terms > 0, 'feedback docs and terms must be positive');
+    const names = retrievers.map((retriever) => retriever.name);
+    const embedders = new Map<string, EmbeddingProvider>();
+    retrievers.forEach((retriever) => embedders.set(retriever.backend.embedder.model, retriever.backend.embedder));
+
+    const feedback: Array<Query> = [];
+    for (const query of queries) {
+        const result = results.find((elm) => elm['qid'] === query['qid']);
+        assert(result !== undefined, `no first-pass results for query ${query['qid']}`);
+        const docs = fusionOf(result, names, retrievers).rrf(60, opts.docs)
+            .filter((elm) => texts.has(elm.id))
+            .map((elm) => ({text: texts.get(elm.id) as string, weight: elm.score}));
+        const expanded: Query = {...query};
+        if (docs.length > 0 && opts.mode !== FeedbackMode.Vector) {
+            const terms = rm3(query['query'], docs, opts.terms, opts.lambda);
+            if (terms.length > 0) {
+                expanded['q_str'] = weightedQuery(terms);
+            }
+        }
+        if (docs.length > 0 && opts.mode !== FeedbackMode.Text) {
+            expanded['vectors'] = {};
+            for (const [model, embedder] of embedders) {
+                const [qvec] = await embedder.embed([query['query']], EmbeddingType.Query);
+                const vectors = await embedder.embed(docs.map((doc) => doc.text), EmbeddingType.Passage);
+                expanded['vectors'][model] = rocchio(qvec, vectors, opts.alpha, opts.beta);
+            }
+        }
+        feedback.push(expanded);
+    }
+    return feedback;
+}
@@ -1,7 +1,101 @@
 import assert from 'node:assert/strict';
+import { normalize, Normalization, Normalizer } from './Normalizer.js';
 
-type assocArrayNum = { 
-    [key: string]: number 
+/**
+ * Maximum number of IDs in the union of the rank lists of Condorcet fusion, whose cost is cubic in the number
+ * of IDs.
+ */
+export const CONDORCET_MAX_IDS = 1000;
+
+/**
+ * Treatment of an ID that appears in some score arrays but not in others.
+ *  -   Absent: the list contributes nothing to the ID's fused score
+ *  -   Rank:   the ID is treated as ranked just below the end of the list (list length + 1)
+ *  -   Floor:  the list contributes a fixed floor value to the ID's fused score
+ * @enum
+ */
+export enum Missing {
+    Absent = 'absent',
+    Rank = 'rank',
+    Floor = 'floor'
+};
+
+/**
+ * Missing-item policy passed to the fusion algorithms.  floor is only used by Missing.Floor and is
+ * expressed in the algorithm's own per-list units (Borda points, reciprocal rank, normalized score
+ * or zscore), before weighting.  It defaults to 0.
+ */
+export type MissingPolicy = {
+    policy: Missing,
+    floor?: number
+};
+
+/**
+ * Combination of the normalized per-list values of an ID into its fused score.
+ *  -   Sum:         unweighted sum of the normalized values
+ *  -   WeightedSum: sum of the normalized values multiplied by their score array's weight
+ *  -   Max:         maximum of the weighted normalized values
+ * @enum
+ */
+export enum Combiner {
+    Sum = 'sum',
+    WeightedSum = 'weightedsum',
+    Max = 'max'
+};
+
+/**
+ * A single entry of a fused ranking.
+ *  -   id:     ID of text passage
+ *  -   score:  fused score yielded by the fusion algorithm
+ *  -   rank:   fused rank (1-based)
+ *  -   ranks:  the ID's rank (1-based) in each input score array, null where the ID is missing
+ *  -   scores: the ID's raw score in each input score array, null where the ID is missing
+ */
+export type FusedResult = {
+    id: string,
+    score: number,
+    rank: number,
+    ranks: Array<number | null>,
+    scores: Array<number | null>
+};
+
+/**
+ * Fusion algorithms whose fused score is a weighted sum of per-list values, and can therefore be explained
+ * list by list.
+ * @enum
+ */
+export enum ExplainMethod {
+    Borda = 'borda',
+    RRF = 'rrf',
+    RSF = 'rsf',
+    DBSF = 'dbsf'
+};
+
+/**
+ * The part of one input score array in an ID's fused score.
+ *  -   rank:         the ID's rank (1-based) in the score array, null where the ID is missing
+ *  -   score:        the ID's raw score in the score array, null where the ID is missing
+ *  -   normalized:   the per-list value of the algorithm (Borda points, reciprocal rank, min-max normalized
+ *                    score or zscore), or the missing policy's value; null where the policy contributes nothing
+ *  -   weight:       the score array's weight
+ *  -   contribution: weight * normalized, 0 where normalized is null
+ */
+export type ListExplanation = {
+    rank: number | null,
+    score: number | null,
+    normalized: number | null,
+    weight: number,
+    contribution: number
+};
+
+/**
+ * Explanation of an entry of a fused ranking: its fused score is the sum of the contributions of its lists.
+ */
+export type Explanation = {
+    id: string,
+    score: number,
+    rank: number,
+    lists: Array<ListExplanation>
 };
 
 /** 
@@ -27,13 +121,20 @@ export class Score {
 }
 
 /** 
- * Class implementing various rank fusion algorithms 
+ * Class implementing various rank fusion algorithms.  The score arrays are copied, never modified.  IDs are
+ * mapped once to dense indices, so the algorithms accumulate per-ID values in typed arrays, and fused results
+ * limited to topK are selected with a heap instead of a full sort.
  * @class
  */
 export class Fusion {
     scores: Array<Array<Score>>;
     weights: Array<number>;
     rankings: Array<Array<string>>;
+    ids: Array<string>;
+    #index: Map<string, number> = new Map();
+    #members: Array<Int32Array> = [];
+    #positions: Array<Int32Array> = [];
+    #hits: Int32Array = new Int32Array(0);
 
     /**
      * @constructor
@@ -43,73 +144,481 @@ export class Fusion {
     constructor(scores: Array<Array<Score>>, weights: Array<number> = new Array(scores.length).fill(1)) {
         this.scores = scores;
         this.weights = weights;
+        this.ids = [];
         this.rankings = this.#validateInput();
     }
 
+    /**
+     * Fuses the score arrays of a batch of queries with the same weights and fusion algorithm.
+     * 
+     * @static
+     * @public
+     * @function
+     * @param {Array<Array<Array<Score>>>} batch score arrays of each query
+     * @param {(fusion: Fusion) => Array<FusedResult>} fuse fusion algorithm, e.g., (fusion) => fusion.rrf(60, 10)
+     * @param {Array<number>} weights optional array of weights for each score array
+     * @returns {Array<Array<FusedResult>>} fused results of each query, in batch order
+     * @example
+     *  Fusion.batch([[knn1, fts1], [knn2, fts2]], (fusion) => fusion.rrf(60, 10), [1, 0.5]);
+     */
+    static batch(batch: Array<Array<Array<Score>>>, fuse: (fusion: Fusion) => Array<FusedResult>, 
+        weights?: Array<number>): Array<Array<FusedResult>> {
+        return batch.map((scores) => fuse(new Fusion(scores, weights)));
+    }
+
     /**
      * Performs the following validation checks:
+     * -    there is at least one score array
      * -    scores and weight lengths are equal
-     * -    every score array is of the same length 
-     * -    every score array is composed of the same IDs
-     * The score array is sorted in descending order and a new array (rankings) is returned 
-     * with only the IDs in rank order by score for each score array.
+     * -    no ID appears more than once within a score array
+     * Score arrays may be of different lengths and contain different IDs; fusion is performed over 
+     * the union of their IDs.
+     * Each score array is replaced by a copy sorted in descending order of score (ties keep their input order),
+     * and a new array (rankings) is returned with only the IDs in rank order by score for each score array.
+     * The union of the IDs is indexed in order of first appearance.
      * 
      * @private
      * @function
      * @returns {Array<Array<string>>}
      */
     #validateInput(): Array<Array<string>> {
+        assert(this.scores.length > 0);
         assert.equal(this.scores.length, this.weights.length);
-        
-        const rankings: Array<Array<string>> = [];
-        const ids = new Set(this.scores[0].map(elm => elm.id));       
-        this.scores.forEach((scoreArr) => {
-            assert.equal(ids.size, scoreArr.length);
-            const sorted: Array<string> = scoreArr.sort((a,b) => b.score - a.score).map((elm) => elm.id);
-            for (const id of ids) {
-                assert(sorted.includes(id));
+
+        this.scores = this.scores.map((scoreArr) => {
+            const sorted = scoreArr.every((elm, j) => j === 0 || scoreArr[j - 1].score >= elm.score);
+            return sorted ? [...scoreArr] : [...scoreArr].sort((a,b) => b.score - a.score);
+        });
+        const rankings = this.scores.map((scoreArr) => scoreArr.map((elm) => elm.id));
+        this.#members = rankings.map((ranking) => Int32Array.from(ranking, (id) => {
+            let idx = this.#index.get(id);
+            if (idx === undefined) {
+                idx = this.ids.length;
+                this.#index.set(id, idx);
+                this.ids.push(id);
             }
-            rankings.push(sorted);
+            return idx;
+        }));
+        this.#hits = new Int32Array(this.ids.length);
+        this.#positions = this.#members.map((members) => {
+            const positions = new Int32Array(this.ids.length).fill(-1);
+            members.forEach((idx, j) => {
+                assert.equal(positions[idx], -1, `duplicate ID in score array: ${this.ids[idx]}`);
+                positions[idx] = j;
+                this.#hits[idx]++;
+            });
+            return positions;
         });
         return rankings;
     }
 
+    /**
+     * Applies a missing-item policy to one score array.  Every ID in the union that is not present in
+     * the array is passed to fill with its unweighted value according to the policy:
+     *  -   Absent: nothing, fill is not called
+     *  -   Rank:   rankValue, i.e., the value of a virtual item at list length + 1
+     *  -   Floor:  the policy's floor value
+     * 
+     * @private
+     * @function
+     * @param {number} i index of the score array
+     * @param {MissingPolicy} missing policy to apply
+     * @param {number} rankValue per-list value of an item ranked at list length + 1
+     * @param {(idx: number, value: number) => void} fill called with the index and value of each missing ID
+     */
+    #fillMissing(i: number, missing: MissingPolicy, rankValue: number, fill: (idx: number, value: number) => void): void {
+        if (missing.policy === Missing.Absent) {
+            return;
+        }
+        const value = missing.policy === Missing.Rank ? rankValue : (missing.floor ?? 0);
+        const positions = this.#positions[i];
+        for (let idx = 0; idx < positions.length; idx++) {
+            if (positions[idx] === -1) {
+                fill(idx, value);
+            }
+        }
+    }
+
+    /**
+     * Calculates the unweighted per-list values of an additive fusion algorithm for one score array:
+     *  -   Borda: n - r + 1 points for rank r, n - list length for missing IDs (Missing.Rank)
+     *  -   RRF:   1/(j + k) for 0-based position j, 1/(list length + k) for missing IDs (Missing.Rank)
+     *  -   RSF:   min-max normalized score, the lowest normalized score for missing IDs (Missing.Rank)
+     *  -   DBSF:  zscore, the lowest zscore for missing IDs (Missing.Rank)
+     * 
+     * @private
+     * @function
+     * @param {ExplainMethod} method fusion algorithm
+     * @param {number} k RRF constant
+     * @param {number} i index of the score array
+     * @returns {{values: Array<number>, rankValue: number}} values in rank order and the Missing.Rank value
+     */
+    #arrayValues(method: ExplainMethod, k: number, i: number): {values: Array<number>, rankValue: number} {
+        const n = this.ids.length;
+        const length = this.rankings[i].length;
+        switch (method) {
+            case ExplainMethod.Borda:
+                return {values: Array.from({length: length}, (_, j) => n - j), rankValue: n - length};
+            case ExplainMethod.RRF:
+                return {values: Array.from({length: length}, (_, j) => 1/(j+k)), rankValue: 1/(length+k)};
+            case ExplainMethod.RSF:
+            case ExplainMethod.DBSF: {
+                const values = normalize(this.scores[i].map((elm) => elm.score), 
+                    method === ExplainMethod.RSF ? Normalization.MinMax : Normalization.ZScore);
+                return {values: values, rankValue: lowest(values)};
+            }
+            default:
+                assert.fail(`invalid explain method: ${method}`);
+        }
+    }
+
+    /**
+     * Calculates the unweighted per-list values of the additive fusion algorithms, including the values that
+     * the missing policy gives to IDs missing from a list.  An ID gets no value, NaN, from a list where it is
+     * missing under Missing.Absent.
+     * 
+     * @private
+     * @function
+     * @param {ExplainMethod} method fusion algorithm
+     * @param {number} k RRF constant
+     * @param {MissingPolicy} missing treatment of IDs missing from a list
+     * @returns {Array<Float64Array>} per list, value by ID index
+     */
+    #listValues(method: ExplainMethod, k: number, missing: MissingPolicy): Array<Float64Array> {
+        return this.#members.map((members, i) => {
+            const { values, rankValue } = this.#arrayValues(method, k, i);
+            const listValues = new Float64Array(this.ids.length).fill(NaN);
+            members.forEach((idx, j) => listValues[idx] = values[j]);
+            this.#fillMissing(i, missing, rankValue, (idx, value) => listValues[idx] = value);
+            return listValues;
+        });
+    }
+
+    /**
+     * Sums the weighted per-list values of an additive fusion algorithm, skipping the IDs without a value.
+     * 
+     * @private
+     * @function
+     * @param {Array<Float64Array>} listValues per list, value by ID index, as returned by #listValues
+     * @returns {Float64Array} fused scores, by ID index
+     */
+    #sumValues(listValues: Array<Float64Array>): Float64Array {
+        const fused = new Float64Array(this.ids.length);
+        listValues.forEach((values, i) => {
+            const weight = this.weights[i];
+            for (let idx = 0; idx < values.length; idx++) {
+                if (!Number.isNaN(values[idx])) {
+                    fused[idx] += weight * values[idx];
+                }
+            }
+        });
+        return fused;
+    }
+
+    /**
+     * Sums the normalized and (optionally) weighted values of each ID across score arrays, the common case of
+     * #combine without per-ID value arrays.  IDs missing from a score array are handled as in #combine.
+     * 
+     * @private
+     * @function
+     * @param {Normalization | Normalizer} normalizer normalization applied to each score array
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @param {boolean} weighted applies the score array weights to the normalized values
+     * @returns {Float64Array} fused scores, by ID index
+     */
+    #sum(normalizer: Normalization | Normalizer, missing: MissingPolicy, weighted: boolean = true): Float64Array {
+        const fused = new Float64Array(this.ids.length);
+        this.scores.forEach((scoreArr, i) => {
+            const weight = weighted ? this.weights[i] : 1;
+            const normalized = normalize(scoreArr.map((elm) => elm.score), normalizer);
+            const members = this.#members[i];
+            for (let j = 0; j < members.length; j++) {
+                fused[members[j]] += weight * normalized[j];
+            }
+            this.#fillMissing(i, missing, lowest(normalized), (idx, value) => fused[idx] += weight * value);
+        });
+        return fused;
+    }
+
+    /**
+     * Shared implementation of the score-based fusion algorithms.  Each score array is normalized and 
+     * (optionally) weighted, then the per-list values of an ID are reduced to a single fused score.
+     *  -   IDs missing from a score array are handled by the missing policy.  With Missing.Absent the 
+     *      array is skipped for that ID; Missing.Rank contributes the array's lowest normalized value and 
+     *      Missing.Floor contributes the policy's floor value.
+     *  -   hits, the number of score arrays that actually contain the ID, is passed to the reducer 
+     *      independently of the missing policy.
+     * 
+     * @private
+     * @function
+     * @param {Normalization | Normalizer} normalizer normalization applied to each score array
+     * @param {(values: Array<number>, hits: number) => number} reducer combines the per-list values of an ID
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @param {boolean} weighted applies the score array weights to the normalized values
+     * @returns {Array<FusedResult>}
+     */
+    #combine(normalizer: Normalization | Normalizer, reducer: (values: Array<number>, hits: number) => number, 
+        topK: number | undefined, missing: MissingPolicy, weighted: boolean = true): Array<FusedResult> {
+        const values: Array<Array<number>> = Array.from({length: this.ids.length}, () => []);
+        this.scores.forEach((scoreArr, i) => {
+            const weight = weighted ? this.weights[i] : 1;
+            const normalized = normalize(scoreArr.map((elm) => elm.score), normalizer);
+            const members = this.#members[i];
+            for (let j = 0; j < members.length; j++) {
+                values[members[j]].push(weight * normalized[j]);
+            }
+            this.#fillMissing(i, missing, lowest(normalized), (idx, value) => values[idx].push(weight * value));
+        });
+
+        const fusedScores = new Float64Array(this.ids.length);
+        values.forEach((vals, idx) => {
+            fusedScores[idx] = reducer(vals, this.#hits[idx]);
+        });
+        return this.#rank(fusedScores, topK);
+    }
+
+    /**
+     * Converts accumulated fused scores into a sorted array of FusedResults.  Sort order is deterministic:
+     *  -   descending fused score
+     *  -   ties are broken by the number of score arrays containing the ID (descending)
+     *  -   remaining ties are broken by ID (ascending, by code unit)
+     * With topK below the number of IDs, the top IDs are selected with a heap of size topK.
+     * 
+     * @private
+     * @function
+     * @param {Float64Array} fused accumulated scores, by ID index
+     * @param {number} topK optional maximum number of results to return
+     * @returns {Array<FusedResult>}
+     */
+    #rank(fused: Float64Array, topK?: number): Array<FusedResult> {
+        assert(topK === undefined || topK > 0);
+        const ids = this.ids;
+        const hits = this.#hits;
+        const compare = (a: number, b: number) => 
+            fused[b] - fused[a] || hits[b] - hits[a] || (ids[a] < ids[b] ? -1 : ids[a] > ids[b] ? 1 : 0);
+
+        return topIndices(ids.length, topK ?? ids.length, compare).map((idx, j) => {
+            const ranks: Array<number | null> = [];
+            const scores: Array<number | null> = [];
+            this.#positions.forEach((positions, i) => {
+                const pos = positions[idx];
+                ranks.push(pos === -1 ? null : pos + 1);
+                scores.push(pos === -1 ? null : this.scores[i][pos].score);
+            });
+            return {id: ids[idx], score: fused[idx], rank: j + 1, ranks: ranks, scores: scores};
+        });
+    }
+
     /**
      * Implements the Borda Count Method.
      *  -   New array of objects, bordaScores, is created.  Each object represent an ID and its 
      *      accumulated score.
      *  -   Each ID is given a score that represents the summation of its ranks for 
-     *      each rank list in the rankings array.
+     *      each rank list in the rankings array.  An ID at rank r (1-based) receives n - r + 1 points,
+     *      where n is the number of IDs across all rank lists.
+     *  -   IDs missing from a rank list are handled by the missing policy (default: Missing.Rank).
      * 
      * @public
      * @function
-     * @param {boolean} showScores  enables display of the final score list
-     * @returns {Array<string>} array of ids sorted in descending order by their Borda scores
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a rank list
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their Borda scores
      * @example
      *  const scores = [
      *      [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
      *      [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
      *  ];
      *  const fusion = new Fusion(scores);
-     *  fusion.borda(true);
+     *  fusion.borda(2);
      * 
-     *  // borda: [["P1",7],["P3",7],["P4",6],["P2",5],["P5",5]]
+     *  // [{id:'P1', score:7, rank:1, ranks:[2,3], scores:[0.1874,0.6761]},
+     *  //  {id:'P3', score:7, rank:2, ranks:[4,1], scores:[0.081,0.7479]}]
      */
-    borda(showScores: boolean = false): Array<string> {
-        const bordaScores: assocArrayNum = {};
-        this.rankings[0].forEach((elm) => bordaScores[elm] = 0);
+    borda(topK?: number, missing: MissingPolicy = {policy: Missing.Rank}): Array<FusedResult> {
+        return this.#rank(this.#sumValues(this.#listValues(ExplainMethod.Borda, 0, missing)), topK);
+    }
 
-        this.rankings.forEach((rankArr, i) => {
-            rankArr.forEach((rank, j) => {
-                bordaScores[rank] += this.weights[i] * (rankArr.length-j);
-            });
+    /**
+     * Implements the CombANZ algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is the sum of its normalized scores divided by the number of score arrays that
+     *      contain it.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombANZ scores
+     */
+    combAnz(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        const fused = this.#sum(Normalization.MinMax, missing);
+        return this.#rank(fused.map((val, idx) => val / this.#hits[idx]), topK);
+    }
+
+    /**
+     * Implements the CombMAX algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is its maximum normalized score across score arrays.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombMAX scores
+     */
+    combMax(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        return this.#combine(Normalization.MinMax, (values) => Math.max(...values), topK, missing);
+    }
+
+    /**
+     * Implements the CombMED algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is the median of its normalized scores across score arrays.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombMED scores
+     */
+    combMed(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        const median = (values: Array<number>): number => {
+            const sorted = [...values].sort((a, b) => a - b);
+            const mid = Math.floor(sorted.length / 2);
+            return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+        };
+        return this.#combine(Normalization.MinMax, median, topK, missing);
+    }
+
+    /**
+     * Implements the CombMIN algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is its minimum normalized score across score arrays.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombMIN scores
+     */
+    combMin(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        return this.#combine(Normalization.MinMax, (values) => Math.min(...values), topK, missing);
+    }
+
+    /**
+     * Implements the CombMNZ algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is the sum of its normalized scores multiplied by the number of score arrays
+     *      that contain it.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombMNZ scores
+     */
+    combMnz(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        const fused = this.#sum(Normalization.MinMax, missing);
+        return this.#rank(fused.map((val, idx) => val * this.#hits[idx]), topK);
+    }
+
+    /**
+     * Implements the CombSUM algorithm (Fox & Shaw).
+     *  -   Each score array is min-max normalized and weighted.
+     *  -   An item's score is the sum of its normalized scores across score arrays.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their CombSUM scores
+     */
+    combSum(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        return this.#rank(this.#sum(Normalization.MinMax, missing), topK);
+    }
+
+    /**
+     * Implements Condorcet fusion, resolving preference cycles with the Schulze method.
+     *  -   For every pair of IDs (a, b), d[a][b] is the summed weight of the rank lists that place a above b.
+     *  -   IDs missing from a rank list are handled by the missing policy (default: Missing.Rank).
+     *      With Missing.Rank every ID in a rank list is preferred over every ID missing from it; with
+     *      Missing.Absent a rank list only expresses a preference between IDs it contains.  Missing.Floor
+     *      is not supported.
+     *  -   Strongest path strengths p[a][b] are calculated over d with a Floyd-Warshall style pass.
+     *  -   An item's score is the number of IDs it beats, i.e., p[a][b] > p[b][a].
+     *  -   Final output is a single array of FusedResults, sorted in descending order by their number of
+     *      pairwise wins.
+     * The pairwise matrices take O(n^2) memory and the strongest paths O(n^3) time over the n IDs of the
+     * union, so the union is limited to CONDORCET_MAX_IDS IDs; fuse longer lists with another algorithm or
+     * truncate them first.
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a rank list
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their Schulze wins
+     */
+    condorcet(topK?: number, missing: MissingPolicy = {policy: Missing.Rank}): Array<FusedResult> {
+        assert.notEqual(missing.policy, Missing.Floor);
+        const n = this.ids.length;
+        assert(n <= CONDORCET_MAX_IDS, `too many IDs for Condorcet fusion: ${n} > ${CONDORCET_MAX_IDS}`);
+        // d[a][b] at d[a * n + b]
+        const d = new Float64Array(n * n);
+        this.#positions.forEach((positions, i) => {
+            const len = this.rankings[i].length;
+            const weight = this.weights[i];
+            for (let a = 0; a < n; a++) {
+                const ra = positions[a];
+                if (missing.policy === Missing.Absent && ra === -1) {
+                    continue;
+                }
+                for (let b = 0; b < n; b++) {
+                    const rb = positions[b];
+                    if (missing.policy === Missing.Absent && rb === -1) {
+                        continue;
+                    }
+                    if ((ra === -1 ? len : ra) < (rb === -1 ? len : rb)) {
+                        d[a * n + b] += weight;
+                    }
+                }
+            }
         });
 
-        const sorted = Object.entries(bordaScores).sort((a,b) => b[1] - a[1]);
-        if (showScores) {
-            console.log(`borda: ${JSON.stringify(sorted)}`);
-        } 
-        return sorted.map((elm) => elm[0]);
+        const p = d.map((val, ab) => val > d[(ab % n) * n + Math.floor(ab / n)] ? val : 0);
+        // the diagonal may take path strengths, but never strengthens another path and is not compared
+        for (let i = 0; i < n; i++) {
+            const rowI = i * n;
+            for (let j = 0; j < n; j++) {
+                const rowJ = j * n;
+                const pji = p[rowJ + i];
+                // a path through i is no stronger than its first link
+                if (i === j || pji === 0) continue;
+                for (let k = 0; k < n; k++) {
+                    const pik = p[rowI + k];
+                    const path = pji < pik ? pji : pik;
+                    if (path > p[rowJ + k]) {
+                        p[rowJ + k] = path;
+                    }
+                }
+            }
+        }
+
+        const condorcetScores = new Float64Array(n);
+        for (let a = 0; a < n; a++) {
+            for (let b = 0; b < n; b++) {
+                if (p[a * n + b] > p[b * n + a]) {
+                    condorcetScores[a]++;
+                }
+            }
+        }
+        return this.#rank(condorcetScores, topK);
     }
 
     /**
@@ -119,42 +628,136 @@ export class Fusion {
      *  -   Mean and STD are calculated for each array of scores.
      *  -   zscore is calculated for each score in an array.
      *  -   Each ID is given a score that represents the summation of zscores across all score arrays.
-     *  -   Final output is a single array of IDs, sorted in descending order by accumulated zscores.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     *      Missing.Rank gives the ID the zscore of the array's lowest score.
+     *  -   A constant score array (std of 0) yields a zscore of 0 for every ID.
+     *  -   Final output is a single array of FusedResults, sorted in descending order by accumulated zscores.
      * 
      * @public
      * @function
-     * @param {boolean} showScores enables display of the final score list
-     * @returns {Array<string>} array of ids sorted in descending order by their DBSF scores
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their DBSF scores
      * @example
      *  const scores = [
      *      [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
      *      [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
      *  ];
      *  const fusion = new Fusion(scores);
-     *  fusion.dbsf(true);
+     *  fusion.dbsf(2);
      * 
-     *  // dbsf: [["P1",0.88],["P3",0.8611],["P4",0.0713],["P2",-0.7538],["P5",-1.0586]]
+     *  // [{id:'P1', score:0.88, rank:1, ranks:[2,3], scores:[0.1874,0.6761]},
+     *  //  {id:'P3', score:0.8611, rank:2, ranks:[4,1], scores:[0.081,0.7479]}]
      */
-    dbsf(showScores: boolean = false): Array<string> {
-        const zscore = (val: number, mean: number, std: number): number => {
-            return (val - mean) / std;
-        };
+    dbsf(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        return this.fuse(Normalization.ZScore, Combiner.WeightedSum, topK, missing);
+    }
 
-        const dbsfScores: assocArrayNum = {};
-        this.scores[0].forEach((elm) => dbsfScores[elm.id] = 0);
-        this.scores.forEach((scoreArr, i) => {
-            const mean = scoreArr.reduce((a, b) => a + b.score/scoreArr.length, 0);
-            const std = Math.sqrt(scoreArr.reduce((a, b) => a + Math.pow(b.score - mean, 2), 0)/scoreArr.length);
-            scoreArr.forEach((elm) => {
-                dbsfScores[elm.id] += this.weights[i] * zscore(elm.score, mean, std);
+    /**
+     * Explains the fused scores of an additive fusion algorithm list by list.  For each fused ID (in the
+     * algorithm's order) and each score array, the raw score and rank, the algorithm's per-list value, the
+     * array's weight and the resulting contribution are returned.  The contributions of an ID add up to its
+     * fused score.  The result is plain data, e.g., for JSON.stringify(), and is rendered as a table by
+     * formatExplanation().
+     * 
+     * @public
+     * @function
+     * @param {ExplainMethod} method fusion algorithm to explain
+     * @param {number} topK optional maximum number of results to explain
+     * @param {MissingPolicy} missing treatment of IDs missing from a list (default: the algorithm's default)
+     * @param {number} k RRF constant
+     * @returns {Array<Explanation>} explanations sorted in fused order
+     * @example
+     *  const fusion = new Fusion(scores);
+     *  fusion.explain(ExplainMethod.RRF, 1);
+     * 
+     *  // [{id:'P3', score:0.0325, rank:1, lists:[
+     *  //      {rank:4, score:0.081, normalized:0.0159, weight:1, contribution:0.0159},
+     *  //      {rank:1, score:0.7479, normalized:0.0167, weight:1, contribution:0.0167}]}]
+     */
+    explain(method: ExplainMethod, topK?: number, missing?: MissingPolicy, k: number = 60): Array<Explanation> {
+        assert(k > 0);
+        const policy = missing ?? {policy: method === ExplainMethod.Borda ? Missing.Rank : Missing.Absent};
+        const listValues = this.#listValues(method, k, policy);
+        return this.#rank(this.#sumValues(listValues), topK).map((fused) => ({
+            id: fused.id,
+            score: fused.score,
+            rank: fused.rank,
+            lists: listValues.map((values, i) => {
+                const value = values[this.#index.get(fused.id) as number];
+                const normalized = Number.isNaN(value) ? null : value;
+                return {
+                    rank: fused.ranks[i],
+                    score: fused.scores[i],
+                    normalized: normalized,
+                    weight: this.weights[i],
+                    contribution: normalized === null ? 0 : this.weights[i] * normalized
+                };
+            })
+        }));
+    }
+
+    /**
+     * Implements generic score-based fusion from a normalizer and a combiner.
+     *  -   Each score array is normalized with the normalizer (built-in Normalization or custom function).
+     *  -   An item's score is the combination of its normalized scores across score arrays.
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     *      Missing.Rank gives the ID the array's lowest normalized value.
+     *  -   Final output is a single array of FusedResults, sorted in descending order by combined score.
+     * 
+     * @public
+     * @function
+     * @param {Normalization | Normalizer} normalizer normalization applied to each score array
+     * @param {Combiner} combiner combination of the normalized scores of an ID
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their combined scores
+     * @example
+     *  const fusion = new Fusion(scores);
+     *  fusion.fuse(Normalization.ThreeSigma, Combiner.Sum);
+     *  fusion.fuse((scores) => scores.map((val) => Math.log1p(val)), Combiner.Max, 10);
+     */
+    fuse(normalizer: Normalization | Normalizer = Normalization.MinMax, combiner: Combiner = Combiner.WeightedSum, 
+        topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        switch (combiner) {
+            case Combiner.Sum:
+                return this.#rank(this.#sum(normalizer, missing, false), topK);
+            case Combiner.WeightedSum:
+                return this.#rank(this.#sum(normalizer, missing), topK);
+            case Combiner.Max:
+                return this.#combine(normalizer, (values) => Math.max(...values), topK, missing);
+            default:
+                assert.fail(`invalid combiner: ${combiner}`);
+        }
+    }
+
+    /**
+     * Implements the Inverse Square Rank (ISR) algorithm.
+     *  -   An item's score is calculated by summing 1/rank^2 for each rank list, then multiplying the sum by
+     *      the number of rank lists that contain the item.
+     *  -   IDs missing from a rank list are handled by the missing policy (default: Missing.Absent).
+     *  -   Final output is a single array of FusedResults, sorted in descending order by ISR score.
+     * 
+     * @public
+     * @function
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a rank list
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their ISR scores
+     */
+    isr(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        const isrScores = new Float64Array(this.ids.length);
+        this.#members.forEach((members, i) => {
+            const weight = this.weights[i];
+            members.forEach((idx, j) => {
+                isrScores[idx] += weight * 1/Math.pow(j+1, 2);
             });
+            this.#fillMissing(i, missing, 1/Math.pow(members.length+1, 2), (idx, value) => isrScores[idx] += weight * value);
+        });
+        this.#hits.forEach((hits, idx) => {
+            isrScores[idx] *= hits;
         });
 
-        const sorted = Object.entries(dbsfScores).sort((a,b) => b[1] - a[1]);
-        if (showScores) {
-            console.log(`dbsf: ${JSON.stringify(sorted.map((elm) => [elm[0], parseFloat(elm[1].toFixed(4))]))}`);
-        }
-        return sorted.map((elm) => elm[0]);
+        return this.#rank(isrScores, topK);
     }
 
     /**
@@ -164,40 +767,30 @@ export class Fusion {
      *  -   An item's score is calculated by summing the 1/(rank + k) for each score list.
      *  -   Each ID is given a score that represents the summation of reciproal rank.
      *      scores across all score arrays.
-     *  -   Final output is a single array of IDs, sorted in descending order by accumulated reciprocal
+     *  -   IDs missing from a rank list are handled by the missing policy (default: Missing.Absent).
+     *  -   Final output is a single array of FusedResults, sorted in descending order by accumulated reciprocal
      *      rank scores.
      * 
      * @public
      * @function
      * @param {number} k additional factor added to the reciprocal rank
-     * @param {boolean} showScores enables display of the final score list
-     * @returns {Array<string>} array of ids sorted in descending order by their RRF scores
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a rank list
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their RRF scores
      * @example
      *  const scores = [
      *      [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
      *      [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
      *  ];
      *  const fusion = new Fusion(scores);
-     *  fusion.rrf(60, true);
+     *  fusion.rrf(60, 2);
      * 
-     *  // rrf: [["P3",0.0325],["P1",0.0325],["P4",0.0323],["P5",0.032],["P2",0.032]]
+     *  // [{id:'P3', score:0.0325, rank:1, ranks:[4,1], scores:[0.081,0.7479]},
+     *  //  {id:'P1', score:0.0325, rank:2, ranks:[2,3], scores:[0.1874,0.6761]}]
      */
-    rrf(k: number = 60, showScores: boolean = false): Array<string> {
+    rrf(k: number = 60, topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
         assert(k > 0);
-        const rrfScores: assocArrayNum = {};
-        this.rankings[0].forEach((elm) => rrfScores[elm] = 0);
-
-        this.rankings.forEach((ranking, i) => {
-            ranking.forEach((elm, j) => {
-                rrfScores[elm] += this.weights[i] * 1/(j+k);
-            });
-        }); 
-
-        const sorted = Object.entries(rrfScores).sort((a,b) => b[1] - a[1]);
-        if (showScores) {
-            console.log(`rrf: ${JSON.stringify(sorted.map((elm) => [elm[0], parseFloat(elm[1].toFixed(4))]))}`);
-        }
-        return sorted.map((elm) => elm[0]);
+        return this.#rank(this.#sumValues(this.#listValues(ExplainMethod.RRF, k, missing)), topK);
     }
 
     /**
@@ -206,42 +799,111 @@ export class Fusion {
      *      accumulated relative score.
      *  -   The min and max of each score array is calculated
      *  -   An item's score is calculated by summing up its normalized score in each score array
-     *  -   Final output is a single array of IDs, sorted in descending order by accumulated relative
+     *  -   IDs missing from a score array are handled by the missing policy (default: Missing.Absent).
+     *      Missing.Rank gives the ID the normalized value of the array's lowest score, i.e., 0.
+     *  -   A constant score array (max equal to min) yields a normalized score of 1 for every ID.
+     *  -   Final output is a single array of FusedResults, sorted in descending order by accumulated relative
      *      scores.
      * 
      * @public
      * @function
-     * @param {boolean} showScores enables display of the final score list
-     * @returns {Array<string>} array of ids sorted in descending order by their RSF scores
+     * @param {number} topK optional maximum number of results to return
+     * @param {MissingPolicy} missing treatment of IDs missing from a score array
+     * @returns {Array<FusedResult>} fused results sorted in descending order by their RSF scores
      * @example
      *  const scores = [
      *      [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
      *      [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
      *  ];
      *  const fusion = new Fusion(scores);
-     *  fusion.rsf(true);
+     *  fusion.rsf(2);
      * 
-     *  // rsf: [["P1",1.2518],["P3",1.1439],["P4",1],["P2",0.6436],["P5",0.48]]
+     *  // [{id:'P1', score:1.2518, rank:1, ranks:[2,3], scores:[0.1874,0.6761]},
+     *  //  {id:'P3', score:1.1439, rank:2, ranks:[4,1], scores:[0.081,0.7479]}]
      */
-    rsf(showScores: boolean = false): Array<string> {
-        const normalize = (val:number, max:number, min:number): number => {
-            return (val - min) / (max - min);
-        }
+    rsf(topK?: number, missing: MissingPolicy = {policy: Missing.Absent}): Array<FusedResult> {
+        return this.fuse(Normalization.MinMax, Combiner.WeightedSum, topK, missing);
+    }
+}
 
-        const rsfScores: assocArrayNum = {};
-        this.scores[0].forEach((elm) => rsfScores[elm.id] = 0);
-        this.scores.forEach((scoreArr, i) => {
-            const max = scoreArr.reduce((a,b) => a > b.score ? a : b.score, Number.NEGATIVE_INFINITY);
-            const min = scoreArr.reduce((a,b) => a < b.score ? a : b.score, Number.POSITIVE_INFINITY);
-            scoreArr.forEach((elm) => {
-                rsfScores[elm.id] += this.weights[i] * normalize(elm.score, max, min);
-            });
-        });
+/**
+ * Returns the lowest of the per-list values of a score array, the value of a missing ID under Missing.Rank,
+ * or 0 for an empty array.
+ *
+ * @function
+ * @param {Array<number>} values
+ * @returns {number}
+ */
+function lowest(values: Array<number>): number {
+    return values.reduce((min, val) => val < min ? val : min, values[0] ?? 0);
+}
 
-        const sorted = Object.entries(rsfScores).sort((a,b) => b[1] - a[1]);
-        if (showScores) {
-            console.log(`rsf: ${JSON.stringify(sorted.map((elm) => [elm[0], parseFloat(elm[1].toFixed(4))]))}`);
+/**
+ * Selects the top k of n indices in the order of a comparator: a full sort when k covers most of the indices,
+ * otherwise a bounded heap whose root is the last of the current top k, i.e., O(n log k).
+ *
+ * @function
+ * @param {number} n number of indices
+ * @param {number} k number of indices to select
+ * @param {(a: number, b: number) => number} compare negative when index a comes before index b; a total order
+ * @returns {Array<number>} the top indices, sorted
+ */
+function topIndices(n: number, k: number, compare: (a: number, b: number) => number): Array<number> {
+    if (k >= n / 2) {
+        return Array.from({length: n}, (_, idx) => idx).sort(compare).slice(0, k);
+    }
+    const heap: Array<number> = [];
+    const siftDown = (i: number) => {
+        for (;;) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let last = i;
+            if (left < heap.length && compare(heap[left], heap[last]) > 0) last = left;
+            if (right < heap.length && compare(heap[right], heap[last]) > 0) last = right;
+            if (last === i) return;
+            [heap[i], heap[last]] = [heap[last], heap[i]];
+            i = last;
+        }
+    };
+    for (let idx = 0; idx < n; idx++) {
+        if (heap.length < k) {
+            heap.push(idx);
+            for (let i = heap.length - 1; i > 0 && compare(heap[i], heap[(i - 1) >> 1]) > 0; i = (i - 1) >> 1) {
+                [heap[i], heap[(i - 1) >> 1]] = [heap[(i - 1) >> 1], heap[i]];
+            }
+        } else if (compare(idx, heap[0]) < 0) {
+            heap[0] = idx;
+            siftDown(0);
         }
-        return sorted.map((elm) => elm[0]);
     }
-}
\ No newline at end of file
+    return heap.sort(compare);
+}
+
+/**
+ * Renders explanations as a table: one row per fused ID and score array, with the ID's fused rank, ID and
+ * score on its first row.
+ *
+ * @function
+ * @param {Array<Explanation>} explanations output of Fusion.explain()
+ * @param {Array<string>} names optional names of the score arrays, e.g., retriever names; defaults to list indices
+ * @returns {string}
+ */
+export function formatExplanation(explanations: Array<Explanation>, names: Array<string> = []): string {
+    const fmt = (val: number | null) => val === null ? '-' : Number.isInteger(val) ? `${val}` : val.toFixed(4);
+    const lists = explanations[0]?.lists.length ?? 0;
+    const labels = Array.from({length: lists}, (_, i) => names[i] ?? `${i}`);
+    const idWidth = Math.max(2, ...explanations.map((elm) => elm.id.length)) + 2;
+    const listWidth = Math.max(4, ...labels.map((label) => label.length)) + 2;
+    const header = 'rank'.padEnd(6) + 'id'.padEnd(idWidth) + 'score'.padEnd(10) + '| ' + 'list'.padEnd(listWidth) + 
+        'rank'.padEnd(6) + 'raw'.padEnd(10) + 'value'.padEnd(10) + 'weight'.padEnd(8) + 'contribution';
+    const rows = [header, '-'.repeat(header.length)];
+    for (const elm of explanations) {
+        elm.lists.forEach((list, i) => {
+            const head = i === 0 ? `${elm.rank}`.padEnd(6) + elm.id.padEnd(idWidth) + fmt(elm.score).padEnd(10) : 
+                ''.padEnd(16 + idWidth);
+            rows.push(head + '| ' + labels[i].padEnd(listWidth) + fmt(list.rank).padEnd(6) + fmt(list.score).padEnd(10) + 
+                fmt(list.normalized).padEnd(10) + fmt(list.weight).padEnd(8) + fmt(list.contribution));
+        });
+    }
+    return rows.join('\n');
+}
@@ -0,0 +1,113 @@
+import { performance } from 'node:perf_hooks';
+import { Fusion } from './Fusion.js';
+import { RedisBackend, ServerFusion, ServerFusionOptions } from './RedisBackend.js';
+import { Query, QueryType } from '../types.js';
+
+/**
+ * Client-side versus server-side fusion of one query.
+ *  -   client, server:  fused IDs, best first
+ *  -   agree:           whether both orderings are identical
+ *  -   firstDifference: first position (0-based) where the orderings differ, null if they agree
+ *  -   overlap:         fraction of the client top results that the server also returns
+ *  -   maxScoreDiff:    largest absolute fused score difference of an ID returned by both, null if none is
+ *  -   clientMs:        hybrid query plus Fusion, in milliseconds
+ *  -   serverMs:        both server-side fusion aggregations, in milliseconds
+ */
+export type HarnessQuery = {
+    qid: string,
+    client: Array<string>,
+    server: Array<string>,
+    agree: boolean,
+    firstDifference: number | null,
+    overlap: number,
+    maxScoreDiff: number | null,
+    clientMs: number,
+    serverMs: number
+};
+
+export type HarnessReport = {
+    method: ServerFusion,
+    queries: Array<HarnessQuery>,
+    agreement: number,
+    meanOverlap: number,
+    clientMs: number,
+    serverMs: number
+};
+
+/**
+ * Runs each query through client-side Fusion (a hybrid query followed by Fusion.rsf or Fusion.rrf) and through
+ * server-side fusion (RedisBackend.fuse), and compares the orderings, scores and latencies.  RSF is expected
+ * to agree up to ties; RRF only approximates ranks on the server, so disagreements measure the approximation.
+ *
+ * @async
+ * @function
+ * @param {RedisBackend} backend loaded RediSearch backend
+ * @param {Array<Query>} queries
+ * @param {ServerFusion} method fusion method
+ * @param {Partial<ServerFusionOptions>} options weights, RRF k and number of fused results
+ * @returns {Promise<HarnessReport>}
+ */
+export async function compareFusion(backend: RedisBackend, queries: Array<Query>, method: ServerFusion = ServerFusion.RSF,
+    options: Partial<ServerFusionOptions> = {}): Promise<HarnessReport> {
+    const weights = options.weights ?? [1, 1];
+    const k = options.k ?? 60;
+    const topK = options.topK ?? 10;
+    const results: Array<HarnessQuery> = [];
+    for (const query of queries) {
+        const start = performance.now();
+        const [hyb] = await backend.search([query], QueryType.HYB);
+        const lists = [hyb['results']['cos'], hyb['results']['fts']];
+        const fused = lists[0].length ? (method === ServerFusion.RRF ? new Fusion(lists, weights).rrf(k, topK) :
+            new Fusion(lists, weights).rsf(topK)) : [];
+        const clientMs = performance.now() - start;
+
+        const [server] = await backend.fuse([query], method, {weights: weights, k: k, topK: topK});
+        const client = fused.map((elm) => elm.id);
+        const serverIds = server['results'].map((elm) => elm.id);
+        const length = Math.max(client.length, serverIds.length);
+        const firstDifference = Array.from({length: length}, (_, i) => i).find((i) => client[i] !== serverIds[i]);
+        const serverScores = new Map(server['results'].map((elm) => [elm.id, elm.score]));
+        const diffs = fused.filter((elm) => serverScores.has(elm.id))
+            .map((elm) => Math.abs(elm.score - (serverScores.get(elm.id) as number)));
+        results.push({
+            qid: query['qid'],
+            client: client,
+            server: serverIds,
+            agree: firstDifference === undefined,
+            firstDifference: firstDifference ?? null,
+            overlap: client.length ? client.filter((id) => serverScores.has(id)).length / client.length : 1,
+            maxScoreDiff: diffs.length ? Math.max(...diffs) : null,
+            clientMs: clientMs,
+            serverMs: server['ms']
+        });
+    }
+
+    const mean = (values: Array<number>) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    return {
+        method: method,
+        queries: results,
+        agreement: mean(results.map((elm) => elm.agree ? 1 : 0)),
+        meanOverlap: mean(results.map((elm) => elm.overlap)),
+        clientMs: mean(results.map((elm) => elm.clientMs)),
+        serverMs: mean(results.map((elm) => elm.serverMs))
+    };
+}
+
+/**
+ * Renders a harness report: a summary line, then one line per query whose orderings disagree.
+ *
+ * @function
+ * @param {HarnessReport} report output of compareFusion()
+ * @returns {string}
+ */
+export function formatHarness(report: HarnessReport): string {
+    const lines = [`${report.method.toUpperCase()} server vs client: ${(report.agreement * 100).toFixed(1)}% identical orderings, ` +
+        `overlap ${report.meanOverlap.toFixed(4)}, latency client ${report.clientMs.toFixed(2)} ms, ` +
+        `server ${report.serverMs.toFixed(2)} ms (${(report.serverMs - report.clientMs >= 0 ? '+' : '') + (report.serverMs - report.clientMs).toFixed(2)} ms)`];
+    for (const query of report.queries.filter((elm) => !elm.agree)) {
+        lines.push(`  ${query.qid}: differs at ${query.firstDifference}, overlap ${query.overlap.toFixed(2)}, ` +
+            `max score diff ${query.maxScoreDiff?.toExponential(2) ?? 'n/a'}\n` +
+            `    client ${query.client.join(' ')}\n    server ${query.server.join(' ')}`);
+    }
+    return lines.join('\n');
+}
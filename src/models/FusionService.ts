@@ -0,0 +1,315 @@
+import http from 'node:http';
+import { FusedResult, Fusion, Score } from './Fusion.js';
+import { retrieve, Retriever } from './Retriever.js';
+import { TunableMethod, TUNABLE_METHODS } from './Tuner.js';
+
+/**
+ * A request error, answered with its HTTP status and message instead of failing the server.
+ * @class
+ */
+export class RequestError extends Error {
+    readonly status: number;
+
+    /**
+     * @constructor
+     * @param {number} status 4xx HTTP status
+     * @param {string} message
+     */
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'RequestError';
+        this.status = status;
+    }
+}
+
+/**
+ * A validated POST /fuse request.
+ *  -   lists:   scored lists of {id, score}; IDs are unique within a list
+ *  -   method:  fusion method, one of TUNABLE_METHODS
+ *  -   weights: one non-negative weight per list, defaults to 1
+ *  -   k:       RRF k, defaults to 60
+ *  -   topK:    maximum number of fused results, defaults to all
+ */
+export type FuseRequest = {
+    lists: Array<Array<Score>>,
+    method: TunableMethod,
+    weights: Array<number>,
+    k: number,
+    topK?: number
+};
+
+/**
+ * A validated POST /search request.
+ *  -   query:   natural-language query
+ *  -   method:  fusion method of the retrievers' lists, one of TUNABLE_METHODS
+ *  -   weights: one non-negative weight per retriever, defaults to the retrievers' weights
+ *  -   k:       RRF k, defaults to 60
+ *  -   topK:    number of passages returned, defaults to 10
+ */
+export type SearchRequest = {
+    query: string,
+    method: TunableMethod,
+    weights?: Array<number>,
+    k: number,
+    topK: number
+};
+
+/**
+ * Options of the fusion service.
+ *  -   retrievers:  retrievers of POST /search, over loaded backends; without them, /search answers 404
+ *  -   texts:       passage texts by ID, returned with the search results
+ *  -   maxBodySize: maximum request body size in bytes, defaults to 1 MiB
+ */
+export type FusionServiceOptions = {
+    retrievers?: Array<Retriever>,
+    texts?: Map<string, string>,
+    maxBodySize?: number
+};
+
+/**
+ * Asserts a request condition.
+ *
+ * @function
+ * @param {unknown} condition
+ * @param {string} message
+ */
+function check(condition: unknown, message: string): asserts condition {
+    if (!condition) {
+        throw new RequestError(400, message);
+    }
+}
+
+/**
+ * Checks that a request body is a JSON object.
+ *
+ * @function
+ * @param {unknown} body
+ * @returns {{ [key: string]: unknown }}
+ */
+function object(body: unknown): { [key: string]: unknown } {
+    check(typeof body === 'object' && body !== null && !Array.isArray(body), 'request body must be a JSON object');
+    return body as { [key: string]: unknown };
+}
+
+/**
+ * Reads the fusion method of a request, by case-insensitive name.
+ *
+ * @function
+ * @param {unknown} value
+ * @returns {TunableMethod}
+ */
+function method(value: unknown): TunableMethod {
+    const names = TUNABLE_METHODS.map((elm) => elm.name);
+    check(value === undefined || typeof value === 'string', 'method must be a string');
+    const found = TUNABLE_METHODS.find((elm) => elm.name.toLowerCase() === (value ?? 'RRF').toLowerCase());
+    check(found, `unknown method ${value}, expected one of ${names.join(', ')}`);
+    return found;
+}
+
+/**
+ * Reads the weights of a request.
+ *
+ * @function
+ * @param {unknown} value
+ * @param {number} count expected number of weights
+ * @param {string} of what the weights apply to, for the error message
+ * @returns {Array<number> | undefined}
+ */
+function weights(value: unknown, count: number, of: string): Array<number> | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    check(Array.isArray(value) && value.length === count, `weights must be an array with one number per ${of} (${count})`);
+    check(value.every((weight) => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0),
+        'weights must be non-negative numbers');
+    return value;
+}
+
+/**
+ * Reads a positive number of a request.
+ *
+ * @function
+ * @param {unknown} value
+ * @param {string} name
+ * @param {boolean} integer whether the number must be an integer
+ * @returns {number | undefined}
+ */
+function positive(value: unknown, name: string, integer: boolean): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    check(typeof value === 'number' && Number.isFinite(value) && value > 0 && (!integer || Number.isInteger(value)),
+        `${name} must be a positive ${integer ? 'integer' : 'number'}`);
+    return value;
+}
+
+/**
+ * Validates a POST /fuse body: {lists: [[{id, score}, ...], ...], method?, weights?, k?, topK?}.  Unlike the
+ * Fusion constructor, which asserts on invalid input, every problem is reported as a RequestError.
+ *
+ * @function
+ * @param {unknown} body parsed JSON body
+ * @returns {FuseRequest}
+ */
+export function parseFuseRequest(body: unknown): FuseRequest {
+    const request = object(body);
+    const lists = request['lists'];
+    check(Array.isArray(lists) && lists.length > 0, 'lists must be a non-empty array of scored lists');
+    const scores = lists.map((list, i) => {
+        check(Array.isArray(list), `list ${i} must be an array of {id, score} objects`);
+        const seen = new Set<string>();
+        return list.map((item, j) => {
+            check(typeof item === 'object' && item !== null, `list ${i} item ${j} must be an {id, score} object`);
+            const { id, score } = item as { id: unknown, score: unknown };
+            check(typeof id === 'string' && id.length > 0, `list ${i} item ${j}: id must be a non-empty string`);
+            check(typeof score === 'number' && Number.isFinite(score), `list ${i} item ${j}: score must be a finite number`);
+            check(!seen.has(id), `list ${i}: duplicate id ${id}`);
+            seen.add(id);
+            return new Score(id, score, j + 1);
+        });
+    });
+    return {
+        lists: scores,
+        method: method(request['method']),
+        weights: weights(request['weights'], scores.length, 'list') ?? new Array(scores.length).fill(1),
+        k: positive(request['k'], 'k', false) ?? 60,
+        topK: positive(request['topK'], 'topK', true)
+    };
+}
+
+/**
+ * Validates a POST /search body: {query, method?, weights?, k?, topK?}.
+ *
+ * @function
+ * @param {unknown} body parsed JSON body
+ * @param {number} retrievers number of retrievers, i.e., of weights
+ * @returns {SearchRequest}
+ */
+export function parseSearchRequest(body: unknown, retrievers: number): SearchRequest {
+    const request = object(body);
+    check(typeof request['query'] === 'string' && request['query'].trim().length > 0, 'query must be a non-empty string');
+    return {
+        query: request['query'],
+        method: method(request['method']),
+        weights: weights(request['weights'], retrievers, 'retriever'),
+        k: positive(request['k'], 'k', false) ?? 60,
+        topK: positive(request['topK'], 'topK', true) ?? 10
+    };
+}
+
+/**
+ * Fuses with a request's method, which must be able to fuse the union of the lists, e.g., at most
+ * CONDORCET_MAX_IDS IDs for Condorcet fusion.
+ *
+ * @function
+ * @param {TunableMethod} fuseMethod
+ * @param {Fusion} fusion
+ * @param {number} k RRF k
+ * @param {number} topK optional maximum number of fused results
+ * @returns {Array<FusedResult>}
+ */
+function fuseWith(fuseMethod: TunableMethod, fusion: Fusion, k: number, topK?: number): Array<FusedResult> {
+    check(fuseMethod.maxIds === undefined || fusion.ids.length <= fuseMethod.maxIds,
+        `${fuseMethod.name} fusion is limited to ${fuseMethod.maxIds} distinct ids, the lists have ${fusion.ids.length}`);
+    return fuseMethod.fuse(fusion, k, topK);
+}
+
+/**
+ * Fuses the lists of a validated /fuse request.
+ *
+ * @function
+ * @param {FuseRequest} request
+ * @returns {Array<FusedResult>}
+ */
+export function fuseLists(request: FuseRequest): Array<FusedResult> {
+    return fuseWith(request.method, new Fusion(request.lists, request.weights), request.k, request.topK);
+}
+
+/**
+ * Reads a request body as JSON.
+ *
+ * @async
+ * @function
+ * @param {http.IncomingMessage} req
+ * @param {number} maxBodySize
+ * @returns {Promise<unknown>}
+ */
+async function readBody(req: http.IncomingMessage, maxBodySize: number): Promise<unknown> {
+    const chunks: Array<Buffer> = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > maxBodySize) {
+            throw new RequestError(413, `request body exceeds ${maxBodySize} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new RequestError(400, 'request body is not valid JSON');
+    }
+}
+
+/**
+ * Creates the HTTP fusion service.  Both endpoints take and return JSON:
+ *  -   POST /fuse:   fuses the request's scored lists, {method, results: [{id, score, rank}]}
+ *  -   POST /search: retrieves passages for the request's query with every retriever and fuses the lists,
+ *                    {query, method, results: [{id, score, rank, text}]}
+ * Invalid requests are answered with a 4xx status and {error}; unexpected failures with 500.
+ *
+ * @function
+ * @param {FusionServiceOptions} options
+ * @returns {http.Server} server, not yet listening
+ */
+export function createFusionServer(options: FusionServiceOptions = {}): http.Server {
+    const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+    const retrievers = options.retrievers ?? [];
+    const routes: { [path: string]: (body: unknown) => Promise<object> } = {
+        '/fuse': async (body) => {
+            const request = parseFuseRequest(body);
+            return {method: request.method.name, results: fuseLists(request)};
+        },
+        '/search': async (body) => {
+            if (retrievers.length === 0) {
+                throw new RequestError(404, 'search is not configured');
+            }
+            const request = parseSearchRequest(body, retrievers.length);
+            const [result] = await retrieve([{qid: 'query', query: request.query}], retrievers);
+            const fusion = new Fusion(retrievers.map((retriever) => result['results'][retriever.name]),
+                request.weights ?? retrievers.map((retriever) => retriever.weight ?? 1));
+            const fused = fuseWith(request.method, fusion, request.k, request.topK);
+            return {
+                query: request.query,
+                method: request.method.name,
+                results: fused.map((elm) => ({...elm, text: options.texts?.get(elm.id)}))
+            };
+        }
+    };
+
+    return http.createServer(async (req, res) => {
+        const send = (status: number, payload: object) => {
+            res.writeHead(status, {'Content-Type': 'application/json'});
+            res.end(JSON.stringify(payload));
+        };
+        try {
+            const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+            const route = routes[path];
+            if (!Object.hasOwn(routes, path)) {
+                throw new RequestError(404, `unknown endpoint ${path}`);
+            }
+            if (req.method !== 'POST') {
+                res.setHeader('Allow', 'POST');
+                throw new RequestError(405, `${req.method} not allowed, use POST`);
+            }
+            send(200, await route(await readBody(req, maxBodySize)));
+        } catch (err) {
+            if (err instanceof RequestError) {
+                send(err.status, {error: err.message});
+            } else {
+                console.error(err);
+                send(500, {error: 'internal server error'});
+            }
+        }
+    });
+}
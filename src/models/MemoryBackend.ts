@@ -0,0 +1,475 @@
+import assert from 'node:assert/strict';
+import { Score } from './Fusion.js';
+import { embedBatched, EmbeddingProvider } from './Embedding.js';
+import { queryVector, SearchBackend, TextScorer } from './SearchBackend.js';
+import { QueryBuilderOptions, textQuery } from './QueryBuilder.js';
+import { EmbeddingType, Passage, Query, QueryScores, QueryType } from '../types.js';
+import { STOPWORDS, tokenize } from '../utils/text.js';
+
+/**
+ * Options of the in-memory backend.
+ *  -   scorer:      text relevance scorer
+ *  -   knn:         number of nearest neighbors of KNN, hybrid and union queries (M)
+ *  -   ftsLimit:    number of top text matches of union queries (N)
+ *  -   k1, b:       BM25 parameters
+ *  -   query:       builder options of the text queries of queries without q_str
+ *  -   batchSize:   maximum number of passages per embedding request
+ *  -   concurrency: maximum number of concurrent embedding requests
+ */
+export type MemoryBackendOptions = {
+    scorer: TextScorer,
+    knn: number,
+    ftsLimit: number,
+    k1: number,
+    b: number,
+    query: Partial<QueryBuilderOptions>,
+    batchSize: number,
+    concurrency: number
+};
+
+type docType = {
+    passage: Passage,
+    tokens: Array<string>,
+    tf: Map<string, number>,
+    maxTf: number,
+    vector: Array<number>,
+    norm: number
+};
+
+type nodeType =
+    { op: 'and' | 'or', children: Array<nodeType> } |
+    { op: 'not', child: nodeType } |
+    { op: 'weight', weight: number, child: nodeType } |
+    { op: 'term', terms: Array<string>, phrase: boolean };
+
+type tokenType =
+    { type: '(' | ')' | '|' | '-' } |
+    { type: 'word', text: string, prefix: boolean, fuzzy: number } |
+    { type: 'phrase', text: string } |
+    { type: 'weight', weight: number };
+
+const DEFAULT_OPTIONS: MemoryBackendOptions = {
+    scorer: TextScorer.BM25,
+    knn: 10,
+    ftsLimit: 10,
+    k1: 1.2,
+    b: 0.75,
+    query: {},
+    batchSize: 32,
+    concurrency: 4
+};
+
+/**
+ * Splits a RediSearch query string into tokens.  Field prefixes (@text:), attributes other than $weight
+ * (=> { $weight: 2; }) and unsupported punctuation are skipped; a backslash-escaped character is kept inside
+ * the word and split out later by tokenize().
+ *
+ * @function
+ * @param {string} qstr query string
+ * @returns {Array<tokenType>}
+ */
+function lex(qstr: string): Array<tokenType> {
+    const tokens: Array<tokenType> = [];
+    const isWord = (ch: string) => /[\p{L}\p{N}_]/u.test(ch);
+    let i = 0;
+    while (i < qstr.length) {
+        const ch = qstr[i];
+        if (ch === '(' || ch === ')' || ch === '|') {
+            tokens.push({type: ch});
+            i++;
+        } else if (ch === '-' && (i + 1 < qstr.length) && (isWord(qstr[i + 1]) || '("%'.includes(qstr[i + 1]))) {
+            tokens.push({type: '-'});
+            i++;
+        } else if (ch === '"') {
+            const end = qstr.indexOf('"', i + 1);
+            const stop = end === -1 ? qstr.length : end;
+            tokens.push({type: 'phrase', text: qstr.substring(i + 1, stop)});
+            i = stop + 1;
+        } else if (ch === '@') {
+            const end = qstr.indexOf(':', i);
+            i = end === -1 ? qstr.length : end + 1;
+        } else if (ch === '=' && qstr[i + 1] === '>') {
+            const start = qstr.substring(i + 2).search(/\S/);
+            const end = qstr[i + 2 + start] === '{' ? qstr.indexOf('}', i) : -1;
+            const weight = end === -1 ? null : qstr.substring(i, end).match(/\$weight\s*:\s*([0-9.]+)/);
+            if (weight && !isNaN(parseFloat(weight[1]))) {
+                tokens.push({type: 'weight', weight: parseFloat(weight[1])});
+            }
+            i = end === -1 ? i + 2 : end + 1;
+        } else if (ch === '%' || isWord(ch) || ch === '\\') {
+            let fuzzy = 0;
+            while (qstr[i] === '%') { fuzzy++; i++; }
+            let text = '';
+            while (i < qstr.length && (isWord(qstr[i]) || qstr[i] === '\\')) {
+                text += qstr[i] === '\\' ? ` ${qstr[i + 1] ?? ''} ` : qstr[i];
+                i += qstr[i] === '\\' ? 2 : 1;
+            }
+            while (qstr[i] === '%') i++;
+            const prefix = qstr[i] === '*';
+            if (prefix) i++;
+            tokens.push({type: 'word', text: text, prefix: prefix, fuzzy: Math.min(fuzzy, 3)});
+        } else {
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Levenshtein distance between two strings.
+ *
+ * @function
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function levenshtein(a: string, b: string): number {
+    let prev = Array.from({length: b.length + 1}, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const cur = [i];
+        for (let j = 1; j <= b.length; j++) {
+            cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = cur;
+    }
+    return prev[b.length];
+}
+
+/**
+ * Class implementing in-process retrieval: an inverted index with TF-IDF or BM25 text scoring and brute-force
+ * cosine KNN over the passage vectors.  Text queries use the subset of the RediSearch query syntax that this
+ * repo generates: terms (intersection), | (union), - (negation), parentheses, "exact phrases", prefix* and
+ * %fuzzy% terms.  Field scopes are ignored, every clause matches the passage text; the $weight attribute of a
+ * parenthesized clause multiplies the text scores of its terms, and a term of several clauses gets the largest
+ * weight.  Stopwords are ignored and no stemming is applied.
+ * @class
+ */
+export class MemoryBackend implements SearchBackend {
+    embedder: EmbeddingProvider;
+    options: MemoryBackendOptions;
+    #docs: Array<docType> = [];
+    #postings: Map<string, Set<number>> = new Map();
+    #avgLen: number = 0;
+
+    /**
+     * @constructor
+     * @param {EmbeddingProvider} embedder source of passage and query vectors
+     * @param {Partial<MemoryBackendOptions>} options overrides of the default options
+     */
+    constructor(embedder: EmbeddingProvider, options: Partial<MemoryBackendOptions> = {}) {
+        this.embedder = embedder;
+        this.options = {...DEFAULT_OPTIONS, ...options};
+    }
+
+    /**
+     * Embeds and indexes the passages, replacing any previously loaded passages.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {AsyncIterable<Passage> | Iterable<Passage>} passages
+     */
+    async load(passages: AsyncIterable<Passage> | Iterable<Passage>): Promise<void> {
+        const all: Array<Passage> = [];
+        for await (const passage of passages) {
+            all.push(passage);
+        }
+        const vectors = await embedBatched(this.embedder, all.map((passage) => passage['text']), EmbeddingType.Passage,
+            this.options.batchSize, this.options.concurrency);
+
+        this.#docs = [];
+        this.#postings = new Map();
+        all.forEach((passage, i) => {
+            const tokens = tokenize(passage['text']).filter((token) => !STOPWORDS.has(token));
+            const tf = new Map<string, number>();
+            tokens.forEach((token) => tf.set(token, (tf.get(token) ?? 0) + 1));
+            tf.forEach((_, token) => {
+                if (!this.#postings.has(token)) {
+                    this.#postings.set(token, new Set());
+                }
+                this.#postings.get(token)?.add(i);
+            });
+            this.#docs.push({
+                passage: passage,
+                tokens: tokens,
+                tf: tf,
+                maxTf: Math.max(0, ...tf.values()),
+                vector: vectors[i],
+                norm: Math.sqrt(vectors[i].reduce((acc, val) => acc + val * val, 0))
+            });
+        });
+        this.#avgLen = this.#docs.reduce((acc, doc) => acc + doc.tokens.length, 0) / Math.max(1, this.#docs.length);
+    }
+
+    /**
+     * Runs full-text, KNN, hybrid or union retrieval for each query, with the same semantics as the
+     * RediSearch backend:
+     *  -   FTS: every passage matching q_str, sorted by text score
+     *  -   KNN: the knn passages nearest to the embedded query, sorted by cosine score
+     *  -   HYB: the knn passages nearest to the embedded query among those matching q_str, with both scores
+     *  -   UNI: the top ftsLimit FTS matches and, independently, the knn nearest passages
+     *
+     * @async
+     * @public
+     * @function
+     * @param {Array<Query>} queries
+     * @param {QueryType} queryType
+     * @returns {Promise<Array<QueryScores>>}
+     */
+    async search(queries: Array<Query>, queryType: QueryType): Promise<Array<QueryScores>> {
+        assert(queryType in QueryType, 'invalid query type');
+        const allResults: Array<QueryScores> = [];
+        for (const query of queries) {
+            if (queryType === QueryType.UNI) {
+                const [fts, knn] = await Promise.all([this.#search(query, QueryType.FTS), this.#search(query, QueryType.KNN)]);
+                allResults.push({qid: query['qid'], results: {
+                    cos: knn['results']['cos'], 
+                    fts: fts['results']['fts'].slice(0, this.options.ftsLimit)
+                }});
+            } else {
+                allResults.push(await this.#search(query, queryType));
+            }
+        }
+        return allResults;
+    }
+
+    /**
+     * Runs full-text, KNN or hybrid retrieval for a single query.
+     *
+     * @async
+     * @private
+     * @function
+     * @param {Query} query
+     * @param {QueryType} queryType FTS, KNN or HYB
+     * @returns {Promise<QueryScores>}
+     */
+    async #search(query: Query, queryType: QueryType): Promise<QueryScores> {
+        const queryScores: QueryScores = {qid: query['qid'], results: {cos: [], fts: []}};
+        let candidates = this.#docs.map((_, i) => i);
+        let terms = new Map<string, number>();
+        if (queryType !== QueryType.KNN) {
+            const node = this.#parse(textQuery(query, this.options.query));
+            candidates = node ? [...this.#match(node)] : [];
+            terms = node ? this.#terms(node) : new Map();
+        }
+
+        let selected = candidates.map((i) => ({i: i, fts: 0, cos: 0}));
+        if (queryType !== QueryType.FTS) {
+            const qvec = await queryVector(this.embedder, query);
+            selected.forEach((elm) => elm.cos = this.#cosScore(qvec, this.#docs[elm.i]));
+            selected = selected.sort((a, b) => b.cos - a.cos).slice(0, this.options.knn);
+        }
+        if (queryType !== QueryType.KNN) {
+            selected.forEach((elm) => elm.fts = this.#textScore(this.#docs[elm.i], terms));
+            if (queryType === QueryType.FTS) {
+                selected.sort((a, b) => b.fts - a.fts);
+            }
+        }
+
+        for (const elm of selected) {
+            const passage = this.#docs[elm.i].passage;
+            if (queryType !== QueryType.KNN) {
+                queryScores['results']['fts'].push(new Score(passage['pid'], elm.fts, passage['rank']));
+            }
+            if (queryType !== QueryType.FTS) {
+                queryScores['results']['cos'].push(new Score(passage['pid'], elm.cos, passage['rank']));
+            }
+        }
+        return queryScores;
+    }
+
+    /**
+     * Parses a query string into an expression tree.  Returns null if the query has no searchable term.
+     *
+     * @private
+     * @function
+     * @param {string} qstr query string
+     * @returns {nodeType | null}
+     */
+    #parse(qstr: string): nodeType | null {
+        const tokens = lex(qstr);
+        let pos = 0;
+
+        const parseOr = (): nodeType | null => {
+            const children = [parseAnd()];
+            while (tokens[pos]?.type === '|') {
+                pos++;
+                children.push(parseAnd());
+            }
+            const valid = children.filter((child) => child !== null) as Array<nodeType>;
+            return valid.length === 0 ? null : valid.length === 1 ? valid[0] : {op: 'or', children: valid};
+        };
+        const parseAnd = (): nodeType | null => {
+            const children: Array<nodeType> = [];
+            while (pos < tokens.length && tokens[pos].type !== ')' && tokens[pos].type !== '|') {
+                const child = parseUnary();
+                if (child) children.push(child);
+            }
+            return children.length === 0 ? null : children.length === 1 ? children[0] : {op: 'and', children: children};
+        };
+        const parseUnary = (): nodeType | null => {
+            const token = tokens[pos++];
+            switch (token.type) {
+                case '-': {
+                    const child = parseUnary();
+                    return child ? {op: 'not', child: child} : null;
+                }
+                case '(': {
+                    const node = parseOr();
+                    if (tokens[pos]?.type === ')') pos++;
+                    const attribute = tokens[pos];
+                    if (node && attribute?.type === 'weight') {
+                        pos++;
+                        return {op: 'weight', weight: attribute.weight, child: node};
+                    }
+                    return node;
+                }
+                case 'phrase': {
+                    const words = tokenize(token.text).filter((word) => !STOPWORDS.has(word));
+                    return words.length ? {op: 'term', terms: words, phrase: true} : null;
+                }
+                case 'word': {
+                    const words = tokenize(token.text).filter((word) => !STOPWORDS.has(word));
+                    if (words.length === 0) return null;
+                    if (words.length > 1) return {op: 'term', terms: words, phrase: true};
+                    return {op: 'term', terms: this.#expand(words[0], token.prefix, token.fuzzy), phrase: false};
+                }
+                default:
+                    return null;
+            }
+        };
+
+        return parseOr();
+    }
+
+    /**
+     * Expands a query word into the indexed terms it matches: itself, every term with the word as prefix, or
+     * every term within the fuzzy Levenshtein distance.
+     *
+     * @private
+     * @function
+     * @param {string} word
+     * @param {boolean} prefix
+     * @param {number} fuzzy maximum edit distance, 0 for exact matching
+     * @returns {Array<string>}
+     */
+    #expand(word: string, prefix: boolean, fuzzy: number): Array<string> {
+        if (!prefix && fuzzy === 0) {
+            return [word];
+        }
+        return [...this.#postings.keys()].filter((term) =>
+            (prefix && term.startsWith(word)) || (fuzzy > 0 && Math.abs(term.length - word.length) <= fuzzy && levenshtein(term, word) <= fuzzy));
+    }
+
+    /**
+     * Evaluates an expression tree to the set of matching document indexes.
+     *
+     * @private
+     * @function
+     * @param {nodeType} node
+     * @returns {Set<number>}
+     */
+    #match(node: nodeType): Set<number> {
+        const all = () => new Set(this.#docs.map((_, i) => i));
+        switch (node.op) {
+            case 'term': {
+                if (!node.phrase) {
+                    const docs = new Set<number>();
+                    node.terms.forEach((term) => this.#postings.get(term)?.forEach((i) => docs.add(i)));
+                    return docs;
+                }
+                const docs = [...(this.#postings.get(node.terms[0]) ?? [])].filter((i) =>
+                    node.terms.every((term) => this.#postings.get(term)?.has(i)) &&
+                    this.#docs[i].tokens.some((_, j, tokens) => node.terms.every((term, k) => tokens[j + k] === term)));
+                return new Set(docs);
+            }
+            case 'weight':
+                return this.#match(node.child);
+            case 'not': {
+                const excluded = this.#match(node.child);
+                return new Set([...all()].filter((i) => !excluded.has(i)));
+            }
+            case 'or': {
+                const docs = new Set<number>();
+                node.children.forEach((child) => this.#match(child).forEach((i) => docs.add(i)));
+                return docs;
+            }
+            case 'and': {
+                return node.children.map((child) => this.#match(child))
+                    .reduce((acc, docs) => new Set([...acc].filter((i) => docs.has(i))), all());
+            }
+        }
+    }
+
+    /**
+     * Collects the positive (non-negated) terms of an expression tree, which contribute to the text score, with
+     * the product of the weights of their enclosing clauses.  A term of several clauses gets the largest weight.
+     *
+     * @private
+     * @function
+     * @param {nodeType} node
+     * @param {number} weight weight of the enclosing clauses
+     * @param {Map<string, number>} terms weights of the terms collected so far
+     * @returns {Map<string, number>}
+     */
+    #terms(node: nodeType, weight: number = 1, terms: Map<string, number> = new Map()): Map<string, number> {
+        switch (node.op) {
+            case 'term':
+                node.terms.forEach((term) => terms.set(term, Math.max(terms.get(term) ?? 0, weight)));
+                break;
+            case 'weight':
+                this.#terms(node.child, weight * node.weight, terms);
+                break;
+            case 'not':
+                break;
+            default:
+                node.children.forEach((child) => this.#terms(child, weight, terms));
+        }
+        return terms;
+    }
+
+    /**
+     * Calculates the text relevance score of a document for the query terms with the configured scorer.
+     *
+     * @private
+     * @function
+     * @param {docType} doc
+     * @param {Map<string, number>} terms positive query terms and their weights
+     * @returns {number}
+     */
+    #textScore(doc: docType, terms: Map<string, number>): number {
+        const n = this.#docs.length;
+        const { k1, b } = this.options;
+        return [...terms].reduce((acc, [term, weight]) => {
+            const tf = doc.tf.get(term) ?? 0;
+            if (tf === 0) {
+                return acc;
+            }
+            const df = this.#postings.get(term)?.size ?? 0;
+            if (this.options.scorer === TextScorer.TFIDF) {
+                return acc + weight * tf * Math.log2(1 + n / df) / doc.maxTf;
+            }
+            if (this.options.scorer === TextScorer.DISMAX) {
+                return acc + weight * tf;
+            }
+            const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+            return acc + weight * idf * tf * (k1 + 1) / (tf + k1 * (1 - b + b * doc.tokens.length / this.#avgLen));
+        }, 0);
+    }
+
+    /**
+     * Calculates the cosine score of a document, (2 - cosine distance) / 2, as the RediSearch backend does.
+     *
+     * @private
+     * @function
+     * @param {Array<number>} qvec query vector
+     * @param {docType} doc
+     * @returns {number}
+     */
+    #cosScore(qvec: Array<number>, doc: docType): number {
+        const qnorm = Math.sqrt(qvec.reduce((acc, val) => acc + val * val, 0));
+        const dot = qvec.reduce((acc, val, i) => acc + val * doc.vector[i], 0);
+        const cos = qnorm === 0 || doc.norm === 0 ? 0 : dot / (qnorm * doc.norm);
+        return (2 - (1 - cos)) / 2;
+    }
+}
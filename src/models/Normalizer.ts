@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+
+/**
+ * Built-in score normalization strategies.
+ *  -   MinMax:     (x - min) / (max - min), scaled to [0, 1]
+ *  -   ZScore:     (x - mean) / std
+ *  -   Sum:        x / sum of all scores, i.e., the scores sum to one (assumes non-negative scores)
+ *  -   Rank:       1 - (r - 1) / n, where r is the competition rank of the score (ties share the best rank)
+ *  -   Arctan:     2/π * arctan(x), squashed to (-1, 1)
+ *  -   Tanh:       tanh(x), squashed to (-1, 1)
+ *  -   ThreeSigma: DBSF-style clipping, (x - (mean - 3σ)) / 6σ clipped to [0, 1]
+ *
+ * Constant score lists (every score equal) are handled explicitly rather than dividing by zero:
+ *  -   MinMax yields 1, ZScore yields 0, ThreeSigma yields 0.5, Rank yields 1 for every score
+ *  -   Sum yields 1/n for every score when the scores sum to 0
+ * @enum
+ */
+export enum Normalization {
+    MinMax = 'minmax',
+    ZScore = 'zscore',
+    Sum = 'sum',
+    Rank = 'rank',
+    Arctan = 'arctan',
+    Tanh = 'tanh',
+    ThreeSigma = 'threesigma'
+};
+
+/**
+ * A normalizer maps an array of raw scores to an array of normalized scores of the same length and order.
+ */
+export type Normalizer = (scores: Array<number>) => Array<number>;
+
+/**
+ * Calculates the population mean and standard deviation of an array of scores.  The deviation of a constant list
+ * is exactly 0, even though rounding errors of the mean would leave a tiny positive deviation.
+ *
+ * @function
+ * @param {Array<number>} scores raw scores
+ * @returns {{mean: number, std: number}}
+ */
+function stats(scores: Array<number>): {mean: number, std: number} {
+    const mean = scores.reduce((a, b) => a + b/scores.length, 0);
+    if (scores.every((val) => val === scores[0])) {
+        return {mean: mean, std: 0};
+    }
+    const std = Math.sqrt(scores.reduce((a, b) => a + Math.pow(b - mean, 2), 0)/scores.length);
+    return {mean: mean, std: std};
+}
+
+const normalizers: { [key in Normalization]: Normalizer } = {
+    [Normalization.MinMax]: (scores) => {
+        const max = scores.reduce((a, b) => b > a ? b : a, -Infinity);
+        const min = scores.reduce((a, b) => b < a ? b : a, Infinity);
+        return scores.map((val) => max === min ? 1 : (val - min) / (max - min));
+    },
+    [Normalization.ZScore]: (scores) => {
+        const { mean, std } = stats(scores);
+        return scores.map((val) => std === 0 ? 0 : (val - mean) / std);
+    },
+    [Normalization.Sum]: (scores) => {
+        const sum = scores.reduce((a, b) => a + b, 0);
+        return scores.map((val) => sum === 0 ? 1 / scores.length : val / sum);
+    },
+    [Normalization.Rank]: (scores) => {
+        // number of higher scores by binary search in a descending copy
+        const sorted = [...scores].sort((a, b) => b - a);
+        return scores.map((val) => {
+            let lo = 0;
+            let hi = sorted.length;
+            while (lo < hi) {
+                const mid = (lo + hi) >> 1;
+                if (sorted[mid] > val) {
+                    lo = mid + 1;
+                } else {
+                    hi = mid;
+                }
+            }
+            return 1 - lo / scores.length;
+        });
+    },
+    [Normalization.Arctan]: (scores) => scores.map((val) => 2 / Math.PI * Math.atan(val)),
+    [Normalization.Tanh]: (scores) => scores.map((val) => Math.tanh(val)),
+    [Normalization.ThreeSigma]: (scores) => {
+        const { mean, std } = stats(scores);
+        return scores.map((val) => std === 0 ? 0.5 : Math.min(1, Math.max(0, (val - (mean - 3 * std)) / (6 * std))));
+    }
+};
+
+/**
+ * Normalizes an array of raw scores with either a built-in strategy or a custom normalizer function.
+ *
+ * @function
+ * @param {Array<number>} scores raw scores
+ * @param {Normalization | Normalizer} normalizer built-in strategy or custom normalizer function
+ * @returns {Array<number>} normalized scores, in the same order as the input
+ * @example
+ *  normalize([3, 2, 1], Normalization.MinMax);     // [1, 0.5, 0]
+ *  normalize([2, 2, 2], Normalization.ZScore);     // [0, 0, 0]
+ *  normalize([3, 1], (scores) => scores.map((val) => val / 10));   // [0.3, 0.1]
+ */
+export function normalize(scores: Array<number>, normalizer: Normalization | Normalizer): Array<number> {
+    if (scores.length === 0) {
+        return [];
+    }
+    const fn = typeof normalizer === 'function' ? normalizer : normalizers[normalizer];
+    assert(fn !== undefined);
+    const normalized = fn(scores);
+    assert.equal(normalized.length, scores.length);
+    return normalized;
+}
@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { Query } from '../types.js';
+import { STOPWORDS, tokenize } from '../utils/text.js';
+
+/**
+ * How the terms of a generated text query are combined.
+ *  -   Or:     any term matches, (a|b|c)
+ *  -   And:    every term matches, (a b c)
+ *  -   Phrase: the terms match as an exact phrase, "a b c"
+ * @enum
+ */
+export enum QueryMode {
+    Or = 'or',
+    And = 'and',
+    Phrase = 'phrase'
+};
+
+/**
+ * Query builder options.
+ *  -   mode:      how terms are combined
+ *  -   stopwords: removes stopwords (unless the query consists of stopwords only)
+ *  -   fuzzy:     Levenshtein distance (0-3) of fuzzy term matching, 0 for exact terms
+ *  -   prefix:    matches terms as prefixes
+ *  -   fields:    text fields to search and their weights
+ */
+export type QueryBuilderOptions = {
+    mode: QueryMode,
+    stopwords: boolean,
+    fuzzy: number,
+    prefix: boolean,
+    fields: { [field: string]: number }
+};
+
+const DEFAULT_OPTIONS: QueryBuilderOptions = {
+    mode: QueryMode.Or,
+    stopwords: true,
+    fuzzy: 0,
+    prefix: false,
+    fields: { text: 1 }
+};
+
+/**
+ * Backslash-escapes every character that has a meaning in the RediSearch query syntax (punctuation and
+ * whitespace), so the text is matched literally.
+ *
+ * @function
+ * @param {string} text
+ * @returns {string}
+ */
+export function escape(text: string): string {
+    return text.replace(/[,.<>{}[\]"':;!@#$%^&*()\-+=~|/\\\s]/g, '\\$&');
+}
+
+/**
+ * Builds a RediSearch text query from natural-language text.  The text is split into terms the same way the
+ * index tokenizes passages, so no user input reaches the query syntax unescaped.  The result is a field-less
+ * expression in the format of the q_str query field; scope it to the searched fields with fieldQuery().
+ *
+ * @function
+ * @param {string} text natural-language query
+ * @param {Partial<QueryBuilderOptions>} options overrides of the default builder options
+ * @returns {string}
+ */
+export function buildQuery(text: string, options: Partial<QueryBuilderOptions> = {}): string {
+    const opts: QueryBuilderOptions = {...DEFAULT_OPTIONS, ...options};
+    assert(Number.isInteger(opts.fuzzy) && opts.fuzzy >= 0 && opts.fuzzy <= 3, 'fuzzy distance must be 0-3');
+    assert(!(opts.fuzzy > 0 && opts.prefix), 'fuzzy and prefix terms cannot be combined');
+
+    let terms = tokenize(text);
+    assert(terms.length > 0, `query has no searchable terms: ${text}`);
+    if (opts.stopwords && terms.some((term) => !STOPWORDS.has(term))) {
+        terms = terms.filter((term) => !STOPWORDS.has(term));
+    }
+    terms = terms.map((term) => escape(term));
+
+    switch (opts.mode) {
+        case QueryMode.Phrase:
+            return `"${terms.join(' ')}"`;
+        case QueryMode.And:
+        case QueryMode.Or: {
+            const pad = '%'.repeat(opts.fuzzy);
+            const expanded = [...new Set(terms)].map((term) => `${pad}${term}${pad}${opts.prefix ? '*' : ''}`);
+            return `(${expanded.join(opts.mode === QueryMode.And ? ' ' : '|')})`;
+        }
+        default:
+            assert.fail(`invalid query mode: ${opts.mode}`);
+    }
+}
+
+/**
+ * Scopes a text query to one or more text fields.  A single field of weight 1 gives @field:expr; otherwise
+ * each field clause carries a $weight attribute and the clauses are combined with |.
+ *
+ * @function
+ * @param {string} qstr field-less text query
+ * @param {{[field: string]: number}} fields searched fields and their weights
+ * @returns {string}
+ */
+export function fieldQuery(qstr: string, fields: { [field: string]: number } = DEFAULT_OPTIONS.fields): string {
+    const entries = Object.entries(fields);
+    assert(entries.length > 0, 'no text fields to search');
+    if (entries.length === 1 && entries[0][1] === 1) {
+        return `@${entries[0][0]}:${qstr}`;
+    }
+    entries.forEach(([field, weight]) => assert(weight > 0, `invalid weight of field ${field}: ${weight}`));
+    return `(${entries.map(([field, weight]) => `((@${field}:${qstr}) => { $weight: ${weight}; })`).join(' | ')})`;
+}
+
+/**
+ * Returns the text query of a query: its hand-written q_str if present, else one built from its
+ * natural-language query.
+ *
+ * @function
+ * @param {Query} query
+ * @param {Partial<QueryBuilderOptions>} options builder options used when the query has no q_str
+ * @returns {string}
+ */
+export function textQuery(query: Query, options: Partial<QueryBuilderOptions> = {}): string {
+    return query['q_str'] ?? buildQuery(query['query'], options);
+}
@@ -0,0 +1,717 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { performance } from 'node:perf_hooks';
+import { AggregateGroupByReducers, AggregateSteps, RediSearchSchema, RedisClientType, SchemaFieldTypes, VectorAlgorithms } from 'redis';
+import { Score } from './Fusion.js';
+import { embedBatched, EmbeddingProvider } from './Embedding.js';
+import { queryVector, SearchBackend, TextScorer } from './SearchBackend.js';
+import { escape, fieldQuery, QueryBuilderOptions, textQuery } from './QueryBuilder.js';
+import { EmbeddingType, Passage, Query, QueryScores, QueryType } from '../types.js';
+import { retry } from '../utils/retry.js';
+import { toBlob } from '../utils/vector.js';
+
+/**
+ * Vector distance metrics.  The cos_score of KNN results is (2 - distance) / 2 for COSINE and IP, and
+ * 1 / (1 + distance) for L2.
+ * @enum
+ */
+export enum DistanceMetric {
+    Cosine = 'COSINE',
+    L2 = 'L2',
+    IP = 'IP'
+};
+
+/**
+ * Storage types of vector fields.
+ * @enum
+ */
+export enum VectorType {
+    Float32 = 'FLOAT32',
+    Float16 = 'FLOAT16'
+};
+
+/**
+ * A text field, indexed from $.name of the passage documents.
+ *  -   name:   passage field and index attribute
+ *  -   weight: importance of matches in the field for text scoring
+ */
+export type TextField = {
+    name: string,
+    weight?: number
+};
+
+/**
+ * A vector field, indexed from $.name of the passage documents and holding the embedding of a passage text field.
+ *  -   name:           index attribute and document field of the vector
+ *  -   source:         passage text field that is embedded; passages without it have no vector in this field
+ *  -   algorithm:      FLAT (exact) or HNSW (approximate)
+ *  -   metric:         distance metric
+ *  -   type:           storage type
+ *  -   m:              HNSW maximum number of outgoing edges per node
+ *  -   efConstruction: HNSW candidate list size while building the graph
+ *  -   efRuntime:      HNSW candidate list size while searching
+ */
+export type VectorField = {
+    name: string,
+    source: string,
+    algorithm: VectorAlgorithms,
+    metric: DistanceMetric,
+    type: VectorType,
+    m?: number,
+    efConstruction?: number,
+    efRuntime?: number
+};
+
+/**
+ * Declarative index schema.
+ *  -   prefix:  key prefix of the passage documents
+ *  -   text:    text fields
+ *  -   vectors: vector fields
+ *  -   qidTag:  indexes the query ID as a TAG field, required by filterQid
+ */
+export type IndexSchema = {
+    prefix: string,
+    text: Array<TextField>,
+    vectors: Array<VectorField>,
+    qidTag: boolean
+};
+
+/**
+ * Options of the RediSearch backend.
+ *  -   index:       name of the search index
+ *  -   schema:      index schema
+ *  -   recreate:    drops and recreates an existing index; otherwise an existing index is kept as is
+ *  -   scorer:      text relevance scorer
+ *  -   vectorField: vector field searched by KNN, hybrid and union queries
+ *  -   filterQid:   restricts every query to the passages of its query ID
+ *  -   knn:         number of nearest neighbors of KNN, hybrid and union queries (M)
+ *  -   ftsLimit:    number of top text matches of union queries (N)
+ *  -   query:       builder options of the text queries of queries without q_str, and searched fields
+ *  -   batchSize:   maximum number of passages per embedding request
+ *  -   concurrency: maximum number of concurrent embedding requests
+ *  -   retries:     maximum number of retries of a failed embedding request or Redis call during load
+ *  -   retryDelay:  milliseconds before the first retry, doubled for every further retry
+ *  -   checkpoint:  file recording the progress of load, so an interrupted load resumes where it stopped
+ */
+export type RedisBackendOptions = {
+    index: string,
+    schema: IndexSchema,
+    recreate: boolean,
+    scorer: TextScorer,
+    vectorField: string,
+    filterQid: boolean,
+    knn: number,
+    ftsLimit: number,
+    query: Partial<QueryBuilderOptions>,
+    batchSize: number,
+    concurrency: number,
+    retries: number,
+    retryDelay: number,
+    checkpoint?: string
+};
+
+export const DEFAULT_SCHEMA: IndexSchema = {
+    prefix: 'passage:',
+    text: [{ name: 'text' }],
+    vectors: [{ 
+        name: 'vector', 
+        source: 'text', 
+        algorithm: VectorAlgorithms.FLAT, 
+        metric: DistanceMetric.Cosine, 
+        type: VectorType.Float32 
+    }],
+    qidTag: true
+};
+
+const DEFAULT_OPTIONS: RedisBackendOptions = {
+    index: 'idx',
+    schema: DEFAULT_SCHEMA,
+    recreate: false,
+    scorer: TextScorer.TFIDF,
+    vectorField: 'vector',
+    filterQid: false,
+    knn: 10,
+    ftsLimit: 10,
+    query: {},
+    batchSize: 32,
+    concurrency: 4,
+    retries: 3,
+    retryDelay: 500
+};
+
+/**
+ * A passage that could not be loaded, even when stored on its own.
+ */
+export type LoadFailure = {
+    pid: string,
+    error: string
+};
+
+/**
+ * Progress of a load, reported after every chunk of passages.
+ *  -   resumed:   passages skipped at the start, as recorded by the checkpoint of an interrupted load
+ *  -   processed: passages processed so far, including the resumed ones
+ *  -   loaded:    passages embedded and stored
+ *  -   unchanged: passages skipped because they are stored with the same content hash
+ *  -   failed:    passages that could not be loaded
+ *  -   retries:   retried embedding requests and Redis calls
+ *  -   ms:        elapsed milliseconds
+ *  -   rate:      passages processed per second, excluding the resumed ones
+ */
+export type LoadProgress = {
+    resumed: number,
+    processed: number,
+    loaded: number,
+    unchanged: number,
+    failed: number,
+    retries: number,
+    ms: number,
+    rate: number
+};
+
+/**
+ * Outcome of a load: its final progress and the passages that failed, including those of the interrupted
+ * load it resumed.
+ */
+export type LoadReport = LoadProgress & {
+    failures: Array<LoadFailure>
+};
+
+/**
+ * Checkpoint of a load: the identity of the input, i.e., the hash of its first chunk of passages, the number
+ * of passages of the input that were processed, the counts so far and the failed passages.
+ */
+type LoadCheckpoint = {
+    index: string,
+    input: string,
+    position: number,
+    loaded: number,
+    unchanged: number,
+    failures: Array<LoadFailure>
+};
+
+/**
+ * Fusion expressions evaluated inside FT.AGGREGATE.
+ *  -   RSF: weighted sum of the min-max normalized cosine and text scores, as Fusion.rsf()
+ *  -   RRF: reciprocal rank fusion with each rank approximated from the normalized score,
+ *           rank = 1 + (1 - normalized score) * (n - 1), since aggregations have no row numbers
+ * @enum
+ */
+export enum ServerFusion {
+    RSF = 'rsf',
+    RRF = 'rrf'
+};
+
+/**
+ * Options of server-side fusion.
+ *  -   weights: weights of the cosine and text scores, in this order
+ *  -   k:       RRF constant
+ *  -   topK:    number of fused results
+ */
+export type ServerFusionOptions = {
+    weights: [number, number],
+    k: number,
+    topK: number
+};
+
+/**
+ * Score ranges and result count of a hybrid query, the input of the fusion expressions.
+ */
+export type FusionStats = {
+    cos: { min: number, max: number },
+    fts: { min: number, max: number },
+    n: number
+};
+
+export type ServerFusedScores = {
+    qid: string,
+    results: Array<Score>,
+    ms: number
+};
+
+const DEFAULT_FUSION_OPTIONS: ServerFusionOptions = {
+    weights: [1, 1],
+    k: 60,
+    topK: 10
+};
+
+/**
+ * Builds the APPLY expression of a server-side fusion method.  Score ranges are inlined as constants; a
+ * constant score list normalizes to 1, as with Normalization.MinMax.
+ *
+ * @function
+ * @param {ServerFusion} method fusion expression
+ * @param {FusionStats} stats score ranges and result count of the query
+ * @param {ServerFusionOptions} options weights and RRF constant
+ * @returns {string}
+ */
+export function fusionExpression(method: ServerFusion, stats: FusionStats, options: ServerFusionOptions): string {
+    const literal = (val: number) => String(val).includes('e') ? val.toFixed(20) : String(val);
+    const normalized = (property: string, range: { min: number, max: number }) => range.max === range.min ? '1' : 
+        `((@${property} - ${literal(range.min)}) / ${literal(range.max - range.min)})`;
+    const [cosWeight, ftsWeight] = options.weights;
+    const cos = normalized('cos_score', stats.cos);
+    const fts = normalized('fts_score', stats.fts);
+    switch (method) {
+        case ServerFusion.RSF:
+            return `${cosWeight} * ${cos} + ${ftsWeight} * ${fts}`;
+        case ServerFusion.RRF: {
+            const rank = (norm: string) => `(1 + (1 - ${norm}) * ${stats.n - 1})`;
+            return `${cosWeight} / (${options.k} + ${rank(cos)}) + ${ftsWeight} / (${options.k} + ${rank(fts)})`;
+        }
+        default:
+            assert.fail(`invalid server fusion method: ${method}`);
+    }
+}
+
+/**
+ * Class implementing retrieval with Redis JSON documents and a RediSearch text and vector index
+ * @class
+ */
+export class RedisBackend implements SearchBackend {
+    client: RedisClientType;
+    embedder: EmbeddingProvider;
+    options: RedisBackendOptions;
+
+    /**
+     * @constructor
+     * @param {RedisClientType} client connected Redis client
+     * @param {EmbeddingProvider} embedder source of passage and query vectors
+     * @param {Partial<RedisBackendOptions>} options overrides of the default options; a schema given here
+     * is merged with the default schema
+     */
+    constructor(client: RedisClientType, embedder: EmbeddingProvider, options: Partial<RedisBackendOptions> = {}) {
+        this.client = client;
+        this.embedder = embedder;
+        this.options = {...DEFAULT_OPTIONS, ...options, schema: {...DEFAULT_SCHEMA, ...options.schema}};
+        const { schema, vectorField, filterQid } = this.options;
+        assert(schema.text.length > 0, 'schema has no text field');
+        assert(schema.vectors.some((field) => field.name === vectorField), `schema has no vector field ${vectorField}`);
+        assert(schema.qidTag || !filterQid, 'filterQid requires the qid TAG field');
+        assert(Object.values(TextScorer).includes(this.options.scorer), `invalid scorer: ${this.options.scorer}`);
+    }
+
+    /**
+     * Translates the index schema into the RediSearch schema of a JSON index.
+     * 
+     * @public
+     * @function
+     * @returns {RediSearchSchema}
+     */
+    schema(): RediSearchSchema {
+        const { text, vectors, qidTag } = this.options.schema;
+        const schema: RediSearchSchema = {};
+        text.forEach((field) => {
+            schema[`$.${field.name}`] = {type: SchemaFieldTypes.TEXT, AS: field.name, ...(field.weight === undefined ? {} : {WEIGHT: field.weight})};
+        });
+        if (qidTag) {
+            schema['$.qid'] = {type: SchemaFieldTypes.TAG, AS: 'qid'};
+        }
+        vectors.forEach((field) => {
+            const common = {
+                type: SchemaFieldTypes.VECTOR as const,
+                AS: field.name,
+                TYPE: field.type,
+                DIM: this.embedder.dim,
+                DISTANCE_METRIC: field.metric
+            };
+            switch (field.algorithm) {
+                case VectorAlgorithms.FLAT:
+                    schema[`$.${field.name}`] = {...common, ALGORITHM: VectorAlgorithms.FLAT};
+                    break;
+                case VectorAlgorithms.HNSW:
+                    schema[`$.${field.name}`] = {...common, ALGORITHM: VectorAlgorithms.HNSW, 
+                        ...(field.m === undefined ? {} : {M: field.m}), 
+                        ...(field.efConstruction === undefined ? {} : {EF_CONSTRUCTION: field.efConstruction}),
+                        ...(field.efRuntime === undefined ? {} : {EF_RUNTIME: field.efRuntime})};
+                    break;
+                default:
+                    assert.fail(`invalid vector algorithm: ${field.algorithm}`);
+            }
+        });
+        return schema;
+    }
+
+    /**
+     * Creates the Redis index from the schema, unless it already exists.  An existing index is dropped and
+     * recreated only if the recreate option is set; its documents are kept.
+     * 
+     * @async
+     * @public
+     * @function
+     * @returns {Promise<boolean>} whether the index was created
+     */
+    async createIndex(): Promise<boolean> {
+        const exists = (await this.client.ft._list()).includes(this.options.index);
+        if (exists && !this.options.recreate) {
+            return false;
+        }
+        if (exists) {
+            await this.client.ft.dropIndex(this.options.index);
+        }
+        await this.client.ft.create(this.options.index, this.schema(), { ON: 'JSON', PREFIX: this.options.schema.prefix });
+        return true;
+    }
+
+    /**
+     * Creates the Redis index if needed and loads the passages, see ingest().  Passages that fail to load are
+     * only reported by ingest().
+     * 
+     * @async
+     * @public
+     * @function
+     * @param {AsyncIterable<Passage> | Iterable<Passage>} passages
+     */
+    async load(passages: AsyncIterable<Passage> | Iterable<Passage>): Promise<void> {
+        await this.ingest(passages);
+    }
+
+    /**
+     * Creates the Redis index if needed and loads the passages as Redis JSON documents, with one embedding per
+     * vector field.  Passages are read in chunks; each chunk is embedded in batches with bounded concurrency and
+     * its JSON writes are sent to Redis as a single pipeline.
+     *
+     * Every document stores a content hash of the passage, the embedding model and the vector fields; passages
+     * already stored with the same hash are skipped, so reloading only embeds new or changed passages.  Failed
+     * embedding requests and Redis calls are retried with exponential backoff.  A chunk that still fails is
+     * stored passage by passage, without retries, and the passages that fail on their own are reported instead
+     * of aborting the load.  With the checkpoint option, the position in the input is written after every chunk,
+     * and a load of the same index and input resumes after it; the checkpoint is removed once the load completes.
+     * The input is identified by the hash of its first chunk, so a load of another passages file starts over.
+     * 
+     * @async
+     * @public
+     * @function
+     * @param {AsyncIterable<Passage> | Iterable<Passage>} passages
+     * @param {(progress: LoadProgress) => void} onProgress called after every chunk
+     * @returns {Promise<LoadReport>}
+     */
+    async ingest(passages: AsyncIterable<Passage> | Iterable<Passage>, 
+        onProgress?: (progress: LoadProgress) => void): Promise<LoadReport> {
+        const { index, batchSize, concurrency, retries, retryDelay, checkpoint } = this.options;
+        const { prefix, vectors } = this.options.schema;
+        const start = performance.now();
+        const input = Symbol.asyncIterator in passages ?
+            (passages as AsyncIterable<Passage>)[Symbol.asyncIterator]() : (passages as Iterable<Passage>)[Symbol.iterator]();
+        const head: Array<Passage> = [];
+        let next = await input.next();
+        for (; !next.done && head.length < batchSize * concurrency; next = await input.next()) {
+            head.push(next.value);
+        }
+        const inputHash = createHash('sha256').update(JSON.stringify(head)).digest('hex');
+        const resume = await this.#readCheckpoint(inputHash);
+        const state = {...resume, retries: 0};
+        const retried = <T>(fn: () => Promise<T>, attempts: number) => retry(fn, attempts, retryDelay, () => state.retries++);
+        const model = JSON.stringify([this.embedder.model, vectors.map((field) => [field.name, field.source])]);
+        const store = async (docs: Array<Passage>, attempts: number) => {
+            const keys = docs.map((doc) => `${prefix}${doc['pid']}`);
+            const hashes = docs.map((doc) => createHash('sha256').update(`${model}\0${JSON.stringify(doc)}`).digest('hex'));
+            const stored = await retried(() => this.client.json.mGet(keys, '$.content_hash'), attempts);
+            const changed = docs.map((doc, i) => ({...doc, content_hash: hashes[i]}) as { [key: string]: unknown })
+                .filter((_, i) => !(Array.isArray(stored[i]) && (stored[i] as Array<unknown>)[0] === hashes[i]));
+            const embedder = {
+                model: this.embedder.model,
+                dim: this.embedder.dim,
+                embed: (texts: Array<string>, type: EmbeddingType) => retried(() => this.embedder.embed(texts, type), attempts)
+            };
+            for (const field of vectors) {
+                const sources = changed.filter((value) => typeof value[field.source] === 'string');
+                const embedded = await embedBatched(embedder, sources.map((value) => value[field.source] as string), 
+                    EmbeddingType.Passage, batchSize, concurrency);
+                sources.forEach((value, i) => value[field.name] = embedded[i]);
+            }
+            if (changed.length > 0) {
+                await retried(() => {
+                    const pipeline = this.client.multi();
+                    changed.forEach((value) => {
+                        pipeline.json.set(`${prefix}${value['pid']}`, '$', value as Parameters<typeof pipeline.json.set>[2]);
+                    });
+                    return pipeline.execAsPipeline();
+                }, attempts);
+            }
+            state.loaded += changed.length;
+            state.unchanged += docs.length - changed.length;
+        };
+        const progress = (): LoadProgress => {
+            const ms = performance.now() - start;
+            return {
+                resumed: resume.position,
+                processed: state.position,
+                loaded: state.loaded,
+                unchanged: state.unchanged,
+                failed: state.failures.length,
+                retries: state.retries,
+                ms: ms,
+                rate: ms > 0 ? (state.position - resume.position) * 1000 / ms : 0
+            };
+        };
+        const flush = async (docs: Array<Passage>) => {
+            try {
+                await store(docs, retries);
+            } catch {
+                for (const doc of docs) {
+                    try {
+                        await store([doc], 0);
+                    } catch (err) {
+                        state.failures.push({pid: doc['pid'], error: err instanceof Error ? err.message : String(err)});
+                    }
+                }
+            }
+            state.position += docs.length;
+            if (checkpoint) {
+                const { position, loaded, unchanged, failures } = state;
+                const record: LoadCheckpoint = {index: index, input: inputHash, position: position, loaded: loaded, unchanged: unchanged,
+                    failures: failures};
+                await fs.promises.mkdir(path.dirname(checkpoint), {recursive: true});
+                await fs.promises.writeFile(`${checkpoint}.tmp`, JSON.stringify(record));
+                await fs.promises.rename(`${checkpoint}.tmp`, checkpoint);
+            }
+            onProgress?.(progress());
+        };
+
+        await retried(() => this.createIndex(), retries);
+        let skip = resume.position;
+        let chunk: Array<Passage> = [];
+        const add = async (doc: Passage) => {
+            if (skip > 0) {
+                skip--;
+                return;
+            }
+            chunk.push(doc);
+            if (chunk.length === batchSize * concurrency) {
+                await flush(chunk);
+                chunk = [];
+            }
+        };
+        for (const doc of head) {
+            await add(doc);
+        }
+        for (; !next.done; next = await input.next()) {
+            await add(next.value);
+        }
+        if (chunk.length > 0) {
+            await flush(chunk);
+        }
+        if (checkpoint) {
+            await fs.promises.rm(checkpoint, {force: true});
+        }
+        return {...progress(), failures: state.failures};
+    }
+
+    /**
+     * Reads the checkpoint of an interrupted load of the index and input.  Without a checkpoint, or with the
+     * checkpoint of another index or input, the load starts from the first passage.
+     * 
+     * @async
+     * @private
+     * @function
+     * @param {string} input hash of the first chunk of the input
+     * @returns {Promise<LoadCheckpoint>}
+     */
+    async #readCheckpoint(input: string): Promise<LoadCheckpoint> {
+        const { index, checkpoint } = this.options;
+        const empty: LoadCheckpoint = {index: index, input: input, position: 0, loaded: 0, unchanged: 0, failures: []};
+        if (!checkpoint || !fs.existsSync(checkpoint)) {
+            return empty;
+        }
+        const record: LoadCheckpoint = JSON.parse(await fs.promises.readFile(checkpoint, 'utf8'));
+        return record.index === index && record.input === input ? record : empty;
+    }
+
+    /**
+     * Runs full-text, KNN, hybrid or union retrieval for each query.  Union queries run an independent
+     * full-text query limited to the top ftsLimit matches and an independent KNN query over all passages
+     * concurrently, so each list has its own candidates.
+     * 
+     * @async
+     * @public
+     * @function
+     * @param {Array<Query>} queries 
+     * @param {QueryType} queryType 
+     * @returns {Promise<Array<QueryScores>>}
+     */
+    async search(queries: Array<Query>, queryType: QueryType): Promise<Array<QueryScores>> {
+        const allResults: Array<QueryScores> = [];
+        for (const query of queries) {
+            if (queryType === QueryType.UNI) {
+                const [fts, knn] = await Promise.all([
+                    this.#aggregate(query, QueryType.FTS, this.options.ftsLimit), 
+                    this.#aggregate(query, QueryType.KNN)
+                ]);
+                allResults.push({qid: query['qid'], results: {cos: knn['results']['cos'], fts: fts['results']['fts']}});
+            } else {
+                allResults.push(await this.#aggregate(query, queryType));
+            }
+        }
+        return allResults;
+    }
+
+    /**
+     * Fuses the vector and text scores of hybrid queries inside FT.AGGREGATE instead of with Fusion.  A first
+     * aggregation reduces the result set to the minimum, maximum and count of both scores; a second one
+     * applies the fusion expression built from them (see fusionExpression), sorts by it and keeps the top
+     * results.  Only hybrid queries are supported, since both scores must be present on every row.
+     * 
+     * @async
+     * @public
+     * @function
+     * @param {Array<Query>} queries 
+     * @param {ServerFusion} method fusion expression
+     * @param {Partial<ServerFusionOptions>} options overrides of the default server-side fusion options
+     * @returns {Promise<Array<ServerFusedScores>>} fused results and elapsed milliseconds per query
+     */
+    async fuse(queries: Array<Query>, method: ServerFusion = ServerFusion.RSF, 
+        options: Partial<ServerFusionOptions> = {}): Promise<Array<ServerFusedScores>> {
+        const opts: ServerFusionOptions = {...DEFAULT_FUSION_OPTIONS, ...options};
+        assert(opts.topK > 0);
+        const { scorer, index } = this.options;
+        const allResults: Array<ServerFusedScores> = [];
+        for (const query of queries) {
+            const start = performance.now();
+            const { field, filter, text, knnClause, cosScore } = this.#parts(query);
+            const qvec = await queryVector(this.embedder, query);
+            const qstr = `${filter ? `(${filter} ${text})` : text}${knnClause}`;
+            const common = { PARAMS: { qvec: toBlob(qvec, field.type) }, SCORER: scorer, ADDSCORES: true, DIALECT: 4 };
+            const scores = [
+                { type: AggregateSteps.APPLY, expression: cosScore, AS: 'cos_score'},
+                { type: AggregateSteps.APPLY, expression: '@__score', AS: 'fts_score'}
+            ];
+
+            const statsObj: { [key:string]: string|number|boolean|Array<object>|object } = {...common, STEPS: [...scores, 
+                { type: AggregateSteps.GROUPBY, REDUCE: [
+                    { type: AggregateGroupByReducers.MIN, property: '@cos_score', AS: 'cos_min' },
+                    { type: AggregateGroupByReducers.MAX, property: '@cos_score', AS: 'cos_max' },
+                    { type: AggregateGroupByReducers.MIN, property: '@fts_score', AS: 'fts_min' },
+                    { type: AggregateGroupByReducers.MAX, property: '@fts_score', AS: 'fts_max' },
+                    { type: AggregateGroupByReducers.COUNT, AS: 'n' }
+                ]}
+            ]};
+            const statsRows = await this.client.ft.aggregate(index, qstr, statsObj);
+            const results: Array<Score> = [];
+            const row = statsRows.results[0];
+            if (row && parseInt(row['n'] as string) > 0) {
+                const stats: FusionStats = {
+                    cos: { min: parseFloat(row['cos_min'] as string), max: parseFloat(row['cos_max'] as string) },
+                    fts: { min: parseFloat(row['fts_min'] as string), max: parseFloat(row['fts_max'] as string) },
+                    n: parseInt(row['n'] as string)
+                };
+                const fusedObj: { [key:string]: string|number|boolean|Array<object>|object } = {...common, 
+                    LOAD: [
+                        { identifier: '$.pid', AS: 'pid' },
+                        { identifier: '$.rank', AS: 'rank' }
+                    ],
+                    STEPS: [...scores, 
+                        { type: AggregateSteps.APPLY, expression: fusionExpression(method, stats, opts), AS: 'fused_score'},
+                        { type: AggregateSteps.SORTBY, BY: {BY: '@fused_score', DIRECTION: 'DESC'}, MAX: opts.topK},
+                        { type: AggregateSteps.LIMIT, from: 0, size: opts.topK }
+                    ]};
+                const fusedRows = await this.client.ft.aggregate(index, qstr, fusedObj);
+                for (const fused of fusedRows.results) {
+                    results.push(new Score(JSON.parse(fused['pid'] as string)[0], parseFloat(fused['fused_score'] as string), 
+                        JSON.parse(fused['rank'] as string)[0]));
+                }
+            }
+            allResults.push({qid: query['qid'], results: results, ms: performance.now() - start});
+        }
+        return allResults;
+    }
+
+    /**
+     * Builds the parts of a query that depend on the options: the query ID filter, the field-scoped text
+     * query, the KNN clause and the APPLY expression of the cosine score.
+     * 
+     * @private
+     * @function
+     * @param {Query} query 
+     * @returns {{field: VectorField, filter: string, text: string, knnClause: string, cosScore: string}}
+     */
+    #parts(query: Query): {field: VectorField, filter: string, text: string, knnClause: string, cosScore: string} {
+        const { knn, schema, vectorField, filterQid } = this.options;
+        const field = schema.vectors.find((elm) => elm.name === vectorField) as VectorField;
+        const ef = field.efRuntime === undefined ? '' : ` EF_RUNTIME ${field.efRuntime}`;
+        return {
+            field: field,
+            filter: filterQid ? `@qid:{${escape(query['qid'])}}` : '',
+            text: fieldQuery(textQuery(query, this.options.query), this.options.query.fields),
+            knnClause: `=>[KNN ${knn} @${vectorField} $qvec${ef} AS dist]`,
+            cosScore: field.metric === DistanceMetric.L2 ? '1/(1 + @dist)' : '(2 - @dist)/2'
+        };
+    }
+
+    /**
+     * Implements a Redis FT.AGGREGATION query.  The function is parameterized to allow for full-text, KNN,
+     * or hybrid queries.  The node-redis query structure is built according to the query type.  The return
+     * value is a QueryScores object: the query ID along with the Redis search result which could be 
+     * full-text score, vector distance score or both in the case of a hybrid query.
+     * 
+     * @async
+     * @private
+     * @function
+     * @param {Query} query 
+     * @param {QueryType} queryType FTS, KNN or HYB
+     * @param {number} limit optional maximum number of full-text matches
+     * @returns {Promise<QueryScores>}
+     */
+    async #aggregate(query: Query, queryType: QueryType, limit?: number): Promise<QueryScores> {
+        const { scorer, filterQid } = this.options;
+        const { field, filter, text, knnClause, cosScore } = this.#parts(query);
+        let qstr = '';
+        const qobj: { [key:string]: string|number|boolean|Array<object>|object } = {    
+            LOAD: [
+                { identifier: '$.qid', AS: 'qid' },
+                { identifier: '$.pid', AS: 'pid' },
+                { identifier: '$.rank', AS: 'rank' },
+            ],        
+            SCORER: scorer,
+            ADDSCORES: true,
+            DIALECT: 4
+        };
+        let qvec;
+        switch (queryType) {
+            case QueryType.FTS:
+                qstr = filter ? `${filter} ${text}` : text;
+                qobj['STEPS'] = [ 
+                    { type: AggregateSteps.SORTBY, BY: {BY: '@__score', DIRECTION: 'DESC'}},
+                    ...(limit === undefined ? [] : [{ type: AggregateSteps.LIMIT, from: 0, size: limit }])
+                ];
+                break;
+            case QueryType.KNN:
+                qvec = await queryVector(this.embedder, query);
+                qstr = `${filter ? `(${filter})` : '*'}${knnClause}`; 
+                qobj['PARAMS'] = { qvec: toBlob(qvec, field.type) };
+                qobj['STEPS'] = [ 
+                    { type: AggregateSteps.APPLY, expression: cosScore, AS: 'cos_score'},
+                    { type: AggregateSteps.SORTBY, BY: {BY: '@cos_score', DIRECTION: 'DESC'}}
+                ];
+                break;
+            case QueryType.HYB:
+                qvec = await queryVector(this.embedder, query);
+                qstr = `${filter ? `(${filter} ${text})` : text}${knnClause}`;
+                qobj['PARAMS'] = { qvec: toBlob(qvec, field.type) };
+                qobj['STEPS'] = [ 
+                    { type: AggregateSteps.APPLY, expression: cosScore, AS: 'cos_score'}
+                ];
+                break;
+            default:
+                assert.fail('invalid query type');
+        }
+
+        const rows = await this.client.ft.aggregate(this.options.index, qstr, qobj);
+        const queryScores: QueryScores = {qid:query['qid'], results:{cos:[], fts:[]}};
+        for (const row of rows.results) {
+            // text matches and nearest neighbors can come from any query unless filtered by query ID
+            assert(!filterQid || JSON.parse(row['qid'] as string)[0] === query['qid']);
+            const pid = JSON.parse(row['pid'] as string)[0];
+            const rank = JSON.parse(row['rank'] as string)[0];
+            if (queryType !== QueryType.KNN) {
+                queryScores['results']['fts'].push(new Score(pid, parseFloat(row['__score'] as string), rank));
+            }
+            if (queryType !== QueryType.FTS) {
+                queryScores['results']['cos'].push(new Score(pid, parseFloat(row['cos_score'] as string), rank));
+            }
+        }
+        return queryScores;
+    }
+}
@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import { FusedResult } from './Fusion.js';
+import { normalize, Normalization } from './Normalizer.js';
+import { STOPWORDS, tokenize } from '../utils/text.js';
+
+/**
+ * Relevance model that scores passages against a query, e.g., a cross-encoder.  score() returns one score per
+ * passage, in input order; higher is more relevant.
+ */
+export interface Reranker {
+    readonly model: string;
+    score(query: string, passages: Array<string>): Promise<Array<number>>;
+}
+
+/**
+ * Options of the HTTP reranker.
+ *  -   url:      endpoint of a NIM-compatible ranking API, e.g., http://localhost:8001/v1/ranking
+ *  -   model:    model name sent with each request
+ *  -   apiKey:   optional bearer token
+ *  -   truncate: truncation of inputs that exceed the model's context, END (default) or NONE
+ */
+export type HttpRerankerOptions = {
+    url: string,
+    model: string,
+    apiKey?: string,
+    truncate?: 'END' | 'NONE'
+};
+
+/**
+ * Class implementing a reranker for Nvidia NIM /v1/ranking and compatible cross-encoder APIs
+ * @class
+ */
+export class HttpReranker implements Reranker {
+    readonly model: string;
+    #options: HttpRerankerOptions;
+
+    /**
+     * @constructor
+     * @param {HttpRerankerOptions} options endpoint and model
+     */
+    constructor(options: HttpRerankerOptions) {
+        this.model = options.model;
+        this.#options = {truncate: 'END', ...options};
+    }
+
+    /**
+     * Scores a batch of passages with a single REST API call.  The API returns the passages sorted by relevance;
+     * their logits are put back in input order.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {string} query
+     * @param {Array<string>} passages
+     * @returns {Promise<Array<number>>} logits in passage order
+     */
+    async score(query: string, passages: Array<string>): Promise<Array<number>> {
+        if (passages.length === 0) {
+            return [];
+        }
+        const body = {
+            model: this.model,
+            query: {text: query},
+            passages: passages.map((text) => ({text: text})),
+            truncate: this.#options.truncate
+        };
+        const headers = this.#options.apiKey ? { Authorization: `Bearer ${this.#options.apiKey}` } : {};
+        const result = await axios.post(this.#options.url, body, { headers: headers });
+
+        const rankings: Array<{ index: number, logit: number }> = result.data.rankings;
+        assert.equal(rankings.length, passages.length);
+        const scores: Array<number> = new Array(passages.length);
+        rankings.forEach((elm) => scores[elm.index] = elm.logit);
+        scores.forEach((_, i) => assert.equal(typeof scores[i], 'number', `no score for passage ${i}`));
+        return scores;
+    }
+}
+
+/**
+ * Class implementing a local, deterministic reranker for offline use and CI.  A passage scores the fraction of
+ * the query's distinct non-stopword terms it contains, each term weighted by tf / (tf + 1) so repeated
+ * matches count a little more, plus half the fraction of the query's bigrams found in order.
+ * @class
+ */
+export class LexicalReranker implements Reranker {
+    readonly model: string = 'lexical-overlap';
+
+    /**
+     * Scores a batch of passages.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {string} query
+     * @param {Array<string>} passages
+     * @returns {Promise<Array<number>>} scores in [0, 1.5), in passage order
+     */
+    async score(query: string, passages: Array<string>): Promise<Array<number>> {
+        const tokens = tokenize(query);
+        const content = tokens.filter((token) => !STOPWORDS.has(token));
+        const terms = [...new Set(content.length ? content : tokens)];
+        const bigrams = new Set(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`));
+        return passages.map((passage) => {
+            const words = tokenize(passage);
+            if (terms.length === 0 || words.length === 0) {
+                return 0;
+            }
+            const tf = new Map<string, number>();
+            words.forEach((word) => tf.set(word, (tf.get(word) ?? 0) + 1));
+            const overlap = terms.reduce((acc, term) => {
+                const count = tf.get(term) ?? 0;
+                return acc + count / (count + 1);
+            }, 0) / terms.length;
+            const pairs = new Set(words.slice(1).map((word, i) => `${words[i]} ${word}`));
+            const found = [...bigrams].filter((bigram) => pairs.has(bigram)).length;
+            return overlap + (bigrams.size ? found / bigrams.size : 0) / 2;
+        });
+    }
+}
+
+/**
+ * Class implementing an in-memory cache in front of another reranker.  Scores are keyed by query and passage,
+ * so a passage fused by several methods is scored once per query.
+ * @class
+ */
+export class CachedReranker implements Reranker {
+    readonly model: string;
+    hits: number = 0;
+    misses: number = 0;
+    #reranker: Reranker;
+    #cache: Map<string, number> = new Map();
+
+    /**
+     * @constructor
+     * @param {Reranker} reranker underlying reranker
+     */
+    constructor(reranker: Reranker) {
+        this.#reranker = reranker;
+        this.model = reranker.model;
+    }
+
+    /**
+     * Scores a batch of passages, calling the underlying reranker only for passages that are not cached.
+     *
+     * @async
+     * @public
+     * @function
+     * @param {string} query
+     * @param {Array<string>} passages
+     * @returns {Promise<Array<number>>}
+     */
+    async score(query: string, passages: Array<string>): Promise<Array<number>> {
+        const keys = passages.map((passage) => `${query}\0${passage}`);
+        const missing = [...new Set(keys.filter((key) => !this.#cache.has(key)))];
+        this.misses += missing.length;
+        this.hits += keys.length - missing.length;
+        if (missing.length > 0) {
+            const scores = await this.#reranker.score(query, missing.map((key) => key.substring(query.length + 1)));
+            missing.forEach((key, i) => this.#cache.set(key, scores[i]));
+        }
+        return keys.map((key) => this.#cache.get(key) as number);
+    }
+}
+
+/**
+ * Use of the reranker scores.
+ *  -   Replace: the reranked passages are ordered by reranker score alone
+ *  -   Blend:   the reranked passages are ordered by alpha * reranker score + (1 - alpha) * fused score, both
+ *               min-max normalized over the reranked passages
+ * @enum
+ */
+export enum RerankMode {
+    Replace = 'replace',
+    Blend = 'blend'
+};
+
+/**
+ * Options of the rerank stage.
+ *  -   topK:  number of top fused results that are reranked; the rest keep their fused order below them
+ *  -   mode:  replace or blend with the fused order
+ *  -   alpha: weight of the reranker score in blend mode, from 0 (fused order) to 1 (reranker order)
+ */
+export type RerankOptions = {
+    topK: number,
+    mode: RerankMode,
+    alpha: number
+};
+
+/**
+ * Reranks the top of a fused ranking.  Passages without text are scored as empty strings.
+ *
+ * @async
+ * @function
+ * @param {string} query natural-language query
+ * @param {Array<FusedResult>} fused fused results, best first
+ * @param {Map<string, string>} texts passage text by ID
+ * @param {Reranker} reranker
+ * @param {Partial<RerankOptions>} options top-k, mode and blend weight
+ * @returns {Promise<Array<FusedResult>>} new fused results; reranked entries carry the reranker or blended score
+ */
+export async function rerank(query: string, fused: Array<FusedResult>, texts: Map<string, string>, reranker: Reranker,
+    options: Partial<RerankOptions> = {}): Promise<Array<FusedResult>> {
+    const { topK, mode, alpha }: RerankOptions = {topK: 10, mode: RerankMode.Replace, alpha: 0.5, ...options};
+    assert(topK > 0, 'rerank topK must be positive');
+    assert(Object.values(RerankMode).includes(mode), `invalid rerank mode: ${mode}`);
+    assert(alpha >= 0 && alpha <= 1, 'rerank alpha must be between 0 and 1');
+
+    const head = fused.slice(0, topK);
+    const scores = await reranker.score(query, head.map((elm) => texts.get(elm.id) ?? ''));
+    assert.equal(scores.length, head.length);
+    let final = scores;
+    if (mode === RerankMode.Blend) {
+        const reranked = normalize(scores, Normalization.MinMax);
+        const original = normalize(head.map((elm) => elm.score), Normalization.MinMax);
+        final = reranked.map((score, i) => alpha * score + (1 - alpha) * original[i]);
+    }
+
+    const order = head.map((_, i) => i).sort((a, b) => final[b] - final[a] || a - b);
+    return [
+        ...order.map((i) => ({...head[i], score: final[i]})),
+        ...fused.slice(topK).map((elm) => ({...elm}))
+    ].map((elm, i) => ({...elm, rank: i + 1}));
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { Fusion } from './Fusion.js';
+import { SearchBackend } from './SearchBackend.js';
+import { Query, QueryScores, QueryType } from '../types.js';
+
+/**
+ * A named retriever: one result list of a backend query.
+ *  -   name:      label of the result list in QueryScores and in evaluation output
+ *  -   backend:   backend that runs the query
+ *  -   queryType: query type run on the backend
+ *  -   list:      list of the backend result to use, defaults to cos for KNN and fts for FTS queries; required
+ *                 for hybrid and union queries, which return both
+ *  -   weight:    fusion weight, defaults to 1
+ */
+export type Retriever = {
+    name: string,
+    backend: SearchBackend,
+    queryType: QueryType,
+    list?: 'cos' | 'fts',
+    weight?: number
+};
+
+/**
+ * Runs every retriever for every query and collects the result lists by retriever name.  Retrievers that
+ * share a backend and query type (e.g., the cos and fts lists of one hybrid query) share a single search.
+ * Distinct searches run concurrently.
+ *
+ * @async
+ * @function
+ * @param {Array<Query>} queries
+ * @param {Array<Retriever>} retrievers retrievers with unique names
+ * @returns {Promise<Array<QueryScores>>} one QueryScores per query, in query order, with one list per retriever
+ */
+export async function retrieve(queries: Array<Query>, retrievers: Array<Retriever>): Promise<Array<QueryScores>> {
+    assert(retrievers.length > 0, 'no retrievers');
+    assert.equal(new Set(retrievers.map((retriever) => retriever.name)).size, retrievers.length, 'duplicate retriever names');
+    const searches: Array<{backend: SearchBackend, queryType: QueryType, results: Promise<Array<QueryScores>>}> = [];
+    const lists = retrievers.map((retriever) => {
+        const list = retriever.list ?? (retriever.queryType === QueryType.KNN ? 'cos' : retriever.queryType === QueryType.FTS ? 'fts' : undefined);
+        assert(list !== undefined, `retriever ${retriever.name} needs a list for query type ${QueryType[retriever.queryType]}`);
+        let search = searches.find((elm) => elm.backend === retriever.backend && elm.queryType === retriever.queryType);
+        if (!search) {
+            search = {backend: retriever.backend, queryType: retriever.queryType, results: retriever.backend.search(queries, retriever.queryType)};
+            searches.push(search);
+        }
+        return {name: retriever.name, list: list, results: search.results};
+    });
+
+    const resolved = await Promise.all(lists.map((elm) => elm.results));
+    return queries.map((query, i) => {
+        const queryScores: QueryScores = {qid: query['qid'], results: {}};
+        lists.forEach((elm, j) => {
+            assert.equal(resolved[j][i]['qid'], query['qid']);
+            queryScores['results'][elm.name] = resolved[j][i]['results'][elm.list];
+        });
+        return queryScores;
+    });
+}
+
+/**
+ * Enumerates the combinations (subsets) of retriever names, smallest first and in input order within a size.
+ *
+ * @function
+ * @param {Array<string>} names retriever names
+ * @param {number} minSize smallest combination size
+ * @returns {Array<Array<string>>}
+ */
+export function combinations(names: Array<string>, minSize: number = 1): Array<Array<string>> {
+    const subsets: Array<Array<string>> = [];
+    for (let mask = 1; mask < Math.pow(2, names.length); mask++) {
+        const subset = names.filter((_, i) => (mask >> i) & 1);
+        if (subset.length >= minSize) {
+            subsets.push(subset);
+        }
+    }
+    return subsets.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Builds a Fusion object over a combination of the retriever lists of a query, weighted by the retrievers'
+ * weights.
+ *
+ * @function
+ * @param {QueryScores} queryScores results of a query, as returned by retrieve()
+ * @param {Array<string>} names retriever names to fuse
+ * @param {Array<Retriever>} retrievers retriever definitions, the source of the weights
+ * @returns {Fusion}
+ */
+export function fusionOf(queryScores: QueryScores, names: Array<string>, retrievers: Array<Retriever> = []): Fusion {
+    const weights = names.map((name) => retrievers.find((retriever) => retriever.name === name)?.weight ?? 1);
+    return new Fusion(names.map((name) => {
+        const list = queryScores['results'][name];
+        assert(list !== undefined, `query ${queryScores['qid']} has no results for retriever ${name}`);
+        return list;
+    }), weights);
+}
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { EmbeddingProvider } from './Embedding.js';
+import { EmbeddingType, Passage, Query, QueryScores, QueryType } from '../types.js';
+
+/**
+ * Text relevance scorers, as named by RediSearch.
+ *  -   TFIDF:  sum over matched terms of tf * log2(1 + N/df), normalized by the document's maximum term
+ *              frequency (DOCNORM)
+ *  -   BM25:   Okapi BM25
+ *  -   DISMAX: sum of the frequencies of the matched terms
+ * @enum
+ */
+export enum TextScorer {
+    TFIDF = 'TFIDF',
+    BM25 = 'BM25',
+    DISMAX = 'DISMAX'
+};
+
+/**
+ * A retrieval backend.  load() indexes passages (replacing any previous index); search() runs full-text, KNN,
+ * hybrid or union retrieval for each query and returns the scores in the same QueryScores shape regardless of the
+ * backend:
+ *  -   fts: text relevance scores, descending
+ *  -   cos: cosine similarity scaled to [0, 1], i.e., (2 - cosine distance) / 2
+ * The embedder provides the passage vectors and the vectors of queries without a vector of its model.
+ */
+export interface SearchBackend {
+    embedder: EmbeddingProvider;
+    load(passages: AsyncIterable<Passage> | Iterable<Passage>): Promise<void>;
+    search(queries: Array<Query>, queryType: QueryType): Promise<Array<QueryScores>>;
+}
+
+/**
+ * Returns the vector of a query for a backend's embedder: its vector of the embedder's model if present, e.g.,
+ * after feedback, otherwise the embedding of its natural-language query.
+ *
+ * @async
+ * @function
+ * @param {EmbeddingProvider} embedder
+ * @param {Query} query
+ * @returns {Promise<Array<number>>}
+ */
+export async function queryVector(embedder: EmbeddingProvider, query: Query): Promise<Array<number>> {
+    const vector = query['vectors']?.[embedder.model];
+    if (vector) {
+        assert.equal(vector.length, embedder.dim, `query ${query['qid']} vector dimension mismatch`);
+        return vector;
+    }
+    const [qvec] = await embedder.embed([query['query']], EmbeddingType.Query);
+    return qvec;
+}
@@ -0,0 +1,302 @@
+import assert from 'node:assert/strict';
+import { NdcgResultType } from '../types.js';
+import { prng } from '../utils/random.js';
+
+/**
+ * Paired significance test used to decide whether a method differs from the baseline.
+ * @enum
+ */
+export enum SignificanceTest {
+    TTest = 'ttest',
+    Randomization = 'randomization'
+};
+
+/**
+ * Multiple comparison correction applied to the p-values of all methods compared against a baseline.
+ * @enum
+ */
+export enum Correction {
+    None = 'none',
+    Bonferroni = 'bonferroni',
+    Holm = 'holm'
+};
+
+/**
+ * Significance options.
+ *  -   alpha:      significance level, also used for the (1 - alpha) bootstrap confidence interval
+ *  -   test:       test whose (corrected) p-value decides significance
+ *  -   correction: multiple comparison correction
+ *  -   trials:     randomization test permutations; the test is exact when 2^queries <= trials
+ *  -   samples:    bootstrap resamples
+ *  -   seed:       seed of the randomization test and bootstrap
+ */
+export type SignificanceOptions = {
+    alpha: number,
+    test: SignificanceTest,
+    correction: Correction,
+    trials: number,
+    samples: number,
+    seed: number
+};
+
+export type MethodResults = {
+    name: string,
+    results: Array<NdcgResultType>
+};
+
+export type Comparison = {
+    method: string,
+    baseline: string,
+    queries: number,
+    mean: number,
+    baselineMean: number,
+    difference: number,
+    ci: [number, number],
+    tTest: number,
+    randomization: number,
+    pAdjusted: number,
+    significant: boolean
+};
+
+const DEFAULT_OPTIONS: SignificanceOptions = {
+    alpha: 0.05,
+    test: SignificanceTest.Randomization,
+    correction: Correction.Holm,
+    trials: 10000,
+    samples: 10000,
+    seed: 1
+};
+
+const mean = (values: Array<number>) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Lanczos approximation of ln(Γ(x)).
+ *
+ * @function
+ * @param {number} x
+ * @returns {number}
+ */
+function logGamma(x: number): number {
+    const c = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let ser = 1.000000000190015;
+    c.forEach((coef) => ser += coef / ++y);
+    return -tmp + Math.log(2.5066282746310007 * ser / x);
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b), evaluated with a continued fraction (modified Lentz).
+ *
+ * @function
+ * @param {number} x
+ * @param {number} a
+ * @param {number} b
+ * @returns {number}
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const cf = (x: number, a: number, b: number): number => {
+        const tiny = 1e-300;
+        let c = 1;
+        let d = 1 - (a + b) * x / (a + 1);
+        d = 1 / (Math.abs(d) < tiny ? tiny : d);
+        let h = d;
+        for (let m = 1; m <= 300; m++) {
+            for (const num of [m * (b - m) * x / ((a + 2*m - 1) * (a + 2*m)), -(a + m) * (a + b + m) * x / ((a + 2*m) * (a + 2*m + 1))]) {
+                d = 1 + num * d;
+                d = 1 / (Math.abs(d) < tiny ? tiny : d);
+                c = 1 + num / c;
+                c = Math.abs(c) < tiny ? tiny : c;
+                h *= d * c;
+            }
+            if (Math.abs(d * c - 1) < 1e-12) break;
+        }
+        return h;
+    };
+    const bt = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2) ? bt * cf(x, a, b) / a : 1 - bt * cf(1 - x, b, a) / b;
+}
+
+/**
+ * Two-sided paired t-test on per-query differences.  With fewer than two queries there is no variance to test
+ * against, and the p-value is 1.
+ *
+ * @function
+ * @param {Array<number>} diffs per-query differences (method - baseline)
+ * @returns {number} p-value
+ */
+export function pairedTTest(diffs: Array<number>): number {
+    if (diffs.length < 2) {
+        return 1;
+    }
+    const n = diffs.length;
+    const m = mean(diffs);
+    const sd = Math.sqrt(diffs.reduce((acc, d) => acc + Math.pow(d - m, 2), 0) / (n - 1));
+    if (sd === 0) {
+        return m === 0 ? 1 : 0;
+    }
+    const t = m / (sd / Math.sqrt(n));
+    const df = n - 1;
+    return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/**
+ * Two-sided paired randomization (sign-flip permutation) test on per-query differences.  All 2^n sign
+ * assignments are enumerated when 2^n <= trials; otherwise trials random assignments are sampled.
+ *
+ * @function
+ * @param {Array<number>} diffs per-query differences (method - baseline)
+ * @param {number} trials maximum number of permutations
+ * @param {number} seed seed of the sampled permutations
+ * @returns {number} p-value
+ */
+export function randomizationTest(diffs: Array<number>, trials: number = 10000, seed: number = 1): number {
+    assert(diffs.length > 0);
+    const eps = 1e-12;
+    const observed = Math.abs(mean(diffs));
+    const n = diffs.length;
+    if (Math.pow(2, n) <= trials) {
+        let count = 0;
+        for (let signs = 0; signs < Math.pow(2, n); signs++) {
+            const sum = diffs.reduce((acc, d, i) => acc + ((signs >> i) & 1 ? -d : d), 0);
+            if (Math.abs(sum / n) >= observed - eps) count++;
+        }
+        return count / Math.pow(2, n);
+    }
+    const random = prng(seed);
+    let count = 0;
+    for (let i = 0; i < trials; i++) {
+        const sum = diffs.reduce((acc, d) => acc + (random() < 0.5 ? -d : d), 0);
+        if (Math.abs(sum / n) >= observed - eps) count++;
+    }
+    return (count + 1) / (trials + 1);
+}
+
+/**
+ * Percentile bootstrap confidence interval of the mean per-query difference.
+ *
+ * @function
+ * @param {Array<number>} diffs per-query differences (method - baseline)
+ * @param {number} alpha the interval covers 1 - alpha
+ * @param {number} samples number of bootstrap resamples
+ * @param {number} seed seed of the resampling
+ * @returns {[number, number]} lower and upper bound
+ */
+export function bootstrapCI(diffs: Array<number>, alpha: number = 0.05, samples: number = 10000, seed: number = 1): [number, number] {
+    assert(diffs.length > 0);
+    const random = prng(seed);
+    const means: Array<number> = [];
+    for (let i = 0; i < samples; i++) {
+        let sum = 0;
+        for (let j = 0; j < diffs.length; j++) {
+            sum += diffs[Math.floor(random() * diffs.length)];
+        }
+        means.push(sum / diffs.length);
+    }
+    means.sort((a, b) => a - b);
+    const at = (q: number) => means[Math.min(samples - 1, Math.max(0, Math.floor(q * samples)))];
+    return [at(alpha / 2), at(1 - alpha / 2)];
+}
+
+/**
+ * Adjusts p-values for multiple comparisons.
+ *  -   Bonferroni: p * m
+ *  -   Holm:       step-down, the i-th smallest p-value (0-based) is multiplied by m - i, and the adjusted
+ *                  values are made monotonic
+ *
+ * @function
+ * @param {Array<number>} pValues unadjusted p-values
+ * @param {Correction} correction correction method
+ * @returns {Array<number>} adjusted p-values, capped at 1, in the input order
+ */
+export function adjust(pValues: Array<number>, correction: Correction): Array<number> {
+    const m = pValues.length;
+    switch (correction) {
+        case Correction.None:
+            return [...pValues];
+        case Correction.Bonferroni:
+            return pValues.map((p) => Math.min(1, p * m));
+        case Correction.Holm: {
+            const order = pValues.map((p, i) => ({p: p, i: i})).sort((a, b) => a.p - b.p);
+            const adjusted = new Array(m);
+            let running = 0;
+            order.forEach((elm, j) => {
+                running = Math.max(running, Math.min(1, (m - j) * elm.p));
+                adjusted[elm.i] = running;
+            });
+            return adjusted;
+        }
+        default:
+            assert.fail(`invalid correction: ${correction}`);
+    }
+}
+
+/**
+ * Compares each method against a baseline on paired per-query results.  Results are paired by query ID; every
+ * query of the baseline must be present for every method.  The p-values of the chosen test are corrected
+ * across all methods before they are compared with alpha.  A baseline without queries gives no comparisons.
+ *
+ * @function
+ * @param {MethodResults} baseline baseline method and its per-query results
+ * @param {Array<MethodResults>} methods methods to compare against the baseline
+ * @param {Partial<SignificanceOptions>} options overrides of the default significance options
+ * @returns {Array<Comparison>} one comparison per method, in input order
+ */
+export function compare(baseline: MethodResults, methods: Array<MethodResults>,
+    options: Partial<SignificanceOptions> = {}): Array<Comparison> {
+    const opts: SignificanceOptions = {...DEFAULT_OPTIONS, ...options};
+    const base = baseline.results.map((elm) => elm.ndcg);
+    if (base.length === 0) {
+        return [];
+    }
+
+    const comparisons = methods.map((method) => {
+        const byQid = new Map(method.results.map((elm) => [elm.qid, elm.ndcg]));
+        const scores = baseline.results.map((elm) => {
+            const score = byQid.get(elm.qid);
+            assert(score !== undefined, `${method.name} has no result for query ${elm.qid}`);
+            return score;
+        });
+        const diffs = scores.map((score, i) => score - base[i]);
+        return {
+            method: method.name,
+            baseline: baseline.name,
+            queries: diffs.length,
+            mean: mean(scores),
+            baselineMean: mean(base),
+            difference: mean(diffs),
+            ci: bootstrapCI(diffs, opts.alpha, opts.samples, opts.seed),
+            tTest: pairedTTest(diffs),
+            randomization: randomizationTest(diffs, opts.trials, opts.seed),
+            pAdjusted: 1,
+            significant: false
+        };
+    });
+
+    const pValues = comparisons.map((elm) => opts.test === SignificanceTest.TTest ? elm.tTest : elm.randomization);
+    adjust(pValues, opts.correction).forEach((p, i) => {
+        comparisons[i].pAdjusted = p;
+        comparisons[i].significant = p < opts.alpha;
+    });
+    return comparisons;
+}
+
+/**
+ * Renders comparisons as a readable table, one line per method.  Significant differences are marked with *.
+ *
+ * @function
+ * @param {Array<Comparison>} comparisons output of compare()
+ * @returns {string}
+ */
+export function formatComparisons(comparisons: Array<Comparison>): string {
+    const width = Math.max(10, ...comparisons.map((elm) => elm.method.length));
+    const lines = comparisons.map((elm) =>
+        `${elm.method.padEnd(width)} ${elm.mean.toFixed(4)}  ${(elm.difference >= 0 ? '+' : '') + elm.difference.toFixed(4)}  ` +
+        `[${elm.ci[0].toFixed(4)}, ${elm.ci[1].toFixed(4)}]  t p=${elm.tTest.toFixed(4)}  rand p=${elm.randomization.toFixed(4)}  ` +
+        `adj p=${elm.pAdjusted.toFixed(4)}${elm.significant ? ' *' : ''}`);
+    const header = comparisons.length ?
+        `vs ${comparisons[0].baseline} (${comparisons[0].baselineMean.toFixed(4)}), ${comparisons[0].queries} queries` : '';
+    return [header, ...lines].join('\n');
+}
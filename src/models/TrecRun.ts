@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import { Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+import { Fusion, FusedResult, Score } from './Fusion.js';
+
+/**
+ * A TREC run: the ranked results of a system per query.
+ *  -   tag:     run tag (system name), from the last column of the first line
+ *  -   queries: results of each query, in file order of the queries and by ascending rank within a query.  Each
+ *               Score holds the document ID, the run's score and the run's rank.
+ */
+export type TrecRun = {
+    tag: string,
+    queries: Map<string, Array<Score>>
+};
+
+/**
+ * Fused results of a query.
+ */
+export type FusedRun = Array<{
+    qid: string,
+    results: Array<FusedResult>
+}>;
+
+/**
+ * Reads a TREC run file (qid Q0 docid rank score tag, whitespace separated; gzipped if the name ends in .gz).
+ *
+ * @async
+ * @function
+ * @param {string} file
+ * @returns {Promise<TrecRun>}
+ */
+export async function readRun(file: string): Promise<TrecRun> {
+    let input: Readable = fs.createReadStream(file);
+    if (file.endsWith('.gz')) {
+        input = input.pipe(createGunzip());
+    }
+    const run: TrecRun = {tag: '', queries: new Map()};
+    for await (const line of readline.createInterface({input: input, crlfDelay: Infinity})) {
+        if (!line.trim()) {
+            continue;
+        }
+        const fields = line.trim().split(/\s+/);
+        assert(fields.length >= 5, `invalid run line in ${file}: ${line}`);
+        const [qid, , docid, rank, score, tag] = fields;
+        assert(!isNaN(parseInt(rank)) && !isNaN(parseFloat(score)), `invalid rank or score in ${file}: ${line}`);
+        run.tag ||= tag ?? '';
+        if (!run.queries.has(qid)) {
+            run.queries.set(qid, []);
+        }
+        run.queries.get(qid)?.push(new Score(docid, parseFloat(score), parseInt(rank)));
+    }
+    run.queries.forEach((scores) => {
+        scores.sort((a, b) => a.rank - b.rank);
+        assert.equal(new Set(scores.map((elm) => elm.id)).size, scores.length, `duplicate document in ${file}`);
+    });
+    return run;
+}
+
+/**
+ * Fuses any number of runs query by query.  Every query of any run is fused; a run without results for a query
+ * contributes an empty list.  Fusion orders each list by score, so the runs' scores must agree with their
+ * ranks (higher is better).
+ *
+ * @function
+ * @param {Array<TrecRun>} runs
+ * @param {(fusion: Fusion) => Array<FusedResult>} fuse fusion algorithm, e.g., (fusion) => fusion.rrf(60, 1000)
+ * @param {Array<number>} weights optional weight of each run
+ * @returns {FusedRun} fused results, in order of the queries' first appearance
+ */
+export function fuseRuns(runs: Array<TrecRun>, fuse: (fusion: Fusion) => Array<FusedResult>,
+    weights: Array<number> = new Array(runs.length).fill(1)): FusedRun {
+    assert(runs.length > 0, 'no runs to fuse');
+    const qids = [...new Set(runs.flatMap((run) => [...run.queries.keys()]))];
+    const fused = Fusion.batch(qids.map((qid) => runs.map((run) => run.queries.get(qid) ?? [])), fuse, weights);
+    return qids.map((qid, i) => ({qid: qid, results: fused[i]}));
+}
+
+/**
+ * Formats fused results as a TREC run (qid Q0 docid rank score tag), with the fused rank and score.
+ *
+ * @function
+ * @param {FusedRun} fused
+ * @param {string} tag run tag, without whitespace
+ * @returns {string}
+ */
+export function formatRun(fused: FusedRun, tag: string): string {
+    assert(tag && !/\s/.test(tag), `invalid run tag: ${tag}`);
+    return fused.flatMap((query) => query.results.map((elm) => `${query.qid} Q0 ${elm.id} ${elm.rank} ${elm.score} ${tag}\n`)).join('');
+}
+
+/**
+ * Writes fused results as a TREC run file, which trec_eval can evaluate.  An existing file is replaced through
+ * a temporary file.
+ *
+ * @async
+ * @function
+ * @param {string} file
+ * @param {FusedRun} fused
+ * @param {string} tag run tag, without whitespace
+ * @returns {Promise<void>}
+ */
+export async function writeRun(file: string, fused: FusedRun, tag: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), {recursive: true});
+    await fs.promises.writeFile(`${file}.tmp`, formatRun(fused, tag));
+    await fs.promises.rename(`${file}.tmp`, file);
+}
@@ -0,0 +1,312 @@
+import assert from 'node:assert/strict';
+import { CONDORCET_MAX_IDS, Fusion, FusedResult } from './Fusion.js';
+import { Gain, ndcg } from './Evaluation.js';
+import { Qrels, QueryScores } from '../types.js';
+import { prng } from '../utils/random.js';
+
+/**
+ * Search strategies for the weight/k space.
+ *  -   Grid:             every combination of the candidate weight values (and k values for RRF)
+ *  -   Random:           uniformly sampled weights in [0, 1] (and k values in [1, 100] for RRF)
+ *  -   CoordinateAscent: starting at weights of 1 and k of 60, repeatedly optimizes one parameter at a
+ *                        time over the candidate values until no parameter improves the metric
+ * @enum
+ */
+export enum SearchStrategy {
+    Grid = 'grid',
+    Random = 'random',
+    CoordinateAscent = 'coordinate'
+};
+
+/**
+ * A metric scores a single fused ranking (array of IDs) against the graded relevance judgments of its query.
+ */
+export type Metric = (ranking: Array<string>, relevance: { [pid: string]: number }) => number;
+
+/**
+ * A fusion method that can be tuned.  fuse is called with a Fusion object built with the candidate weights,
+ * the candidate k and an optional maximum number of results.  k is only searched when tuneK is set; otherwise
+ * it is fixed at 60.  maxIds, if set, is the largest union of IDs the method can fuse.
+ */
+export type TunableMethod = {
+    name: string,
+    fuse: (fusion: Fusion, k: number, topK?: number) => Array<FusedResult>,
+    tuneK?: boolean,
+    maxIds?: number
+};
+
+export type TuningConfig = {
+    weights: Array<number>,
+    k: number
+};
+
+export type TuningOptions = {
+    strategy: SearchStrategy,
+    metric: Metric,
+    grid: Array<number>,
+    kGrid: Array<number>,
+    samples: number,
+    maxRounds: number,
+    folds: number,
+    seed: number
+};
+
+export type FoldResult = {
+    config: TuningConfig,
+    train: number,
+    test: number
+};
+
+export type TuningResult = {
+    method: string,
+    config: TuningConfig,
+    score: number,
+    cvScore: number | null,
+    folds: Array<FoldResult>
+};
+
+/**
+ * Returns a metric that calculates NDCG at a cutoff.
+ *
+ * @function
+ * @param {number} k rank cutoff
+ * @param {Gain} gain gain function
+ * @returns {Metric}
+ */
+export function ndcgAt(k: number = 10, gain: Gain = Gain.Exponential): Metric {
+    return (ranking, relevance) => ndcg(ranking, relevance, k, gain);
+}
+
+export const TUNABLE_METHODS: Array<TunableMethod> = [
+    { name: 'Borda', fuse: (fusion, k, topK) => fusion.borda(topK) },
+    { name: 'CombANZ', fuse: (fusion, k, topK) => fusion.combAnz(topK) },
+    { name: 'CombMAX', fuse: (fusion, k, topK) => fusion.combMax(topK) },
+    { name: 'CombMED', fuse: (fusion, k, topK) => fusion.combMed(topK) },
+    { name: 'CombMIN', fuse: (fusion, k, topK) => fusion.combMin(topK) },
+    { name: 'CombMNZ', fuse: (fusion, k, topK) => fusion.combMnz(topK) },
+    { name: 'CombSUM', fuse: (fusion, k, topK) => fusion.combSum(topK) },
+    { name: 'Condorcet', fuse: (fusion, k, topK) => fusion.condorcet(topK), maxIds: CONDORCET_MAX_IDS },
+    { name: 'DBSF', fuse: (fusion, k, topK) => fusion.dbsf(topK) },
+    { name: 'ISR', fuse: (fusion, k, topK) => fusion.isr(topK) },
+    { name: 'RRF', fuse: (fusion, k, topK) => fusion.rrf(k, topK), tuneK: true },
+    { name: 'RSF', fuse: (fusion, k, topK) => fusion.rsf(topK) }
+];
+
+const DEFAULT_OPTIONS: TuningOptions = {
+    strategy: SearchStrategy.Grid,
+    metric: ndcgAt(10),
+    grid: [0, 0.25, 0.5, 0.75, 1],
+    kGrid: [1, 5, 10, 20, 40, 60, 80, 100],
+    samples: 100,
+    maxRounds: 10,
+    folds: 1,
+    seed: 1
+};
+
+/**
+ * Class implementing weight and RRF k tuning of the fusion algorithms against relevance judgments
+ * @class
+ */
+export class Tuner {
+    queries: Array<QueryScores>;
+    qrels: Qrels;
+    retrievers: Array<string>;
+    options: TuningOptions;
+
+    /**
+     * @constructor
+     * @param {Array<QueryScores>} queries per-query retrieval results, as returned by search()
+     * @param {Qrels} qrels graded relevance judgments, keyed by query ID then passage ID
+     * @param {Array<string>} retrievers names of the result lists to fuse, in weight order
+     * @param {Partial<TuningOptions>} options overrides of the default tuning options
+     */
+    constructor(queries: Array<QueryScores>, qrels: Qrels, retrievers: Array<string> = ['cos', 'fts'],
+        options: Partial<TuningOptions> = {}) {
+        this.queries = queries;
+        this.qrels = qrels;
+        this.retrievers = retrievers;
+        this.options = {...DEFAULT_OPTIONS, ...options};
+        assert(this.queries.length > 0);
+        assert(this.retrievers.length > 0);
+        assert(this.options.folds >= 1 && this.options.folds <= this.queries.length);
+    }
+
+    /**
+     * Calculates the mean metric of a fusion method with a given configuration across queries.
+     *
+     * @public
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @param {TuningConfig} config weights and k
+     * @param {Array<QueryScores>} queries queries to evaluate, defaults to all queries
+     * @returns {number}
+     */
+    evaluate(method: TunableMethod, config: TuningConfig, queries: Array<QueryScores> = this.queries): number {
+        const total = queries.reduce((acc, query) => {
+            const fusion = new Fusion(this.retrievers.map((name) => query['results'][name]), config.weights);
+            const ranking = method.fuse(fusion, config.k).map((elm) => elm.id);
+            return acc + this.options.metric(ranking, this.qrels[query['qid']] ?? {});
+        }, 0);
+        return total / queries.length;
+    }
+
+    /**
+     * Searches the configuration space of a fusion method with the configured strategy.  If more than one
+     * fold is configured, the search is cross-validated: each fold is held out in turn, tuned on the
+     * remaining folds and scored on the held-out fold.  The reported configuration is tuned on all queries.
+     *
+     * @public
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @returns {TuningResult}
+     */
+    tune(method: TunableMethod): TuningResult {
+        const folds: Array<FoldResult> = [];
+        if (this.options.folds > 1) {
+            const random = prng(this.options.seed);
+            const order = this.queries.map((query) => ({query: query, key: random()}))
+                .sort((a, b) => a.key - b.key)
+                .map((elm) => elm.query);
+            for (let f = 0; f < this.options.folds; f++) {
+                const train = order.filter((_, i) => i % this.options.folds !== f);
+                const test = order.filter((_, i) => i % this.options.folds === f);
+                const best = this.#search(method, train);
+                folds.push({config: best.config, train: best.score, test: this.evaluate(method, best.config, test)});
+            }
+        }
+
+        const best = this.#search(method, this.queries);
+        return {
+            method: method.name,
+            config: best.config,
+            score: best.score,
+            cvScore: folds.length ? folds.reduce((acc, fold) => acc + fold.test / folds.length, 0) : null,
+            folds: folds
+        };
+    }
+
+    /**
+     * Tunes each of an array of fusion methods.
+     *
+     * @public
+     * @function
+     * @param {Array<TunableMethod>} methods fusion methods, defaults to every Fusion algorithm
+     * @returns {Array<TuningResult>}
+     */
+    tuneAll(methods: Array<TunableMethod> = TUNABLE_METHODS): Array<TuningResult> {
+        return methods.map((method) => this.tune(method));
+    }
+
+    /**
+     * Dispatches to the configured search strategy.  Ties in the metric keep the first configuration found.
+     *
+     * @private
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @param {Array<QueryScores>} queries queries to tune on
+     * @returns {{config: TuningConfig, score: number}}
+     */
+    #search(method: TunableMethod, queries: Array<QueryScores>): {config: TuningConfig, score: number} {
+        let candidates: Array<TuningConfig>;
+        switch (this.options.strategy) {
+            case SearchStrategy.Grid:
+                candidates = this.#grid(method);
+                break;
+            case SearchStrategy.Random:
+                candidates = this.#random(method);
+                break;
+            case SearchStrategy.CoordinateAscent:
+                return this.#coordinateAscent(method, queries);
+            default:
+                assert.fail(`invalid search strategy: ${this.options.strategy}`);
+        }
+
+        let best = {config: candidates[0], score: Number.NEGATIVE_INFINITY};
+        for (const config of candidates) {
+            const score = this.evaluate(method, config, queries);
+            if (score > best.score) {
+                best = {config: config, score: score};
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Builds every combination of the candidate weights (excluding all zeros) and, if the method tunes k,
+     * the candidate k values.
+     *
+     * @private
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @returns {Array<TuningConfig>}
+     */
+    #grid(method: TunableMethod): Array<TuningConfig> {
+        let weightSets: Array<Array<number>> = [[]];
+        this.retrievers.forEach(() => {
+            weightSets = weightSets.flatMap((weights) => this.options.grid.map((val) => [...weights, val]));
+        });
+        weightSets = weightSets.filter((weights) => weights.some((val) => val > 0));
+        const ks = method.tuneK ? this.options.kGrid : [60];
+        return weightSets.flatMap((weights) => ks.map((k) => ({weights: weights, k: k})));
+    }
+
+    /**
+     * Samples random configurations.  The default configuration (weights of 1, k of 60) is always included.
+     *
+     * @private
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @returns {Array<TuningConfig>}
+     */
+    #random(method: TunableMethod): Array<TuningConfig> {
+        const random = prng(this.options.seed);
+        const candidates: Array<TuningConfig> = [{weights: new Array(this.retrievers.length).fill(1), k: 60}];
+        for (let i = 0; i < this.options.samples; i++) {
+            candidates.push({
+                weights: this.retrievers.map(() => random()),
+                k: method.tuneK ? 1 + Math.floor(random() * 100) : 60
+            });
+        }
+        return candidates;
+    }
+
+    /**
+     * Coordinate ascent over the weights and, if the method tunes k, k.  Each round tries every candidate
+     * value for each parameter in turn and keeps a value only if it strictly improves the metric.
+     *
+     * @private
+     * @function
+     * @param {TunableMethod} method fusion method
+     * @param {Array<QueryScores>} queries queries to tune on
+     * @returns {{config: TuningConfig, score: number}}
+     */
+    #coordinateAscent(method: TunableMethod, queries: Array<QueryScores>): {config: TuningConfig, score: number} {
+        let config: TuningConfig = {weights: new Array(this.retrievers.length).fill(1), k: 60};
+        let score = this.evaluate(method, config, queries);
+        const params = method.tuneK ? this.retrievers.length + 1 : this.retrievers.length;
+
+        for (let round = 0; round < this.options.maxRounds; round++) {
+            let improved = false;
+            for (let p = 0; p < params; p++) {
+                const isK = p === this.retrievers.length;
+                for (const val of isK ? this.options.kGrid : this.options.grid) {
+                    const weights = isK ? config.weights : config.weights.map((w, i) => i === p ? val : w);
+                    if (!weights.some((w) => w > 0)) {
+                        continue;
+                    }
+                    const candidate = {weights: weights, k: isK ? val : config.k};
+                    const candidateScore = this.evaluate(method, candidate, queries);
+                    if (candidateScore > score) {
+                        config = candidate;
+                        score = candidateScore;
+                        improved = true;
+                    }
+                }
+            }
+            if (!improved) {
+                break;
+            }
+        }
+        return {config: config, score: score};
+    }
+}
@@ -0,0 +1,39 @@
+import { createFusionServer } from './models/FusionService.js';
+import { MemoryBackend } from './models/MemoryBackend.js';
+import { createRetrievers, envSettings, readJson } from './config.js';
+import { Passage } from './types.js';
+import process from 'node:process';
+
+const SETTINGS = envSettings();
+const PORT = parseInt(process.env.PORT ?? '3000');
+const HOST = process.env.HOST ?? '127.0.0.1';
+
+/**
+ * HTTP fusion service.  POST /fuse fuses the scored lists of the request; POST /search retrieves passages for
+ * the request's query with the retrievers of the app (SEARCH_BACKEND, SEARCH_CONFIG, ...) and fuses them.
+ * In-memory backends are loaded from the passages file at startup; Redis indexes must have been loaded, e.g.,
+ * with npm run cli -- index.  Listens on HOST:PORT until SIGINT or SIGTERM.
+ */
+(async () => {
+    const { retrievers, backends, close } = await createRetrievers(SETTINGS);
+    for (const backend of backends.filter((elm) => elm instanceof MemoryBackend)) {
+        await backend.load(readJson<Passage>(SETTINGS.passagesFile));
+    }
+    const texts = new Map<string, string>();
+    for await (const passage of readJson<Passage>(SETTINGS.passagesFile)) {
+        texts.set(passage['pid'], passage['text']);
+    }
+
+    const server = createFusionServer({retrievers: retrievers, texts: texts});
+    server.listen(PORT, HOST, () => {
+        console.log(`fusion service listening on http://${HOST}:${PORT} (${retrievers.map((retriever) => retriever.name).join(', ')})`);
+    });
+    const shutdown = () => {
+        server.close(async () => {
+            await close();
+            process.exit(0);
+        });
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+})();
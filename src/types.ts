@@ -5,10 +5,42 @@ export enum EmbeddingType {
     Passage = 'passage'
 };
 
+/**
+ * Retrieval modes.
+ *  -   KNN: vector nearest neighbors
+ *  -   FTS: full-text search
+ *  -   HYB: KNN restricted to the passages matching the text query; both lists hold the same candidates
+ *  -   UNI: independent FTS top-N and KNN top-M; each list has its own candidates
+ * @enum
+ */
 export enum QueryType {
     KNN,
     FTS,
-    HYB
+    HYB,
+    UNI
+};
+
+export type Passage = {
+    qid: string,
+    pid: string,
+    rank: number,
+    text: string,
+    title?: string
+};
+
+/**
+ * A query.
+ *  -   qid:     query ID
+ *  -   query:   natural-language query, embedded for vector search
+ *  -   q_str:   optional RediSearch text query, otherwise built from the query
+ *  -   vectors: optional query vectors by embedding model, used instead of embedding the query, e.g., after
+ *               vector feedback
+ */
+export type Query = {
+    qid: string,
+    query: string,
+    q_str?: string,
+    vectors?: { [model: string]: Array<number> }
 };
 
 export type NdcgResultType = {
@@ -16,11 +48,19 @@ export type NdcgResultType = {
     ndcg: number
 };
 
+export type Qrels = {
+    [qid: string]: {
+        [pid: string]: number
+    }
+};
+
+/**
+ * Result lists of a query, keyed by retriever name.  Backends return cos (vector) and fts (text) lists.
+ */
 export type QueryScores = {
     qid: string,
     results: {
-        cos: Array<Score>,
-        fts: Array<Score>
+        [retriever: string]: Array<Score>
     }
 };
 
@@ -30,11 +70,6 @@ export type RankedScore = {
     rank: number
 };
 
-export type Relevance = {
-    pid: string,
-    relevance: number
-};
-
 export type SearchResult = {
     qid: string,
     scores: Array<RankedScore>
@@ -0,0 +1,133 @@
+import { parseArgs } from 'node:util';
+import process from 'node:process';
+import { performance } from 'node:perf_hooks';
+import { FusedResult, Fusion, Score } from '../models/Fusion.js';
+import { formatRows, OutputFormat, Row } from './output.js';
+import { prng } from './random.js';
+
+const USAGE = `usage: npm run bench -- [options]
+  --sizes <candidates per list, default 100,1000,5000>  --lists <lists per query, default 2>
+  --queries <queries per run, default 100>  --top <topK, default 10>  --seed <n, default 1>
+  --format <markdown|json|csv, default markdown>`;
+
+/**
+ * Reference implementation of the original Fusion internals for RRF and RSF: in-place sort of the score arrays,
+ * per-ID objects keyed by string, a hits count over all lists on every comparison and a full sort of the fused
+ * scores before topK.  Kept only to measure the gains of the current implementation.
+ *
+ * @function
+ * @param {Array<Array<Score>>} scores score arrays, sorted in place
+ * @param {'rrf' | 'rsf'} method
+ * @param {number} topK
+ * @returns {Array<string>} fused IDs
+ */
+function legacyFusion(scores: Array<Array<Score>>, method: 'rrf' | 'rsf', topK: number): Array<string> {
+    const rankings = scores.map((scoreArr) => scoreArr.sort((a, b) => b.score - a.score).map((elm) => elm.id));
+    const ids = [...new Set(rankings.flat())];
+    const positions = rankings.map((ranking) => new Map(ranking.map((id, j) => [id, j])));
+    const hits = (id: string) => positions.reduce((a, pos) => a + (pos.has(id) ? 1 : 0), 0);
+    const fused: { [key: string]: number } = {};
+    ids.forEach((id) => fused[id] = 0);
+    scores.forEach((scoreArr) => {
+        const max = Math.max(...scoreArr.map((elm) => elm.score));
+        const min = Math.min(...scoreArr.map((elm) => elm.score));
+        scoreArr.forEach((elm, j) => {
+            fused[elm.id] += method === 'rrf' ? 1/(j+60) : (max === min ? 1 : (elm.score - min) / (max - min));
+        });
+    });
+    return Object.entries(fused).sort((a, b) => b[1] - a[1] || hits(b[0]) - hits(a[0]) || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+        .slice(0, topK).map(([id]) => id);
+}
+
+/**
+ * Generates the score arrays of a query: lists of size candidates drawn from a pool of 1.5 * size IDs, so the
+ * lists partially overlap, in descending order of score like search backend results.
+ *
+ * @function
+ * @param {() => number} random
+ * @param {number} lists
+ * @param {number} size
+ * @returns {Array<Array<Score>>}
+ */
+function generate(random: () => number, lists: number, size: number): Array<Array<Score>> {
+    return Array.from({length: lists}, () => {
+        const ids = new Set<number>();
+        while (ids.size < size) {
+            ids.add(Math.floor(random() * size * 1.5));
+        }
+        return [...ids].map((id) => new Score(`doc${id}`, random())).sort((a, b) => b.score - a.score);
+    });
+}
+
+/**
+ * Times a fusion routine over all queries, after a warm-up pass.
+ *
+ * @function
+ * @param {Array<Array<Array<Score>>>} queries
+ * @param {(queries: Array<Array<Array<Score>>>) => Array<Array<string>>} run fuses every query
+ * @returns {{ms: number, ids: Array<Array<string>>}} mean milliseconds per query and the fused IDs
+ */
+function time(queries: Array<Array<Array<Score>>>, run: (queries: Array<Array<Array<Score>>>) => Array<Array<string>>):
+    {ms: number, ids: Array<Array<string>>} {
+    run(queries.slice(0, Math.min(10, queries.length)));
+    const start = performance.now();
+    const ids = run(queries);
+    return {ms: (performance.now() - start) / queries.length, ids: ids};
+}
+
+/**
+ * Fusion benchmark: mean latency and throughput of RRF and RSF per list size, for the original implementation,
+ * Fusion with all results, Fusion with topK heap selection and Fusion.batch with topK.  Every variant is checked
+ * to return the same top IDs as the original implementation.
+ */
+(() => {
+    const { values } = parseArgs({
+        options: {
+            'sizes': { type: 'string', default: '100,1000,5000' },
+            'lists': { type: 'string', default: '2' },
+            'queries': { type: 'string', default: '100' },
+            'top': { type: 'string', default: '10' },
+            'seed': { type: 'string', default: '1' },
+            'format': { type: 'string', default: OutputFormat.Markdown }
+        }
+    });
+    const sizes = (values['sizes'] as string).split(',').map((size) => parseInt(size));
+    const [lists, count, top, seed] = ['lists', 'queries', 'top', 'seed'].map((name) => parseInt(values[name as keyof typeof values] as string));
+    const format = values['format'] as OutputFormat;
+    if ([...sizes, lists, count, top].some((val) => !(val > 0)) || ![OutputFormat.Markdown, OutputFormat.JSON, OutputFormat.CSV].includes(format)) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const rows: Array<Row> = [];
+    for (const size of sizes) {
+        const random = prng(seed);
+        const queries = Array.from({length: count}, () => generate(random, lists, size));
+        for (const method of ['rrf', 'rsf'] as const) {
+            const fuse = (fusion: Fusion, topK?: number): Array<FusedResult> => method === 'rrf' ? fusion.rrf(60, topK) : fusion.rsf(topK);
+            const ids = (results: Array<FusedResult>) => results.map((elm) => elm.id);
+            const variants: Array<[string, (queries: Array<Array<Array<Score>>>) => Array<Array<string>>]> = [
+                ['original', (batch) => batch.map((scores) => legacyFusion(scores.map((scoreArr) => [...scoreArr]), method, top))],
+                ['fusion all', (batch) => batch.map((scores) => ids(fuse(new Fusion(scores)).slice(0, top)))],
+                [`fusion top ${top}`, (batch) => batch.map((scores) => ids(fuse(new Fusion(scores), top)))],
+                [`batch top ${top}`, (batch) => Fusion.batch(batch, (fusion) => fuse(fusion, top)).map(ids)]
+            ];
+            let baseline: {ms: number, ids: Array<Array<string>>} | undefined;
+            for (const [name, run] of variants) {
+                const result = time(queries, run);
+                baseline ??= result;
+                const same = result.ids.every((elm, i) => elm.join() === baseline?.ids[i].join());
+                rows.push({
+                    method: method.toUpperCase(),
+                    size: size,
+                    variant: name,
+                    'ms/query': result.ms,
+                    'queries/s': Math.round(1000 / result.ms),
+                    speedup: baseline.ms / result.ms,
+                    'same top': same ? 'yes' : 'NO'
+                });
+            }
+        }
+    }
+    process.stdout.write(formatRows(rows, format));
+})();
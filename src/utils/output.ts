@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { parse } from 'csv-parse/sync';
+
+/**
+ * Output formats of tabular results.
+ *  -   JSON:     one JSON object per row (JSON lines)
+ *  -   CSV:      header of the column names, then one line per row; fields are quoted when needed (RFC 4180)
+ *  -   Markdown: table with right-aligned numeric columns; columns with fractional numbers are rounded to 4 decimals
+ *  -   TREC:     TREC run lines (qid Q0 id rank score run); only for rankings, i.e., rows with those columns
+ * @enum
+ */
+export enum OutputFormat {
+    JSON = 'json',
+    CSV = 'csv',
+    Markdown = 'markdown',
+    TREC = 'trec'
+};
+
+/**
+ * A row of tabular results, keyed by column name.
+ */
+export type Row = {
+    [column: string]: string | number
+};
+
+/**
+ * Columns of rows, in order of their first appearance.
+ *
+ * @function
+ * @param {Array<Row>} rows
+ * @returns {Array<string>}
+ */
+function columns(rows: Array<Row>): Array<string> {
+    return [...new Set(rows.flatMap((row) => Object.keys(row)))];
+}
+
+/**
+ * Quotes a CSV field that contains a delimiter, a quote or a line break.
+ *
+ * @function
+ * @param {string | number | undefined} value
+ * @returns {string}
+ */
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a value as a markdown table cell.
+ *
+ * @function
+ * @param {string | number | undefined} value
+ * @param {boolean} fractional whether numbers are rounded to 4 decimals
+ * @returns {string}
+ */
+function markdownCell(value: string | number | undefined, fractional: boolean): string {
+    if (typeof value === 'number') {
+        return fractional ? value.toFixed(4) : String(value);
+    }
+    return (value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Formats rows of tabular results.  Every format but JSON has one column per distinct key of the rows; a row
+ * without a column has an empty cell.
+ *
+ * @function
+ * @param {Array<Row>} rows
+ * @param {OutputFormat} format
+ * @returns {string} formatted rows, ending with a line break unless there are no rows
+ * @example
+ *  formatRows([{run: 'rrf', ndcg: 0.51234}], OutputFormat.Markdown);
+ *  // | run | ndcg |
+ *  // | --- | ---: |
+ *  // | rrf | 0.5123 |
+ */
+export function formatRows(rows: Array<Row>, format: OutputFormat): string {
+    if (rows.length === 0) {
+        return '';
+    }
+    const names = columns(rows);
+    switch (format) {
+        case OutputFormat.JSON:
+            return rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+        case OutputFormat.CSV:
+            return [names, ...rows.map((row) => names.map((name) => row[name]))]
+                .map((fields) => `${fields.map((field) => csvField(field)).join(',')}\n`).join('');
+        case OutputFormat.Markdown: {
+            const numeric = names.map((name) => rows.every((row) => row[name] === undefined || typeof row[name] === 'number'));
+            const fractional = names.map((name) => rows.some((row) => typeof row[name] === 'number' && !Number.isInteger(row[name])));
+            return [
+                `| ${names.join(' | ')} |\n`,
+                `| ${numeric.map((right) => right ? '---:' : '---').join(' | ')} |\n`,
+                ...rows.map((row) => `| ${names.map((name, i) => markdownCell(row[name], fractional[i])).join(' | ')} |\n`)
+            ].join('');
+        }
+        case OutputFormat.TREC:
+            return rows.map((row) => {
+                for (const name of ['qid', 'id', 'rank', 'score', 'run']) {
+                    assert(row[name] !== undefined, `TREC output needs a ${name} column`);
+                }
+                assert(!/\s/.test(String(row['run'])), `invalid run tag: ${row['run']}`);
+                return `${row['qid']} Q0 ${row['id']} ${row['rank']} ${row['score']} ${row['run']}\n`;
+            }).join('');
+        default:
+            assert.fail(`invalid output format: ${format}`);
+    }
+}
+
+/**
+ * Parses rows written by formatRows as JSON lines or CSV.  CSV fields are read as strings, since IDs may look
+ * like numbers.
+ *
+ * @function
+ * @param {string} text
+ * @param {OutputFormat.JSON | OutputFormat.CSV} format
+ * @returns {Array<Row>}
+ */
+export function parseRows(text: string, format: OutputFormat.JSON | OutputFormat.CSV): Array<Row> {
+    switch (format) {
+        case OutputFormat.JSON:
+            return text.split(/\r?\n/).filter((line) => line.trim()).map((line) => JSON.parse(line));
+        case OutputFormat.CSV:
+            return parse(text, {columns: true, skip_empty_lines: true});
+        default:
+            assert.fail(`invalid input format: ${format}`);
+    }
+}
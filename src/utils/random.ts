@@ -0,0 +1,15 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32), so that sampling is reproducible.
+ *
+ * @function
+ * @param {number} seed
+ * @returns {() => number} generator of numbers in [0, 1)
+ */
+export function prng(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
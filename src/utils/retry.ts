@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * Calls an async function until it succeeds, at most retries + 1 times, with exponential backoff: the n-th retry
+ * waits delay * 2^(n-1) milliseconds.  The error of the last attempt is rethrown.
+ *
+ * @async
+ * @function
+ * @param {() => Promise<T>} fn
+ * @param {number} retries maximum number of retries
+ * @param {number} delay milliseconds before the first retry
+ * @param {(err: unknown, retry: number) => void} onRetry called before each retry with the error and retry number
+ * @returns {Promise<T>} result of the first successful call
+ */
+export async function retry<T>(fn: () => Promise<T>, retries: number, delay: number,
+    onRetry?: (err: unknown, retry: number) => void): Promise<T> {
+    assert(retries >= 0 && delay >= 0);
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= retries) {
+                throw err;
+            }
+            onRetry?.(err, attempt + 1);
+            await sleep(delay * 2 ** attempt);
+        }
+    }
+}
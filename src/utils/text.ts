@@ -0,0 +1,19 @@
+/**
+ * RediSearch's default English stopwords.  They are neither indexed nor matched in queries.
+ */
+export const STOPWORDS: ReadonlySet<string> = new Set([
+    'a', 'is', 'the', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'it', 'no',
+    'not', 'of', 'on', 'or', 'such', 'that', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was',
+    'will', 'with'
+]);
+
+/**
+ * Splits text into lowercased word tokens.  Any character that is not a letter or digit is a separator.
+ *
+ * @function
+ * @param {string} text
+ * @returns {Array<string>}
+ */
+export function tokenize(text: string): Array<string> {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
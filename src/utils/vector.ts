@@ -0,0 +1,47 @@
+import { Buffer } from 'node:buffer';
+
+/**
+ * Converts a number to the bits of the nearest IEEE 754 half-precision float (round half up).  Values beyond
+ * the half-precision range become infinity; values below its smallest subnormal become zero.
+ *
+ * @function
+ * @param {number} val
+ * @returns {number} 16-bit unsigned integer
+ */
+export function toFloat16(val: number): number {
+    const bits = new Uint32Array(new Float32Array([val]).buffer)[0];
+    const sign = (bits >>> 16) & 0x8000;
+    const exp = (bits >>> 23) & 0xff;
+    const mant = bits & 0x7fffff;
+    if (exp === 0xff) {
+        return sign | 0x7c00 | (mant ? 0x200 : 0);
+    }
+    const halfExp = exp - 127 + 15;
+    if (halfExp >= 0x1f) {
+        return sign | 0x7c00;
+    }
+    if (halfExp <= 0) {
+        if (halfExp < -10) {
+            return sign;
+        }
+        return sign | (((mant | 0x800000) >> (1 - halfExp)) + 0x1000) >> 13;
+    }
+    return sign | ((halfExp << 10) + ((mant + 0x1000) >> 13));
+}
+
+/**
+ * Encodes a vector as the little-endian binary blob of a RediSearch vector query parameter.
+ *
+ * @function
+ * @param {Array<number>} vector
+ * @param {string} type FLOAT32 or FLOAT16
+ * @returns {Buffer}
+ */
+export function toBlob(vector: Array<number>, type: string): Buffer {
+    if (type === 'FLOAT16') {
+        const blob = Buffer.alloc(vector.length * 2);
+        vector.forEach((val, i) => blob.writeUInt16LE(toFloat16(val), i * 2));
+        return blob;
+    }
+    return Buffer.from(new Float32Array(vector).buffer);
+}
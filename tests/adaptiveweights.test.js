@@ -0,0 +1,52 @@
+import {describe, expect, test} from '@jest/globals';
+import { Score } from '../dist/models/Fusion.js'
+import { adaptiveFusion, adaptiveWeights, AdaptiveStrategy, queryFeatures } from '../dist/models/AdaptiveWeights.js'
+
+const cos = () => [new Score('a', 0.9), new Score('b', 0.85), new Score('c', 0.5)];
+const fts = () => [new Score('b', 4), new Score('a', 2), new Score('d', 1)];
+
+describe('adaptive weights tests', () => {
+    test('query features', () => {
+        const features = queryFeatures('silk fiber', cos(), fts());
+        expect(features.length).toBe(2);
+        expect(features.ftsSpread).toBeCloseTo(0.75);
+        expect(features.knnMargin).toBeCloseTo(0.05);
+        expect(features.overlap).toBeCloseTo(0.5);
+        expect(queryFeatures('', [], [])).toEqual({length: 0, ftsSpread: 0, knnMargin: 0, overlap: 0});
+        expect(queryFeatures('what is silk', [new Score('a', 0.9)], [new Score('a', 0)]))
+            .toEqual({length: 3, ftsSpread: 0, knnMargin: 0, overlap: 1});
+    });
+
+    test('built-in strategies', () => {
+        const features = {length: 2, ftsSpread: 0.75, knnMargin: 0.05, overlap: 0.5};
+        const close = (received, expected) => received.forEach((val, i) => expect(val).toBeCloseTo(expected[i]));
+        close(adaptiveWeights(features, AdaptiveStrategy.Length), [2/3, 4/3]);
+        close(adaptiveWeights(features, AdaptiveStrategy.Spread), [0.75, 1.25]);
+        close(adaptiveWeights(features, AdaptiveStrategy.Margin), [1, 1]);
+        const mean = (1/3 + 0.375 + 0.5) / 3;
+        close(adaptiveWeights(features, AdaptiveStrategy.Combined), [2 * (0.5 + (mean - 0.5) * 0.75), 2 * (0.5 - (mean - 0.5) * 0.75)]);
+
+        // long questions favor vectors, short keyword queries favor FTS
+        const [longCos, longFts] = adaptiveWeights({...features, length: 12}, AdaptiveStrategy.Length);
+        expect(longCos).toBeGreaterThan(longFts);
+        close(adaptiveWeights({...features, knnMargin: 0.5}, AdaptiveStrategy.Margin), [1.5, 0.5]);
+    });
+
+    test('custom strategy', () => {
+        const features = queryFeatures('silk fiber', cos(), fts());
+        expect(adaptiveWeights(features, (elm) => elm.length > 5 ? [1, 0.5] : [0.5, 1])).toEqual([0.5, 1]);
+        expect(() => adaptiveWeights(features, () => [-1, 1])).toThrow();
+        expect(() => adaptiveWeights(features, () => [NaN, 1])).toThrow();
+        expect(() => adaptiveWeights(features, 'bogus')).toThrow();
+    });
+
+    test('adaptive fusion', () => {
+        const queryScores = {qid: '1', results: {e5: cos(), bm25: fts()}};
+        const fusion = adaptiveFusion(queryScores, 'what is silk where it is found and what is it made up of', ['e5', 'bm25'], AdaptiveStrategy.Length);
+        expect(fusion.weights[0]).toBeCloseTo(2 * 14 / 18);
+        expect(fusion.rsf().map((elm) => elm.id)).toEqual(['b', 'a', 'c', 'd']);
+        expect(adaptiveFusion(queryScores, 'silk', ['e5', 'bm25'], () => [2, 0]).rsf().map((elm) => elm.id)).toEqual(['a', 'b', 'c', 'd']);
+        expect(adaptiveFusion(queryScores, 'silk', ['e5', 'bm25'], () => [0, 2]).rsf().map((elm) => elm.id)).toEqual(['b', 'a', 'c', 'd']);
+        expect(() => adaptiveFusion(queryScores, 'silk', ['e5', 'title'], AdaptiveStrategy.Length)).toThrow();
+    });
+});
@@ -0,0 +1,85 @@
+import {describe, expect, test, beforeAll, afterAll} from '@jest/globals';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+const run = (...args) => promisify(execFile)('node', ['dist/cli.js', ...args]);
+
+let dir;
+
+beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    fs.writeFileSync(path.join(dir, 'bm25.run'), 'q1 Q0 d1 1 9.5 bm25\nq1 Q0 d2 2 8.5 bm25\n');
+    fs.writeFileSync(path.join(dir, 'lists.csv'), 'qid,run,rank,id,score\nq1,dense,2,d1,0.8\nq1,dense,1,d3,0.9\n');
+    fs.writeFileSync(path.join(dir, 'qrels.txt'), 'q1 0 d1 1\nq1 0 d3 2\n');
+    fs.writeFileSync(path.join(dir, 'passages.jsonl'), [
+        'Silk is a natural protein fiber produced by silkworms.',
+        'Cotton is a soft fiber, a fiber that grows around the seeds of the cotton plant.',
+        'Wool fiber comes from sheep.',
+        'silk fiber silk fiber silk'
+    ].map((text, i) => JSON.stringify({qid: '1', pid: `p${i + 1}`, rank: i + 1, text: text})).join('\n') + '\n');
+});
+
+afterAll(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+});
+
+describe('cli tests', () => {
+    test('fuse', async () => {
+        const { stdout } = await run('fuse', path.join(dir, 'bm25.run'), path.join(dir, 'lists.csv'));
+        expect(stdout.split('\n')[0]).toBe(`q1 Q0 d1 1 ${1/60 + 1/61} fused-rrf`);
+
+        const out = path.join(dir, 'fused.jsonl');
+        await run('fuse', path.join(dir, 'bm25.run'), path.join(dir, 'lists.csv'), '--method', 'rrf,rsf', '--runs', 'dense',
+            '--format', 'json', '--out', out);
+        const rows = fs.readFileSync(out, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+        expect(rows.map((row) => [row.run, row.id])).toEqual([['fused-rrf', 'd3'], ['fused-rrf', 'd1'], ['fused-rsf', 'd3'], ['fused-rsf', 'd1']]);
+
+        await expect(run('fuse', path.join(dir, 'bm25.run'), '--weights', '1,2')).rejects.toThrow();
+        await expect(run('fuse', path.join(dir, 'bm25.run'), '--method', 'nope')).rejects.toThrow();
+    });
+
+    test('fuse with condorcet', async () => {
+        const { stdout } = await run('fuse', path.join(dir, 'bm25.run'), path.join(dir, 'lists.csv'), '--method', 'condorcet',
+            '--depth', '2');
+        expect(stdout.trim().split('\n').map((line) => line.split(' ')[2])).toEqual(['d1', 'd2']);
+
+        const deep = (name, offset) => {
+            const file = path.join(dir, `${name}.run`);
+            fs.writeFileSync(file, Array.from({length: 600}, (_, i) => `q1 Q0 d${i + offset} ${i + 1} ${600 - i} ${name}\n`).join(''));
+            return file;
+        };
+        await expect(run('fuse', deep('deep1', 0), deep('deep2', 500), '--method', 'rrf,condorcet'))
+            .rejects.toThrow(/Condorcet fuses at most 1000 distinct ids per query, query q1 has 1100/);
+    });
+
+    test('evaluate', async () => {
+        const { stdout } = await run('evaluate', path.join(dir, 'bm25.run'), path.join(dir, 'lists.csv'),
+            '--qrels', path.join(dir, 'qrels.txt'), '--format', 'csv');
+        const [header, bm25, dense] = stdout.trim().split('\n');
+        expect(header).toBe('run,k,queries,ndcg,map,mrr,recall,precision');
+        expect(bm25.startsWith('bm25,10,1,')).toBe(true);
+        expect(dense).toBe('dense,10,1,1,1,1,1,0.2');
+    });
+
+    test('search ranks each hybrid list by its own score', async () => {
+        const { stdout } = await run('search', '--backend', 'memory', '--embedding', 'hash', '--embedding-dim', '64',
+            '--passages', path.join(dir, 'passages.jsonl'), '--query', 'fiber', '--mode', 'hybrid', '--format', 'json');
+        const rows = stdout.trim().split('\n').map((line) => JSON.parse(line));
+        for (const name of ['cos', 'fts']) {
+            const list = rows.filter((row) => row.run === name);
+            expect(list.map((row) => row.rank)).toEqual([1, 2, 3, 4]);
+            const scores = list.map((row) => row.score);
+            expect(scores).toEqual([...scores].sort((a, b) => b - a));
+        }
+        // cosine similarity ranks p4, p1, p2, p3
+        expect(rows.filter((row) => row.run === 'fts').map((row) => row.id)).toEqual(['p4', 'p2', 'p3', 'p1']);
+    });
+
+    test('usage', async () => {
+        await expect(run()).rejects.toThrow(/usage/);
+        await expect(run('fuse', '--bogus')).rejects.toThrow(/usage/);
+    });
+});
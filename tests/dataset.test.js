@@ -0,0 +1,122 @@
+import {describe, expect, test, beforeAll, afterAll} from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { loadBeir, loadMarco, loadTrec, rankQrels, writeDataset } from '../dist/models/Dataset.js'
+import { readQrels } from '../dist/models/Evaluation.js'
+
+let dir;
+const write = (name, lines) => {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), {recursive: true});
+    fs.writeFileSync(file, lines.join('\n') + '\n');
+    return file;
+};
+
+beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dataset-'));
+    write('beir/corpus.jsonl', Array.from({length: 20}, (_, i) => JSON.stringify({_id: `d${i}`, title: i === 1 ? 'Silk' : '', text: `text ${i}`})));
+    write('beir/queries.jsonl', [
+        JSON.stringify({_id: 'q1', text: 'what is silk'}),
+        JSON.stringify({_id: 'q2', text: 'cotton'}),
+        JSON.stringify({_id: 'q3', text: 'wool'}),
+        JSON.stringify({_id: 'q9', text: 'not in the split'})
+    ]);
+    write('beir/qrels/test.tsv', ['query-id\tcorpus-id\tscore', 'q1\td1\t2', 'q1\td2\t1', 'q2\td3\t1', 'q3\td4\t1', 'q3\td99\t1']);
+    write('run.txt', ['q1 Q0 d5 2 9.1 bm25', 'q1 Q0 d1 1 9.5 bm25', 'q1 Q0 d6 3 8.0 bm25', 'q2 Q0 d3 1 7.0 bm25']);
+
+    write('trec/queries.tsv', ['q1\twhat is silk', 'q2\tcotton', 'q3\twool']);
+    write('trec/collection.tsv', ['d1\tsilk is a fiber', 'd3\tcotton\tplant', 'd5\tsilk road', 'd6\tsilkworm']);
+    write('trec/qrels.txt', ['q1 0 d1 3', 'q2 0 d3 1', 'q3 0 d4 1']);
+
+    write('marco/queries.jsonl', [JSON.stringify({qid: '1', q_str: '(silk)', query: 'what is silk'}), JSON.stringify({qid: '2', query: 'wool'})]);
+    write('marco/top100.txt', ['1 Q0 msmarco_passage_40_2 1 9 run', '1 Q0 msmarco_passage_7_5 2 8 run', '1 Q0 msmarco_passage_40_9 3 7 run',
+        '3 Q0 msmarco_passage_7_1 1 9 run']);
+    fs.mkdirSync(path.join(dir, 'marco/passages'));
+    fs.writeFileSync(path.join(dir, 'marco/passages/msmarco_passage_40.gz'), gzipSync([
+        JSON.stringify({pid: 'msmarco_passage_40_1', passage: 'other'}),
+        JSON.stringify({pid: 'msmarco_passage_40_2', passage: 'silk is a fiber'}),
+        JSON.stringify({pid: 'msmarco_passage_40_9', passage: 'silk road'})
+    ].join('\n')));
+    fs.writeFileSync(path.join(dir, 'marco/passages/msmarco_passage_7.gz'), gzipSync(JSON.stringify({pid: 'msmarco_passage_7_5', passage: 'silkworm'})));
+});
+
+afterAll(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+});
+
+describe('dataset tests', () => {
+    test('beir with sampled negatives', async () => {
+        const dataset = await loadBeir(path.join(dir, 'beir'), {passagesPerQuery: 4});
+        expect(dataset.queries).toEqual([{qid: 'q1', query: 'what is silk'}, {qid: 'q2', query: 'cotton'}, {qid: 'q3', query: 'wool'}]);
+        expect(dataset.qrels).toEqual({q1: {d1: 2, d2: 1}, q2: {d3: 1}, q3: {d4: 1, d99: 1}});
+        for (const query of dataset.queries) {
+            const passages = dataset.passages.filter((passage) => passage.qid === query.qid);
+            expect(passages).toHaveLength(4);
+            expect(passages.map((passage) => passage.rank)).toEqual([1, 2, 3, 4]);
+            expect(new Set(passages.map((passage) => passage.pid)).size).toBe(4);
+            Object.keys(dataset.qrels[query.qid]).filter((pid) => pid !== 'd99')
+                .forEach((pid) => expect(passages.map((passage) => passage.pid)).toContain(pid));
+        }
+        expect(dataset.passages.find((passage) => passage.pid === 'd1')).toMatchObject({text: 'text 1', title: 'Silk'});
+        expect(dataset.passages.find((passage) => passage.pid === 'd2').title).toBeUndefined();
+        expect(await loadBeir(path.join(dir, 'beir'), {passagesPerQuery: 4})).toEqual(dataset);
+    });
+
+    test('beir with a run and sampling', async () => {
+        const dataset = await loadBeir(path.join(dir, 'beir'), {run: path.join(dir, 'run.txt'), passagesPerQuery: 2});
+        expect(dataset.queries.map((query) => query.qid)).toEqual(['q1', 'q2']);
+        expect(dataset.passages.map((passage) => [passage.qid, passage.pid, passage.rank])).toEqual([['q1', 'd1', 1], ['q1', 'd5', 2], ['q2', 'd3', 1]]);
+
+        const sampled = await loadBeir(path.join(dir, 'beir'), {queries: 2, seed: 7});
+        expect(sampled.queries).toHaveLength(2);
+        expect(Object.keys(sampled.qrels)).toEqual(sampled.queries.map((query) => query.qid));
+        expect((await loadBeir(path.join(dir, 'beir'), {qids: ['q2']})).queries.map((query) => query.qid)).toEqual(['q2']);
+    });
+
+    test('trec', async () => {
+        const files = {queries: path.join(dir, 'trec/queries.tsv'), corpus: path.join(dir, 'trec/collection.tsv'), run: path.join(dir, 'run.txt')};
+        const dataset = await loadTrec({...files, qrels: path.join(dir, 'trec/qrels.txt')});
+        expect(dataset.queries.map((query) => query.qid)).toEqual(['q1', 'q2']);
+        expect(dataset.passages).toEqual([
+            {qid: 'q1', pid: 'd1', rank: 1, text: 'silk is a fiber'},
+            {qid: 'q1', pid: 'd5', rank: 2, text: 'silk road'},
+            {qid: 'q1', pid: 'd6', rank: 3, text: 'silkworm'},
+            {qid: 'q2', pid: 'd3', rank: 1, text: 'cotton\tplant'}
+        ]);
+        expect(dataset.qrels).toEqual({q1: {d1: 3}, q2: {d3: 1}});
+        expect((await loadTrec(files)).qrels).toEqual({q1: {d1: 3, d5: 2, d6: 1}, q2: {d3: 1}});
+    });
+
+    test('marco', async () => {
+        const dataset = await loadMarco({queries: path.join(dir, 'marco/queries.jsonl'), run: path.join(dir, 'marco/top100.txt'),
+            passages: path.join(dir, 'marco/passages')}, {passagesPerQuery: 2});
+        expect(dataset.queries).toEqual([{qid: '1', query: 'what is silk', q_str: '(silk)'}]);
+        expect(dataset.passages).toEqual([
+            {qid: '1', pid: '40_2', rank: 1, text: 'silk is a fiber'},
+            {qid: '1', pid: '7_5', rank: 2, text: 'silkworm'}
+        ]);
+        expect(dataset.qrels).toEqual({'1': {'40_2': 2, '7_5': 1}});
+    });
+
+    test('rank qrels', () => {
+        const passages = [
+            {qid: '1', pid: 'a', rank: 1}, {qid: '2', pid: 'c', rank: 1}, {qid: '1', pid: 'b', rank: 2}, {qid: '1', pid: 'd', rank: 3}
+        ];
+        expect(rankQrels(passages)).toEqual({'1': {a: 3, b: 2, d: 1}, '2': {c: 1}});
+    });
+
+    test('idempotent output', async () => {
+        const out = path.join(dir, 'out');
+        const dataset = await loadBeir(path.join(dir, 'beir'), {passagesPerQuery: 3});
+        await writeDataset(dataset, out);
+        const first = ['queries.jsonl', 'passages.jsonl', 'qrels.tsv'].map((name) => fs.readFileSync(path.join(out, name), 'utf8'));
+        await writeDataset(await loadBeir(path.join(dir, 'beir'), {passagesPerQuery: 3}), out);
+        const second = ['queries.jsonl', 'passages.jsonl', 'qrels.tsv'].map((name) => fs.readFileSync(path.join(out, name), 'utf8'));
+        expect(second).toEqual(first);
+        expect(first[1].trim().split('\n')).toHaveLength(9);
+        expect(await readQrels(path.join(out, 'qrels.tsv'))).toEqual(dataset.qrels);
+        expect(fs.readdirSync(out).sort()).toEqual(['passages.jsonl', 'qrels.tsv', 'queries.jsonl']);
+    });
+});
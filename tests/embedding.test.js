@@ -0,0 +1,140 @@
+import {describe, expect, test, beforeAll, afterAll, jest} from '@jest/globals';
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { HashEmbeddingProvider, HttpEmbeddingProvider, CachedEmbeddingProvider, embedBatched } from '../dist/models/Embedding.js'
+import { EmbeddingType } from '../dist/types.js'
+
+const cosine = (a, b) => a.reduce((acc, val, i) => acc + val * b[i], 0);
+
+describe('hash embedding tests', () => {
+    const embedder = new HashEmbeddingProvider(256);
+
+    test('dimension and norm', async () => {
+        const [vector] = await embedder.embed(['what is silk'], EmbeddingType.Query);
+        expect(vector).toHaveLength(256);
+        expect(cosine(vector, vector)).toBeCloseTo(1);
+    });
+
+    test('deterministic', async () => {
+        const first = await embedder.embed(['silk is a natural fiber'], EmbeddingType.Passage);
+        const second = await new HashEmbeddingProvider(256).embed(['silk is a natural fiber'], EmbeddingType.Query);
+        expect(first).toEqual(second);
+    });
+
+    test('lexical similarity', async () => {
+        const [query, related, unrelated] = await embedder.embed(
+            ['silk fiber', 'Silk is a natural protein fiber', 'credit score for an fha loan'], EmbeddingType.Passage);
+        expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    test('empty text', async () => {
+        const [vector] = await embedder.embed([''], EmbeddingType.Query);
+        expect(vector.every((val) => val === 0)).toBe(true);
+    });
+});
+
+describe('http embedding tests', () => {
+    const requests = [];
+    let server;
+    let url;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => body += chunk);
+            req.on('end', () => {
+                const json = JSON.parse(body);
+                requests.push({body: json, auth: req.headers['authorization']});
+                const data = json.input.map((text, i) => ({index: i, embedding: [text.length, i, 0]})).reverse();
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({data: data}));
+            });
+        });
+        await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${server.address().port}/v1/embeddings`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('batch', async () => {
+        const embedder = new HttpEmbeddingProvider({url: url, model: 'test-model', dim: 3, apiKey: 'secret'});
+        const vectors = await embedder.embed(['a', 'bb', 'ccc'], EmbeddingType.Passage);
+        expect(vectors).toEqual([[1, 0, 0], [2, 1, 0], [3, 2, 0]]);
+        expect(requests[0].body).toEqual({input: ['a', 'bb', 'ccc'], model: 'test-model', encoding_format: 'float', input_type: 'passage'});
+        expect(requests[0].auth).toBe('Bearer secret');
+    });
+
+    test('without input type', async () => {
+        const embedder = new HttpEmbeddingProvider({url: url, model: 'test-model', dim: 3, inputType: false});
+        await embedder.embed(['a'], EmbeddingType.Query);
+        expect(requests[1].body.input_type).toBeUndefined();
+        expect(requests[1].auth).toBeUndefined();
+    });
+
+    test('dimension mismatch', async () => {
+        const embedder = new HttpEmbeddingProvider({url: url, model: 'test-model', dim: 1024});
+        await expect(embedder.embed(['a'], EmbeddingType.Query)).rejects.toThrow();
+    });
+});
+
+describe('batching and cache tests', () => {
+    class CountingProvider {
+        model = 'counting';
+        dim = 2;
+        calls = [];
+        inFlight = 0;
+        maxInFlight = 0;
+
+        async embed(texts, type) {
+            this.calls.push({texts: texts, type: type});
+            this.inFlight++;
+            this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            this.inFlight--;
+            return texts.map((text) => [text.length, type === EmbeddingType.Query ? 1 : 0]);
+        }
+    }
+
+    test('batched', async () => {
+        const provider = new CountingProvider();
+        const texts = Array.from({length: 10}, (_, i) => 'x'.repeat(i + 1));
+        const vectors = await embedBatched(provider, texts, EmbeddingType.Passage, 3, 2);
+        expect(vectors.map((vector) => vector[0])).toEqual(texts.map((text) => text.length));
+        expect(provider.calls.map((call) => call.texts.length)).toEqual([3, 3, 3, 1]);
+        expect(provider.maxInFlight).toBe(2);
+    });
+
+    test('cache', async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cache-')), 'sub', 'embeddings.jsonl');
+        const provider = new CountingProvider();
+        const cached = new CachedEmbeddingProvider(provider, file);
+        expect(await cached.embed(['a', 'bb', 'a'], EmbeddingType.Passage)).toEqual([[1, 0], [2, 0], [1, 0]]);
+        expect(provider.calls).toEqual([{texts: ['a', 'bb'], type: EmbeddingType.Passage}]);
+        expect(await cached.embed(['a'], EmbeddingType.Query)).toEqual([[1, 1]]);
+        expect(provider.calls).toHaveLength(2);
+        expect(cached.misses).toBe(4);
+
+        fs.appendFileSync(file, '{"key": "truncated');
+        const reloaded = new CachedEmbeddingProvider(provider, file);
+        expect(await reloaded.embed(['bb', 'a'], EmbeddingType.Passage)).toEqual([[2, 0], [1, 0]]);
+        expect(provider.calls).toHaveLength(2);
+        expect(reloaded.hits).toBe(2);
+        await reloaded.embed(['ccc'], EmbeddingType.Passage);
+        expect(await new CachedEmbeddingProvider(provider, file).embed(['ccc'], EmbeddingType.Passage)).toEqual([[3, 0]]);
+        expect(provider.calls).toHaveLength(3);
+    });
+
+    test('cache writes recover from a failed write', async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cache-')), 'embeddings.jsonl');
+        const cached = new CachedEmbeddingProvider(new CountingProvider(), file);
+        const append = jest.spyOn(fs.promises, 'appendFile').mockRejectedValueOnce(new Error('disk full'));
+        await expect(cached.embed(['a'], EmbeddingType.Passage)).rejects.toThrow('disk full');
+        append.mockRestore();
+        expect(await cached.embed(['bb'], EmbeddingType.Passage)).toEqual([[2, 0]]);
+        expect(fs.readFileSync(file, 'utf8')).toContain('"vector":[2,0]');
+    });
+});
@@ -0,0 +1,60 @@
+import {describe, expect, test} from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { evaluate, ndcg, averagePrecision, reciprocalRank, recall, precision, readQrels, Gain } from '../dist/models/Evaluation.js'
+
+describe('evaluation tests', () => {
+    const relevance = {P1: 3, P2: 2, P3: 0, P4: 1};
+    const ranking = ['P3', 'P1', 'P5', 'P2'];
+
+    test('ndcg', () => {
+        const dcg = 7/Math.log2(3) + 3/Math.log2(5);
+        const idcg = 7 + 3/Math.log2(3) + 1/2;
+        expect(ndcg(ranking, relevance, 10)).toBeCloseTo(dcg / idcg);
+        expect(ndcg(ranking, relevance, 10, Gain.Linear)).toBeCloseTo((3/Math.log2(3) + 2/Math.log2(5)) / (3 + 2/Math.log2(3) + 1/2));
+        expect(ndcg(['P1', 'P2', 'P4'], relevance, 3)).toBeCloseTo(1);
+        expect(ndcg(ranking, relevance, 1)).toBe(0);
+    });
+
+    test('unretrieved relevant passages lower ndcg', () => {
+        expect(ndcg(['P1'], relevance, 10)).toBeLessThan(1);
+    });
+
+    test('map', () => {
+        expect(averagePrecision(ranking, relevance)).toBeCloseTo((1/2 + 2/4) / 3);
+        expect(averagePrecision(ranking, relevance, 3)).toBeCloseTo(1/2);
+    });
+
+    test('mrr', () => {
+        expect(reciprocalRank(ranking, relevance)).toBe(1/2);
+        expect(reciprocalRank(['P5'], relevance)).toBe(0);
+    });
+
+    test('recall and precision', () => {
+        expect(recall(ranking, relevance, 2)).toBeCloseTo(1/3);
+        expect(recall(ranking, relevance, 10)).toBeCloseTo(2/3);
+        expect(precision(ranking, relevance, 2)).toBe(1/2);
+        expect(precision(ranking, relevance, 10)).toBe(2/10);
+    });
+
+    test('evaluate', () => {
+        const results = [
+            {qid: 'Q1', scores: [{id: 'P1', score: 2, rank: 1}, {id: 'P2', score: 1, rank: 2}]},
+            {qid: 'Q3', scores: [{id: 'P9', score: 1, rank: 1}]}
+        ];
+        const qrels = {Q1: {P1: 1, P2: 1}, Q2: {P7: 2}, Q3: {P9: 0}};
+        const result = evaluate(results, qrels, {k: 5});
+        expect(result.queries.map((query) => query.qid)).toEqual(['Q1', 'Q2']);
+        expect(result.queries[0]).toEqual({qid: 'Q1', ndcg: 1, map: 1, mrr: 1, recall: 1, precision: 2/5});
+        expect(result.queries[1]).toEqual({qid: 'Q2', ndcg: 0, map: 0, mrr: 0, recall: 0, precision: 0});
+        expect(result.mean.ndcg).toBe(0.5);
+        expect(result.options).toEqual({k: 5, gain: Gain.Exponential, threshold: 1});
+    });
+
+    test('read qrels', async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'qrels-')), 'qrels.tsv');
+        fs.writeFileSync(file, 'Q1 0 P1 2\nQ1\t0\tP2\t0\n\nQ2 0 P3 1\n');
+        expect(await readQrels(file)).toEqual({Q1: {P1: 2, P2: 0}, Q2: {P3: 1}});
+    });
+});
@@ -0,0 +1,95 @@
+import {describe, expect, test, beforeAll} from '@jest/globals';
+import { HashEmbeddingProvider } from '../dist/models/Embedding.js'
+import { FeedbackMode, feedbackQueries, rm3, rocchio, weightedQuery } from '../dist/models/Feedback.js'
+import { MemoryBackend } from '../dist/models/MemoryBackend.js'
+import { retrieve } from '../dist/models/Retriever.js'
+import { QueryType } from '../dist/types.js'
+
+const passages = [
+    {qid: '1', pid: 'p1', rank: 1, text: 'Silk is a natural protein fiber produced by silkworms.'},
+    {qid: '1', pid: 'p2', rank: 2, text: 'Silkworms spin cocoons of raw silk protein.'},
+    {qid: '1', pid: 'p3', rank: 3, text: 'Cotton is a soft fiber that grows around the seeds of the cotton plant.'},
+    {qid: '1', pid: 'p4', rank: 4, text: 'The credit score needed for an FHA loan is 580.'},
+    {qid: '1', pid: 'p5', rank: 5, text: 'Sericulture farms raise silkworms on mulberry leaves.'}
+];
+
+describe('feedback tests', () => {
+    test('rm3 term weights', () => {
+        const terms = rm3('silk fiber', [{text: 'silk protein silk', weight: 3}, {text: 'cotton fiber', weight: 1}], 3, 0.5);
+        const weights = Object.fromEntries(terms.map((elm) => [elm.term, elm.weight]));
+        // P(w|R): silk 0.75 * 2/3 = 0.5, protein 0.25, cotton and fiber 0.125; the top 3 (ties by term) renormalized by 0.875
+        expect(weights['silk']).toBeCloseTo(0.5 * 0.5 + 0.5 * 0.5 / 0.875);
+        expect(weights['protein']).toBeCloseTo(0.5 * 0.25 / 0.875);
+        expect(weights['cotton']).toBeCloseTo(0.5 * 0.125 / 0.875);
+        expect(weights['fiber']).toBeCloseTo(0.5 * 0.5);
+        expect(terms.map((elm) => elm.term)).toEqual(['silk', 'fiber', 'protein', 'cotton']);
+        expect(terms.reduce((acc, elm) => acc + elm.weight, 0)).toBeCloseTo(1);
+    });
+
+    test('rm3 ignores stopwords and keeps the query with lambda 1', () => {
+        const terms = rm3('what is silk', [{text: 'the silk of the silkworm', weight: 1}], 10, 1);
+        expect(terms).toEqual([{term: 'silk', weight: 0.5}, {term: 'what', weight: 0.5}]);
+        expect(() => rm3('silk', [], 10, 1.5)).toThrow();
+    });
+
+    test('weighted query', () => {
+        expect(weightedQuery([{term: 'silk', weight: 0.4}, {term: 'fiber', weight: 0.1}, {term: 'e-commerce', weight: 0.02}]))
+            .toBe('(((silk) => { $weight: 1; }) | ((fiber) => { $weight: 0.25; }) | ((e\\-commerce) => { $weight: 0.05; }))');
+        expect(() => weightedQuery([])).toThrow();
+    });
+
+    test('rocchio', () => {
+        expect(rocchio([1, 0], [[0, 1], [0, 3]], 1, 0.5)).toEqual([1, 1]);
+        expect(rocchio([1, 0], [])).toEqual([1, 0]);
+        expect(() => rocchio([1, 0], [[1, 0, 0]])).toThrow();
+    });
+
+    describe('two-pass retrieval', () => {
+        const backend = new MemoryBackend(new HashEmbeddingProvider(256), {knn: 5, ftsLimit: 5});
+        const retrievers = [
+            {name: 'cos', backend: backend, queryType: QueryType.KNN},
+            {name: 'fts', backend: backend, queryType: QueryType.FTS}
+        ];
+        const texts = new Map(passages.map((passage) => [passage.pid, passage.text]));
+        const queries = [{qid: '1', query: 'silk protein'}];
+
+        beforeAll(async () => {
+            await backend.load(passages);
+        });
+
+        test('text feedback expands the text query', async () => {
+            const first = await retrieve(queries, retrievers);
+            expect(first[0].results.fts.map((elm) => elm.id).sort()).toEqual(['p1', 'p2']);
+            const [expanded] = await feedbackQueries(queries, first, retrievers, texts, {mode: FeedbackMode.Text, docs: 2, terms: 5});
+            expect(expanded.vectors).toBeUndefined();
+            expect(expanded.q_str).toContain('((silkworms) => { $weight:');
+            const [second] = await retrieve([expanded], retrievers);
+            // silkworms brings in p5, which shares no term with the original query
+            expect(second.results.fts.map((elm) => elm.id)).toContain('p5');
+            expect(second.results.fts.slice(0, 2).map((elm) => elm.id).sort()).toEqual(['p1', 'p2']);
+            expect(second.results.cos).toEqual(first[0].results.cos);
+        });
+
+        test('vector feedback shifts the query vector', async () => {
+            const first = await retrieve(queries, retrievers);
+            const [expanded] = await feedbackQueries(queries, first, retrievers, texts, {mode: FeedbackMode.Vector, docs: 2});
+            expect(expanded.q_str).toBeUndefined();
+            const vector = expanded.vectors['hash-ngram-3-256'];
+            expect(vector).toHaveLength(256);
+            const [second] = await retrieve([expanded], retrievers);
+            expect(second.results.fts).toEqual(first[0].results.fts);
+            expect(second.results.cos.map((elm) => elm.score)).not.toEqual(first[0].results.cos.map((elm) => elm.score));
+
+            const [both] = await feedbackQueries(queries, first, retrievers, texts, {docs: 2});
+            expect(both.q_str).toBeDefined();
+            expect(both.vectors['hash-ngram-3-256']).toEqual(vector);
+        });
+
+        test('queries without feedback passages are unchanged', async () => {
+            const first = await retrieve(queries, retrievers);
+            expect(await feedbackQueries(queries, first, retrievers, new Map())).toEqual(queries);
+            await expect(feedbackQueries(queries, first, retrievers, texts, {mode: 'both-sides'})).rejects.toThrow();
+            await expect(feedbackQueries([{qid: '2', query: 'loan'}], first, retrievers, texts)).rejects.toThrow();
+        });
+    });
+});
@@ -1,8 +1,10 @@
 import {describe, expect, test} from '@jest/globals';
-import { Score, Fusion } from '../dist/models/Fusion.js'
+import { Score, Fusion, Missing, Combiner, ExplainMethod, formatExplanation } from '../dist/models/Fusion.js'
+import { Normalization } from '../dist/models/Normalizer.js'
+
+const ids = (results) => results.map((elm) => elm.id);
 
 describe('fusion tests', () => {  
-    const showScores = false;
     const scores = [
         /* TFIDF */ [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
         /* COS   */ [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
@@ -11,23 +13,301 @@ describe('fusion tests', () => {
     const fusion = new Fusion(scores);
 
     test('borda', () => {
-        const result = fusion.borda(showScores);
+        const result = ids(fusion.borda());
         expect(result).toEqual(['P1','P3','P4','P2','P5']);
     });
 
     test('dbsf', () => {
-        const result = fusion.dbsf(showScores);
+        const result = ids(fusion.dbsf());
         expect(result).toEqual(['P1','P3','P4','P2','P5']);
     });
 
     test('rrf', () => {
-        const result = fusion.rrf(60, showScores);
+        const result = ids(fusion.rrf(60));
         expect(result).toEqual(['P3','P1','P4','P5','P2']);
     });
 
     test('rsf', () => {
-        const result = fusion.rsf(showScores);
+        const result = ids(fusion.rsf());
         expect(result).toEqual(['P1','P3','P4','P2','P5']);
     });
 
-});
\ No newline at end of file
+});
+
+describe('partial overlap tests', () => {
+    const scores = [
+        /* TFIDF */ [ new Score('P1', .1874), new Score('P2', .1241), new Score('P4', .2077)],
+        /* COS   */ [ new Score('P1', .6761), new Score('P3', .7479), new Score('P5', .6868), new Score('P6', .6304)]
+    ]
+
+    const fusion = new Fusion(scores);
+
+    test('union', () => {
+        expect([...fusion.ids].sort()).toEqual(['P1','P2','P3','P4','P5','P6']);
+    });
+
+    test('borda', () => {
+        expect(ids(fusion.borda())).toEqual(['P1','P3','P4','P5','P2','P6']);
+    });
+
+    test('borda absent', () => {
+        const result = ids(fusion.borda(undefined, {policy: Missing.Absent}));
+        expect(result.slice(0, 3)).toEqual(['P1','P3','P4']);
+    });
+
+    test('rrf', () => {
+        expect(ids(fusion.rrf(60))).toEqual(['P1','P3','P4','P5','P2','P6']);
+    });
+
+    test('rrf rank', () => {
+        const result = ids(fusion.rrf(60, undefined, {policy: Missing.Rank}));
+        expect(result).toEqual(['P3','P1','P4','P5','P2','P6']);
+    });
+
+    test('rsf', () => {
+        expect(ids(fusion.rsf())).toEqual(['P1','P3','P4','P5','P2','P6']);
+    });
+
+    test('dbsf floor', () => {
+        const result = ids(fusion.dbsf(undefined, {policy: Missing.Floor, floor: -3}));
+        expect(result[0]).toEqual('P1');
+        expect(result).toHaveLength(6);
+    });
+
+    test('weights length mismatch', () => {
+        expect(() => new Fusion(scores, [1])).toThrow();
+    });
+
+    test('duplicate ids', () => {
+        expect(() => new Fusion([[new Score('P1', .1), new Score('P1', .2)]])).toThrow();
+    });
+});
+
+describe('fused result tests', () => {
+    const scores = [
+        /* TFIDF */ [ new Score('P1', .1874), new Score('P2', .1241), new Score('P4', .2077)],
+        /* COS   */ [ new Score('P1', .6761), new Score('P3', .7479)]
+    ]
+
+    const fusion = new Fusion(scores);
+
+    test('structure', () => {
+        const result = fusion.rrf(60);
+        expect(result[0]).toEqual({id: 'P1', score: 1/61 + 1/61, rank: 1, ranks: [2, 2], scores: [.1874, .6761]});
+        expect(result[2]).toEqual({id: 'P4', score: 1/60, rank: 3, ranks: [1, null], scores: [.2077, null]});
+        expect(result.map((elm) => elm.rank)).toEqual([1, 2, 3, 4]);
+    });
+
+    test('topK', () => {
+        expect(ids(fusion.borda(2))).toEqual(['P1','P4']);
+        expect(fusion.rsf(10)).toHaveLength(4);
+        expect(() => fusion.dbsf(0)).toThrow();
+    });
+
+    test('tie-break', () => {
+        const tied = new Fusion([[new Score('B', 1), new Score('A', .5)], [new Score('C', 1), new Score('A', .5)]]);
+        expect(ids(tied.rrf(60))).toEqual(['A','B','C']);
+        const covered = new Fusion([[new Score('X', 1), new Score('Y', .5)], [new Score('Y', 1)]], [1, .5]);
+        expect(ids(covered.borda(undefined, {policy: Missing.Absent}))).toEqual(['Y','X']);
+        expect(ids(new Fusion([[new Score('C', 1)], [new Score('B', 1)]]).rrf(60))).toEqual(['B','C']);
+    });
+});
+
+describe('comb, isr and condorcet tests', () => {
+    const scores = [
+        /* TFIDF */ [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
+        /* COS   */ [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
+    ]
+
+    const fusion = new Fusion(scores);
+
+    test('combSum', () => {
+        expect(ids(fusion.combSum())).toEqual(ids(fusion.rsf()));
+    });
+
+    test('combMnz', () => {
+        const result = fusion.combMnz();
+        expect(ids(result)).toEqual(['P1','P3','P4','P2','P5']);
+        expect(result[0].score).toBeCloseTo(2 * fusion.combSum()[0].score);
+    });
+
+    test('combAnz', () => {
+        expect(ids(fusion.combAnz())).toEqual(['P1','P3','P4','P2','P5']);
+    });
+
+    test('combMax', () => {
+        expect(ids(fusion.combMax())).toEqual(['P3','P4','P1','P5','P2']);
+    });
+
+    test('combMin', () => {
+        expect(ids(fusion.combMin())).toEqual(['P1','P2','P3','P4','P5']);
+    });
+
+    test('combMed', () => {
+        expect(ids(fusion.combMed())).toEqual(ids(fusion.combAnz()));
+    });
+
+    test('isr', () => {
+        expect(ids(fusion.isr())).toEqual(['P3','P4','P1','P5','P2']);
+    });
+
+    test('weights', () => {
+        const weighted = new Fusion(scores, [1, 3]);
+        expect(ids(weighted.combSum())).toEqual(['P3','P1','P5','P2','P4']);
+        expect(ids(weighted.isr())).toEqual(['P3','P4','P5','P1','P2']);
+        expect(ids(weighted.condorcet())).toEqual(['P3','P5','P1','P2','P4']);
+    });
+
+    test('partial overlap', () => {
+        const partial = new Fusion([[new Score('P1', 2), new Score('P2', 1)], [new Score('P1', 1), new Score('P3', 0)]]);
+        expect(ids(partial.combMnz())).toEqual(['P1','P2','P3']);
+        expect(partial.combMin(undefined, {policy: Missing.Absent})).toHaveLength(3);
+        expect(partial.isr()[0]).toMatchObject({id: 'P1', score: 4});
+    });
+
+    test('condorcet', () => {
+        const voters = new Fusion([
+            [new Score('A', 3), new Score('B', 2), new Score('C', 1)],
+            [new Score('B', 3), new Score('C', 2), new Score('A', 1)],
+            [new Score('A', 3), new Score('C', 2), new Score('B', 1)]
+        ]);
+        const result = voters.condorcet();
+        expect(ids(result)).toEqual(['A','B','C']);
+        expect(result.map((elm) => elm.score)).toEqual([2, 1, 0]);
+        expect(() => voters.condorcet(undefined, {policy: Missing.Floor})).toThrow();
+        const long = new Fusion([Array.from({length: 1001}, (_, i) => new Score(`P${i}`, i))]);
+        expect(() => long.condorcet()).toThrow(/too many IDs/);
+    });
+});
+
+describe('normalizer and combiner tests', () => {
+    const scores = [
+        /* TFIDF */ [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077), new Score('P5', .0597)],
+        /* COS   */ [ new Score('P1', .6761), new Score('P2', .6549), new Score('P3', .7479), new Score('P4', .6304), new Score('P5', .6868)]
+    ]
+
+    const fusion = new Fusion(scores, [1, 2]);
+
+    test('rsf and dbsf', () => {
+        expect(fusion.fuse(Normalization.MinMax, Combiner.WeightedSum)).toEqual(fusion.rsf());
+        expect(fusion.fuse(Normalization.ZScore, Combiner.WeightedSum)).toEqual(fusion.dbsf());
+    });
+
+    test('sum ignores weights', () => {
+        expect(fusion.fuse(Normalization.MinMax, Combiner.Sum)).toEqual(new Fusion(scores).rsf());
+    });
+
+    test('max', () => {
+        expect(ids(fusion.fuse(Normalization.MinMax, Combiner.Max))).toEqual(ids(fusion.combMax()));
+    });
+
+    test('constant list', () => {
+        const constant = new Fusion([[new Score('P1', .5), new Score('P2', .5)], [new Score('P1', .9), new Score('P2', .1)]]);
+        for (const result of [constant.rsf(), constant.dbsf(), constant.combSum(), constant.fuse(Normalization.ThreeSigma)]) {
+            expect(result.every((elm) => Number.isFinite(elm.score))).toBe(true);
+            expect(ids(result)).toEqual(['P1','P2']);
+        }
+    });
+});
+
+describe('explain tests', () => {
+    const scores = () => [
+        [ new Score('P1', .1874), new Score('P2', .1241), new Score('P3', .081), new Score('P4', .2077)],
+        [ new Score('P1', .6761), new Score('P3', .7479), new Score('P5', .6868)]
+    ];
+    const fusions = {
+        [ExplainMethod.Borda]: (fusion, missing) => fusion.borda(undefined, missing),
+        [ExplainMethod.RRF]: (fusion, missing) => fusion.rrf(60, undefined, missing),
+        [ExplainMethod.RSF]: (fusion, missing) => fusion.rsf(undefined, missing),
+        [ExplainMethod.DBSF]: (fusion, missing) => fusion.dbsf(undefined, missing)
+    };
+
+    test('contributions add up to the fused scores', () => {
+        const fusion = new Fusion(scores(), [2, 0.5]);
+        for (const method of Object.values(ExplainMethod)) {
+            for (const missing of [undefined, {policy: Missing.Absent}, {policy: Missing.Rank}, {policy: Missing.Floor, floor: -1}]) {
+                const explanations = fusion.explain(method, undefined, missing);
+                const fused = fusions[method](fusion, missing);
+                expect(ids(explanations)).toEqual(ids(fused));
+                explanations.forEach((elm, i) => {
+                    expect(elm.score).toBe(fused[i].score);
+                    expect(elm.lists.reduce((a, list) => a + list.contribution, 0)).toBeCloseTo(elm.score, 12);
+                });
+            }
+        }
+    });
+
+    test('per-list values', () => {
+        const [p1, p3] = new Fusion(scores(), [2, 0.5]).explain(ExplainMethod.RRF, 2);
+        expect(p3.id).toBe('P3');
+        expect(p3.lists[0]).toEqual({rank: 4, score: .081, normalized: 1/63, weight: 2, contribution: 2/63});
+        expect(p3.lists[1]).toEqual({rank: 1, score: .7479, normalized: 1/60, weight: 0.5, contribution: 0.5/60});
+        expect(p1.id).toBe('P1');
+        expect(p1.lists[0].contribution).toBe(2/61);
+
+        const [, , , , p5] = new Fusion(scores()).explain(ExplainMethod.RSF);
+        expect(p5.id).toBe('P5');
+        expect(p5.lists[0]).toEqual({rank: null, score: null, normalized: null, weight: 1, contribution: 0});
+
+        const borda = new Fusion(scores()).explain(ExplainMethod.Borda);
+        expect(borda.find((elm) => elm.id === 'P5').lists[0]).toEqual({rank: null, score: null, normalized: 1, weight: 1, contribution: 1});
+        expect(() => new Fusion(scores()).explain('combsum')).toThrow();
+    });
+
+    test('table', () => {
+        const table = formatExplanation(new Fusion(scores()).explain(ExplainMethod.RRF, 2), ['tfidf', 'cos']).split('\n');
+        expect(table).toHaveLength(6);
+        expect(table[0]).toMatch(/^rank\s+id\s+score\s+\| list\s+rank\s+raw\s+value\s+weight\s+contribution$/);
+        expect(table[2]).toMatch(/^1\s+P3\s+0\.0325\s+\| tfidf\s+4\s+0\.0810\s+0\.0159\s+1\s+0\.0159$/);
+        expect(table[3]).toMatch(/^\s+\| cos\s+1\s+0\.7479\s+0\.0167\s+1\s+0\.0167$/);
+        expect(formatExplanation(new Fusion(scores()).explain(ExplainMethod.RSF)).split('\n')[10]).toMatch(/^5\s+P5\s+0\.1490\s+\| 0\s+-\s+-\s+-\s+1\s+0$/);
+    });
+});
+
+describe('fusion scaling tests', () => {
+    const random = (seed) => () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+    };
+    const lists = (next, count, size) => Array.from({length: count}, () => {
+        const ids = new Set();
+        while (ids.size < size) {
+            ids.add(`d${Math.floor(next() * size * 1.5)}`);
+        }
+        return [...ids].map((id) => new Score(id, Math.round(next() * 20) / 20));
+    });
+
+    test('inputs are not modified', () => {
+        const input = [[new Score('a', 1), new Score('b', 3), new Score('c', 2)], [new Score('c', 0.5), new Score('a', 0.9)]];
+        const copy = input.map((list) => list.map((elm) => ({...elm})));
+        const fusion = new Fusion(input);
+        fusion.rrf(60);
+        fusion.combMed();
+        expect(input.map((list) => list.map((elm) => ({...elm})))).toEqual(copy);
+        expect(fusion.rankings).toEqual([['b', 'c', 'a'], ['a', 'c']]);
+        expect(() => new Fusion([[new Score('a', 1), new Score('a', 2)]])).toThrow(/duplicate ID/);
+    });
+
+    test('topK selection equals the full ranking', () => {
+        const next = random(42);
+        for (let i = 0; i < 20; i++) {
+            const fusion = new Fusion(lists(next, 3, 200), [1, 0.5, 2]);
+            for (const fuse of [(topK) => fusion.rrf(60, topK), (topK) => fusion.rsf(topK), (topK) => fusion.combMnz(topK),
+                (topK) => fusion.isr(topK, {policy: Missing.Rank})]) {
+                const all = fuse();
+                for (const topK of [1, 10, 50, all.length]) {
+                    expect(fuse(topK)).toEqual(all.slice(0, topK));
+                }
+            }
+        }
+    });
+
+    test('batch', () => {
+        const next = random(7);
+        const batch = Array.from({length: 5}, () => lists(next, 2, 30));
+        const fused = Fusion.batch(batch, (fusion) => fusion.rrf(60, 5), [1, 2]);
+        expect(fused).toHaveLength(5);
+        fused.forEach((results, i) => expect(results).toEqual(new Fusion(batch[i], [1, 2]).rrf(60, 5)));
+        expect(() => Fusion.batch(batch, (fusion) => fusion.rrf(), [1])).toThrow();
+    });
+});
@@ -0,0 +1,53 @@
+import {describe, expect, test} from '@jest/globals';
+import { Score } from '../dist/models/Fusion.js'
+import { compareFusion, formatHarness } from '../dist/models/FusionHarness.js'
+import { ServerFusion } from '../dist/models/RedisBackend.js'
+
+/**
+ * Backend stand-in with fixed hybrid results and fixed server-side fusion results per query.
+ */
+function fakeBackend(server) {
+    const cos = [new Score('a', 0.9, 1), new Score('b', 0.7, 2), new Score('c', 0.5, 3)];
+    const fts = [new Score('b', 3, 2), new Score('a', 2, 1), new Score('c', 1, 3)];
+    return {
+        search: async (queries) => queries.map((query) => ({qid: query.qid, results: {cos: cos, fts: fts}})),
+        fuse: async (queries) => queries.map((query) => ({qid: query.qid, results: server[query.qid], ms: 1.5}))
+    };
+}
+
+const queries = [{qid: '1', query: 'silk'}, {qid: '2', query: 'cotton'}];
+
+describe('fusion harness tests', () => {
+    test('agreement and disagreement', async () => {
+        // client-side RSF: a = 1 + 0.5, b = 0.5 + 1, c = 0; ties are broken by ID
+        const backend = fakeBackend({
+            '1': [new Score('a', 1.5, 1), new Score('b', 1.5, 2), new Score('c', 0, 3)],
+            '2': [new Score('b', 1.5, 2), new Score('a', 1.4, 1)]
+        });
+        const report = await compareFusion(backend, queries, ServerFusion.RSF, {topK: 3});
+        expect(report.method).toBe(ServerFusion.RSF);
+        expect(report.queries[0]).toMatchObject({qid: '1', client: ['a', 'b', 'c'], agree: true, firstDifference: null, overlap: 1, maxScoreDiff: 0});
+        expect(report.queries[1]).toMatchObject({qid: '2', server: ['b', 'a'], agree: false, firstDifference: 0});
+        expect(report.queries[1].overlap).toBeCloseTo(2 / 3);
+        expect(report.queries[1].maxScoreDiff).toBeCloseTo(0.1);
+        expect(report.agreement).toBe(0.5);
+        expect(report.serverMs).toBe(1.5);
+        expect(report.clientMs).toBeGreaterThanOrEqual(0);
+
+        const text = formatHarness(report);
+        expect(text).toMatch(/^RSF server vs client: 50\.0% identical orderings/);
+        expect(text).toContain('2: differs at 0');
+        expect(text).toContain('client a b c');
+        expect(text).toContain('server b a');
+        expect(text).not.toContain('1: differs');
+    });
+
+    test('rrf', async () => {
+        const backend = fakeBackend({'1': [new Score('a', 0.03, 1)], '2': []});
+        const report = await compareFusion(backend, queries, ServerFusion.RRF, {topK: 1, k: 10});
+        expect(report.queries[0].client).toEqual(['a']);
+        expect(report.queries[0].agree).toBe(true);
+        expect(report.queries[0].maxScoreDiff).toBeCloseTo(1 / 10 + 1 / 11 - 0.03);
+        expect(report.queries[1]).toMatchObject({agree: false, overlap: 0, maxScoreDiff: null});
+    });
+});
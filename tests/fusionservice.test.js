@@ -0,0 +1,135 @@
+import {describe, expect, test, beforeAll, afterAll} from '@jest/globals';
+import { HashEmbeddingProvider } from '../dist/models/Embedding.js'
+import { MemoryBackend } from '../dist/models/MemoryBackend.js'
+import { createFusionServer, fuseLists, parseFuseRequest } from '../dist/models/FusionService.js'
+import { QueryType } from '../dist/types.js'
+
+const passages = [
+    {qid: '1', pid: 'p1', rank: 1, text: 'Silk is a natural protein fiber produced by silkworms.'},
+    {qid: '1', pid: 'p2', rank: 2, text: 'Silk road trade routes connected the East and West.'},
+    {qid: '1', pid: 'p3', rank: 3, text: 'Cotton is a soft fiber that grows around the seeds of the cotton plant.'}
+];
+const lists = [
+    [{id: 'a', score: 3}, {id: 'b', score: 2}],
+    [{id: 'b', score: 0.9}, {id: 'c', score: 0.1}]
+];
+
+let server;
+let url;
+
+const post = async (path, body) => {
+    const res = await fetch(`${url}${path}`, {method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body)});
+    return {status: res.status, body: await res.json()};
+};
+
+beforeAll(async () => {
+    const backend = new MemoryBackend(new HashEmbeddingProvider(64), {knn: 3, ftsLimit: 3});
+    await backend.load(passages);
+    server = createFusionServer({
+        retrievers: [
+            {name: 'cos', backend: backend, queryType: QueryType.UNI, list: 'cos'},
+            {name: 'fts', backend: backend, queryType: QueryType.UNI, list: 'fts'}
+        ],
+        texts: new Map(passages.map((passage) => [passage.pid, passage.text])),
+        maxBodySize: 1000
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+describe('fusion service tests', () => {
+    test('fuse', async () => {
+        const { status, body } = await post('/fuse', {lists: lists, method: 'rrf', k: 10});
+        expect(status).toBe(200);
+        expect(body.method).toBe('RRF');
+        expect(body.results.map((elm) => elm.id)).toEqual(['b', 'a', 'c']);
+        expect(body.results[0].score).toBeCloseTo(1/11 + 1/10);
+
+        const weighted = await post('/fuse', {lists: lists, method: 'RSF', weights: [0, 1], topK: 1});
+        expect(weighted.body.results.map((elm) => elm.id)).toEqual(['b']);
+    });
+
+    test('parse fuse request', () => {
+        const request = parseFuseRequest({lists: [[{id: 'x', score: 1}, {id: 'y', score: 2}]]});
+        expect(request.lists[0].map((elm) => [elm.id, elm.rank])).toEqual([['x', 1], ['y', 2]]);
+        expect(request.weights).toEqual([1]);
+        expect(request.k).toBe(60);
+    });
+
+    test('condorcet size limit', async () => {
+        const many = (n) => [Array.from({length: n}, (_, i) => ({id: `d${i}`, score: i}))];
+        expect(fuseLists(parseFuseRequest({lists: many(1000), method: 'condorcet', topK: 5}))).toHaveLength(5);
+        expect(() => fuseLists(parseFuseRequest({lists: many(1001), method: 'condorcet'}))).toThrow(/limited to 1000/);
+        expect(fuseLists(parseFuseRequest({lists: many(1001)}))).toHaveLength(1001);
+
+        const results = many(1001)[0].map((elm) => ({...elm, rank: 1}));
+        const backend = {
+            embedder: new HashEmbeddingProvider(64),
+            load: async () => undefined,
+            search: async (queries) => queries.map((query) => ({qid: query.qid, results: {cos: results, fts: []}}))
+        };
+        const wide = createFusionServer({retrievers: [{name: 'cos', backend: backend, queryType: QueryType.KNN}]});
+        await new Promise((resolve) => wide.listen(0, '127.0.0.1', resolve));
+        const search = async (method) => {
+            const res = await fetch(`http://127.0.0.1:${wide.address().port}/search`,
+                {method: 'POST', body: JSON.stringify({query: 'silk', method: method, topK: 3})});
+            return {status: res.status, body: await res.json()};
+        };
+        const rejected = await search('condorcet');
+        expect(rejected.status).toBe(400);
+        expect(rejected.body.error).toMatch(/limited to 1000/);
+        const fused = await search('rrf');
+        expect(fused.body.results.map((elm) => elm.id)).toEqual(['d1000', 'd999', 'd998']);
+        await new Promise((resolve) => wide.close(resolve));
+    });
+
+    test('fuse validation', async () => {
+        const invalid = [
+            [{}, /lists/],
+            [{lists: []}, /lists/],
+            [{lists: [{}]}, /list 0/],
+            [{lists: [[{id: 'a', score: 1}, {id: 'a', score: 2}]]}, /duplicate id a/],
+            [{lists: [[{id: 'a', score: '1'}]]}, /score/],
+            [{lists: [[{id: 1, score: 1}]]}, /id/],
+            [{lists: lists, method: 'best'}, /unknown method best/],
+            [{lists: lists, weights: [1]}, /weights/],
+            [{lists: lists, weights: [1, -1]}, /weights/],
+            [{lists: lists, k: 0}, /k must be/],
+            [{lists: lists, topK: 1.5}, /topK must be/],
+            [[lists], /JSON object/]
+        ];
+        for (const [body, message] of invalid) {
+            const res = await post('/fuse', body);
+            expect(res.status).toBe(400);
+            expect(res.body.error).toMatch(message);
+        }
+        expect((await post('/fuse', '{"lists": [')).body.error).toMatch(/not valid JSON/);
+    });
+
+    test('search', async () => {
+        const { status, body } = await post('/search', {query: 'silk fiber', topK: 2});
+        expect(status).toBe(200);
+        expect(body.results).toHaveLength(2);
+        expect(body.results[0].id).toBe('p1');
+        expect(body.results[0].text).toBe(passages[0].text);
+        expect(body.results.map((elm) => elm.rank)).toEqual([1, 2]);
+
+        expect((await post('/search', {query: ' '})).status).toBe(400);
+        expect((await post('/search', {query: 'silk', weights: [1, 1, 1]})).status).toBe(400);
+    });
+
+    test('routing', async () => {
+        expect((await fetch(`${url}/fuse`)).status).toBe(405);
+        expect((await post('/rank', {})).status).toBe(404);
+        expect((await post('/fuse', {lists: [[{id: 'x'.repeat(2000), score: 1}]]})).status).toBe(413);
+        const unconfigured = createFusionServer();
+        await new Promise((resolve) => unconfigured.listen(0, '127.0.0.1', resolve));
+        const res = await fetch(`http://127.0.0.1:${unconfigured.address().port}/search`, {method: 'POST', body: '{"query": "silk"}'});
+        expect(res.status).toBe(404);
+        await new Promise((resolve) => unconfigured.close(resolve));
+    });
+});
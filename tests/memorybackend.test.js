@@ -0,0 +1,114 @@
+import {describe, expect, test, beforeAll} from '@jest/globals';
+import { HashEmbeddingProvider } from '../dist/models/Embedding.js'
+import { MemoryBackend } from '../dist/models/MemoryBackend.js'
+import { TextScorer } from '../dist/models/SearchBackend.js'
+import { Fusion } from '../dist/models/Fusion.js'
+import { fieldQuery, QueryMode } from '../dist/models/QueryBuilder.js'
+import { QueryType } from '../dist/types.js'
+
+const passages = [
+    {qid: '1', pid: 'p1', rank: 1, text: 'Silk is a natural protein fiber produced by silkworms.'},
+    {qid: '1', pid: 'p2', rank: 2, text: 'Silk road trade routes connected the East and West.'},
+    {qid: '1', pid: 'p3', rank: 3, text: 'Cotton is a soft fiber that grows around the seeds of the cotton plant.'},
+    {qid: '1', pid: 'p4', rank: 4, text: 'The credit score needed for an FHA loan is 580.'},
+    {qid: '1', pid: 'p5', rank: 5, text: 'Natural fibers include silk, wool, and cotton fiber.'}
+];
+
+const ids = (scores) => scores.map((elm) => elm.id);
+const query = (q_str, text = 'silk fiber') => [{qid: '1', q_str: q_str, query: text}];
+
+describe('memory backend tests', () => {
+    const backend = new MemoryBackend(new HashEmbeddingProvider(256), {knn: 3});
+
+    beforeAll(async () => {
+        await backend.load(passages);
+    });
+
+    test('fts term intersection', async () => {
+        const [result] = await backend.search(query('silk fiber'), QueryType.FTS);
+        expect(ids(result.results.fts).sort()).toEqual(['p1', 'p5']);
+        expect(result.results.cos).toEqual([]);
+        expect(result.results.fts[0].score).toBeGreaterThanOrEqual(result.results.fts[1].score);
+    });
+
+    test('fts operators', async () => {
+        const search = async (q_str) => ids((await backend.search(query(q_str), QueryType.FTS))[0].results.fts).sort();
+        expect(await search('silk | cotton')).toEqual(['p1', 'p2', 'p3', 'p5']);
+        expect(await search('silk -road')).toEqual(['p1', 'p5']);
+        expect(await search('(silk -road) | credit')).toEqual(['p1', 'p4', 'p5']);
+        expect(await search('"silk road"')).toEqual(['p2']);
+        expect(await search('"road silk"')).toEqual([]);
+        expect(await search('silkw*')).toEqual(['p1']);
+        expect(await search('%cottn%')).toEqual(['p3', 'p5']);
+        expect(await search('@text:fha')).toEqual(['p4']);
+        expect(await search('the')).toEqual([]);
+    });
+
+    test('fts scorers', async () => {
+        const tfidf = new MemoryBackend(new HashEmbeddingProvider(256), {scorer: TextScorer.TFIDF});
+        await tfidf.load(passages);
+        // same tf and df, but p3 is normalized by its maximum term frequency (cotton, 2)
+        const [result] = await tfidf.search(query('soft | credit'), QueryType.FTS);
+        expect(ids(result.results.fts)).toEqual(['p4', 'p3']);
+        expect(result.results.fts[1].score).toBeCloseTo(result.results.fts[0].score / 2);
+
+        const dismax = new MemoryBackend(new HashEmbeddingProvider(256), {scorer: TextScorer.DISMAX});
+        await dismax.load(passages);
+        const [counts] = await dismax.search(query('fiber | cotton'), QueryType.FTS);
+        expect(counts.results.fts.map((elm) => [elm.id, elm.score])).toEqual([['p3', 3], ['p5', 2], ['p1', 1]]);
+    });
+
+    test('knn', async () => {
+        const [result] = await backend.search(query('', 'silk fiber'), QueryType.KNN);
+        expect(result.results.cos).toHaveLength(3);
+        expect(result.results.fts).toEqual([]);
+        const scores = result.results.cos.map((elm) => elm.score);
+        expect(scores).toEqual([...scores].sort((a, b) => b - a));
+        scores.forEach((score) => expect(score).toBeLessThanOrEqual(1));
+        expect(ids(result.results.cos)).not.toContain('p4');
+    });
+
+    test('hybrid feeds fusion', async () => {
+        const [result] = await backend.search(query('fiber'), QueryType.HYB);
+        expect(ids(result.results.cos).sort()).toEqual(['p1', 'p3', 'p5']);
+        expect(ids(result.results.fts).sort()).toEqual(['p1', 'p3', 'p5']);
+        expect(result.results.cos.find((elm) => elm.id === 'p3').rank).toBe(3);
+        const fused = new Fusion([result.results.cos, result.results.fts]).rrf();
+        expect(fused).toHaveLength(3);
+    });
+
+    test('union retrieves independent lists', async () => {
+        const union = new MemoryBackend(new HashEmbeddingProvider(256), {knn: 2, ftsLimit: 1});
+        await union.load(passages);
+        const [result] = await union.search(query('cotton', 'credit score'), QueryType.UNI);
+        expect(ids(result.results.fts)).toEqual(['p3']);
+        expect(result.results.cos).toHaveLength(2);
+        expect(ids(result.results.cos)[0]).toBe('p4');
+        const [knn] = await union.search(query('cotton', 'credit score'), QueryType.KNN);
+        expect(result.results.cos).toEqual(knn.results.cos);
+        const fused = new Fusion([result.results.cos, result.results.fts]).rrf();
+        expect(ids(fused)).toContain('p3');
+        expect(ids(fused)).toContain('p4');
+    });
+
+    test('generated and field-weighted text queries', async () => {
+        const [generated] = await backend.search([{qid: '1', query: 'What is a silk fiber?'}], QueryType.FTS);
+        expect(ids(generated.results.fts).sort()).toEqual(['p1', 'p2', 'p3', 'p5']);
+        const and = new MemoryBackend(new HashEmbeddingProvider(256), {query: {mode: QueryMode.And}});
+        await and.load(passages);
+        const [result] = await and.search([{qid: '1', query: 'Is silk a fiber?'}], QueryType.FTS);
+        expect(ids(result.results.fts).sort()).toEqual(['p1', 'p5']);
+        const [weighted] = await backend.search(query(fieldQuery('(road)', {text: 1, title: 2})), QueryType.FTS);
+        expect(ids(weighted.results.fts)).toEqual(['p2']);
+    });
+
+    test('weighted clauses', async () => {
+        const dismax = new MemoryBackend(new HashEmbeddingProvider(256), {scorer: TextScorer.DISMAX});
+        await dismax.load(passages);
+        const search = async (q_str) => (await dismax.search(query(q_str), QueryType.FTS))[0].results.fts.map((elm) => [elm.id, elm.score]);
+        expect(await search('((cotton) => { $weight: 0.5; }) | ((silk) => { $weight: 2; })'))
+            .toEqual([['p5', 2.5], ['p1', 2], ['p2', 2], ['p3', 1]]);
+        expect(await search('(cotton | ((silk) => { $weight: 3; })) => { $weight: 2; }')).toEqual([['p5', 8], ['p1', 6], ['p2', 6], ['p3', 4]]);
+        expect(await search('((silk) => { $weight: 2; }) | silk')).toEqual([['p1', 2], ['p2', 2], ['p5', 2]]);
+    });
+});
@@ -1,8 +1,12 @@
 import axios from 'axios';
 import {describe, expect, test} from '@jest/globals';
+import process from 'node:process';
+
+/* Requires a running NIM container; set NIM_URL (e.g. http://localhost:8000/v1/embeddings) to enable. */
+const NIM_URL = process.env.NIM_URL;
 
 async function getEmbeddingLen() {
-    const res = await axios.post('http://localhost:8000/v1/embeddings', {
+    const res = await axios.post(NIM_URL, {
         input: ["Hello world"],
         model: "nvidia/nv-embedqa-e5-v5",
         input_type: "passage"
@@ -10,9 +14,9 @@ async function getEmbeddingLen() {
     return res.data.data[0].embedding.length;
 }
 
-describe('Embedding tests', () => {
+(NIM_URL ? describe : describe.skip)('Embedding tests', () => {
     test('embedding length', async() => {
         const len = await getEmbeddingLen();
         expect(len).toBe(1024);
     });
-});
\ No newline at end of file
+});
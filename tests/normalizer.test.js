@@ -0,0 +1,59 @@
+import {describe, expect, test} from '@jest/globals';
+import { normalize, Normalization } from '../dist/models/Normalizer.js'
+
+describe('normalizer tests', () => {
+    const scores = [4, 3, 2, 1];
+    const constant = [.5, .5, .5];
+
+    test('minmax', () => {
+        expect(normalize(scores, Normalization.MinMax)).toEqual([1, 2/3, 1/3, 0]);
+        expect(normalize(constant, Normalization.MinMax)).toEqual([1, 1, 1]);
+    });
+
+    test('zscore', () => {
+        const result = normalize(scores, Normalization.ZScore);
+        expect(result.reduce((a, b) => a + b, 0)).toBeCloseTo(0);
+        expect(result[0]).toBeCloseTo(1.5 / Math.sqrt(1.25));
+        expect(normalize(constant, Normalization.ZScore)).toEqual([0, 0, 0]);
+    });
+
+    test('sum', () => {
+        expect(normalize(scores, Normalization.Sum)).toEqual([.4, .3, .2, .1]);
+        expect(normalize([0, 0], Normalization.Sum)).toEqual([.5, .5]);
+    });
+
+    test('rank', () => {
+        expect(normalize([2, 5, 2, 1], Normalization.Rank)).toEqual([.75, 1, .75, .25]);
+        expect(normalize(constant, Normalization.Rank)).toEqual([1, 1, 1]);
+    });
+
+    test('squashing', () => {
+        expect(normalize([0, 1], Normalization.Arctan)).toEqual([0, .5]);
+        expect(normalize([0, 1], Normalization.Tanh)).toEqual([0, Math.tanh(1)]);
+    });
+
+    test('three sigma', () => {
+        const result = normalize(scores, Normalization.ThreeSigma);
+        expect(result[0] + result[3]).toBeCloseTo(1);
+        expect(result.every((val) => val >= 0 && val <= 1)).toBe(true);
+        expect(normalize(constant, Normalization.ThreeSigma)).toEqual([.5, .5, .5]);
+    });
+
+    test('inexact constant lists', () => {
+        // the mean of these values is not exactly 0.4216 in binary, which left a deviation of about 1e-17
+        for (const val of [0.4216, 0.1, 0.7, 1/3, 12.345]) {
+            const inexact = new Array(6).fill(val);
+            expect(normalize(inexact, Normalization.ZScore)).toEqual(new Array(6).fill(0));
+            expect(normalize(inexact, Normalization.ThreeSigma)).toEqual(new Array(6).fill(.5));
+        }
+    });
+
+    test('custom', () => {
+        expect(normalize([3, 1], (arr) => arr.map((val) => val / 10))).toEqual([.3, .1]);
+        expect(() => normalize([3, 1], () => [1])).toThrow();
+    });
+
+    test('empty', () => {
+        expect(normalize([], Normalization.MinMax)).toEqual([]);
+    });
+});
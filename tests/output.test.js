@@ -0,0 +1,37 @@
+import {describe, expect, test} from '@jest/globals';
+import { formatRows, OutputFormat, parseRows } from '../dist/utils/output.js'
+
+const rows = [
+    {qid: 'q1', run: 'rrf', rank: 1, id: 'd1', score: 0.5},
+    {qid: 'q1', run: 'rrf', rank: 2, id: 'd,2', score: 0.25}
+];
+
+describe('output tests', () => {
+    test('json', () => {
+        const text = formatRows(rows, OutputFormat.JSON);
+        expect(text.split('\n')).toHaveLength(3);
+        expect(parseRows(text, OutputFormat.JSON)).toEqual(rows);
+    });
+
+    test('csv', () => {
+        const text = formatRows([...rows, {qid: 'q2', run: 'say "hi"', rank: 1, id: 'd3', score: 1, note: 'x'}], OutputFormat.CSV);
+        expect(text).toBe('qid,run,rank,id,score,note\nq1,rrf,1,d1,0.5,\nq1,rrf,2,"d,2",0.25,\nq2,"say ""hi""",1,d3,1,x\n');
+        expect(parseRows(text, OutputFormat.CSV)[1]).toEqual({qid: 'q1', run: 'rrf', rank: '2', id: 'd,2', score: '0.25', note: ''});
+        expect(parseRows(text, OutputFormat.CSV)[2]['run']).toBe('say "hi"');
+    });
+
+    test('markdown', () => {
+        expect(formatRows([{run: 'a|b', ndcg: 0.51234, queries: 10}, {run: 'c', ndcg: 1, queries: 9}], OutputFormat.Markdown)).toBe(
+            '| run | ndcg | queries |\n| --- | ---: | ---: |\n| a\\|b | 0.5123 | 10 |\n| c | 1.0000 | 9 |\n');
+    });
+
+    test('trec', () => {
+        expect(formatRows(rows, OutputFormat.TREC)).toBe('q1 Q0 d1 1 0.5 rrf\nq1 Q0 d,2 2 0.25 rrf\n');
+        expect(() => formatRows([{qid: 'q1', id: 'd1'}], OutputFormat.TREC)).toThrow();
+        expect(() => formatRows([{...rows[0], run: 'two words'}], OutputFormat.TREC)).toThrow();
+    });
+
+    test('empty', () => {
+        expect(formatRows([], OutputFormat.Markdown)).toBe('');
+    });
+});
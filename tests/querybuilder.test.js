@@ -0,0 +1,52 @@
+import {describe, expect, test} from '@jest/globals';
+import { buildQuery, escape, fieldQuery, QueryMode, textQuery } from '../dist/models/QueryBuilder.js'
+
+describe('query builder tests', () => {
+    test('escape', () => {
+        expect(escape('silk')).toBe('silk');
+        expect(escape('glass-steagall act')).toBe('glass\\-steagall\\ act');
+        expect(escape('@text:(a|b) -c "d" %e% f*')).toBe('\\@text\\:\\(a\\|b\\)\\ \\-c\\ \\"d\\"\\ \\%e\\%\\ f\\*');
+        expect(escape('40_213673349')).toBe('40_213673349');
+    });
+
+    test('modes', () => {
+        expect(buildQuery('What is Silk made of?')).toBe('(what|silk|made)');
+        expect(buildQuery('What is Silk made of?', {mode: QueryMode.And})).toBe('(what silk made)');
+        expect(buildQuery('What is Silk made of?', {mode: QueryMode.Phrase})).toBe('"what silk made"');
+    });
+
+    test('special characters never reach the query syntax', () => {
+        expect(buildQuery('credit-score | (fha) loan* "-"')).toBe('(credit|score|fha|loan)');
+        expect(() => buildQuery('?! --')).toThrow();
+    });
+
+    test('stopwords', () => {
+        expect(buildQuery('the silk and the road', {stopwords: false})).toBe('(the|silk|and|road)');
+        expect(buildQuery('the silk and the road', {stopwords: false, mode: QueryMode.Phrase})).toBe('"the silk and the road"');
+        expect(buildQuery('to be or not to be')).toBe('(to|be|or|not)');
+    });
+
+    test('fuzzy and prefix', () => {
+        expect(buildQuery('silk fiber', {fuzzy: 1})).toBe('(%silk%|%fiber%)');
+        expect(buildQuery('silk fiber', {fuzzy: 2, mode: QueryMode.And})).toBe('(%%silk%% %%fiber%%)');
+        expect(buildQuery('silk fiber', {prefix: true})).toBe('(silk*|fiber*)');
+        expect(() => buildQuery('silk', {fuzzy: 1, prefix: true})).toThrow();
+        expect(() => buildQuery('silk', {fuzzy: 4})).toThrow();
+    });
+
+    test('fields', () => {
+        expect(fieldQuery('(silk)')).toBe('@text:(silk)');
+        expect(fieldQuery('(silk)', {title: 1})).toBe('@title:(silk)');
+        expect(fieldQuery('(silk)', {text: 2})).toBe('(((@text:(silk)) => { $weight: 2; }))');
+        expect(fieldQuery('(silk)', {text: 1, title: 2})).toBe(
+            '(((@text:(silk)) => { $weight: 1; }) | ((@title:(silk)) => { $weight: 2; }))');
+        expect(() => fieldQuery('(silk)', {})).toThrow();
+        expect(() => fieldQuery('(silk)', {text: 1, title: 0})).toThrow();
+    });
+
+    test('text query', () => {
+        expect(textQuery({qid: '1', query: 'what is silk', q_str: '(silk)'})).toBe('(silk)');
+        expect(textQuery({qid: '1', query: 'types of misdemeanor charges'})).toBe('(types|misdemeanor|charges)');
+        expect(textQuery({qid: '1', query: 'types of misdemeanor charges'}, {mode: QueryMode.And})).toBe('(types misdemeanor charges)');
+    });
+});
@@ -0,0 +1,348 @@
+import {describe, expect, test} from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { HashEmbeddingProvider } from '../dist/models/Embedding.js'
+import { DistanceMetric, fusionExpression, RedisBackend, ServerFusion, VectorType } from '../dist/models/RedisBackend.js'
+import { FeedbackMode, feedbackQueries } from '../dist/models/Feedback.js'
+import { Fusion, Score } from '../dist/models/Fusion.js'
+import { retrieve } from '../dist/models/Retriever.js'
+import { TextScorer } from '../dist/models/SearchBackend.js'
+import { QueryType } from '../dist/types.js'
+import { toFloat16 } from '../dist/utils/vector.js'
+
+/**
+ * Stand-in for a node-redis client that records index and aggregate commands and stores JSON documents.  The
+ * first failures pipelines are rejected.
+ */
+function fakeClient(indexes = [], failures = 0) {
+    const calls = {create: [], drop: [], aggregate: [], set: []};
+    const docs = new Map();
+    return {
+        calls: calls,
+        docs: docs,
+        json: {
+            mGet: async (keys, path) => keys.map((key) => docs.has(key) ? [docs.get(key)[path.slice(2)]].filter((val) => val !== undefined) : null)
+        },
+        ft: {
+            _list: async () => indexes,
+            create: async (...args) => calls.create.push(args),
+            dropIndex: async (...args) => calls.drop.push(args),
+            aggregate: async (...args) => {
+                calls.aggregate.push(args);
+                return {results: [{qid: '["1"]', pid: '["p1"]', rank: '[1]', __score: '2.5', cos_score: '0.9'}]};
+            }
+        },
+        multi: () => {
+            const sets = [];
+            const pipeline = {
+                json: {set: (key, path, value) => sets.push([key, value])},
+                execAsPipeline: async () => {
+                    if (failures-- > 0) {
+                        throw new Error('connection lost');
+                    }
+                    sets.forEach(([key, value]) => docs.set(key, value));
+                    calls.set.push(...sets);
+                    return [];
+                }
+            };
+            return pipeline;
+        }
+    };
+}
+
+const embedder = new HashEmbeddingProvider(8);
+const query = {qid: '1', query: 'silk fiber', q_str: '(silk)'};
+
+describe('redis backend tests', () => {
+    test('default schema', () => {
+        const schema = new RedisBackend(fakeClient(), embedder).schema();
+        expect(Object.keys(schema)).toEqual(['$.text', '$.qid', '$.vector']);
+        expect(schema['$.qid']).toEqual({type: 'TAG', AS: 'qid'});
+        expect(schema['$.vector']).toEqual({type: 'VECTOR', AS: 'vector', ALGORITHM: 'FLAT', TYPE: 'FLOAT32', DIM: 8, DISTANCE_METRIC: 'COSINE'});
+    });
+
+    test('hnsw, float16 and extra fields', () => {
+        const schema = new RedisBackend(fakeClient(), embedder, {schema: {
+            text: [{name: 'text'}, {name: 'title', weight: 2}],
+            vectors: [
+                {name: 'vector', source: 'text', algorithm: 'HNSW', metric: DistanceMetric.IP, type: VectorType.Float16, m: 32, efConstruction: 400},
+                {name: 'title_vector', source: 'title', algorithm: 'FLAT', metric: DistanceMetric.L2, type: VectorType.Float32}
+            ],
+            qidTag: false
+        }}).schema();
+        expect(Object.keys(schema)).toEqual(['$.text', '$.title', '$.vector', '$.title_vector']);
+        expect(schema['$.title']).toEqual({type: 'TEXT', AS: 'title', WEIGHT: 2});
+        expect(schema['$.vector']).toEqual({type: 'VECTOR', AS: 'vector', ALGORITHM: 'HNSW', TYPE: 'FLOAT16', DIM: 8,
+            DISTANCE_METRIC: 'IP', M: 32, EF_CONSTRUCTION: 400});
+    });
+
+    test('invalid options', () => {
+        expect(() => new RedisBackend(fakeClient(), embedder, {vectorField: 'title_vector'})).toThrow();
+        expect(() => new RedisBackend(fakeClient(), embedder, {filterQid: true, schema: {qidTag: false}})).toThrow();
+        expect(() => new RedisBackend(fakeClient(), embedder, {scorer: 'BM42'})).toThrow();
+    });
+
+    test('idempotent index creation', async () => {
+        const created = fakeClient();
+        expect(await new RedisBackend(created, embedder).createIndex()).toBe(true);
+        expect(created.calls.create[0][0]).toBe('idx');
+        expect(created.calls.create[0][2]).toEqual({ON: 'JSON', PREFIX: 'passage:'});
+
+        const existing = fakeClient(['idx']);
+        expect(await new RedisBackend(existing, embedder).createIndex()).toBe(false);
+        expect(existing.calls.create).toHaveLength(0);
+        expect(existing.calls.drop).toHaveLength(0);
+
+        const recreated = fakeClient(['idx']);
+        expect(await new RedisBackend(recreated, embedder, {recreate: true}).createIndex()).toBe(true);
+        expect(recreated.calls.drop).toHaveLength(1);
+        expect(recreated.calls.create).toHaveLength(1);
+    });
+
+    test('load embeds every vector field', async () => {
+        const client = fakeClient();
+        const backend = new RedisBackend(client, embedder, {schema: {prefix: 'doc:', vectors: [
+            {name: 'vector', source: 'text', algorithm: 'FLAT', metric: DistanceMetric.Cosine, type: VectorType.Float32},
+            {name: 'title_vector', source: 'title', algorithm: 'FLAT', metric: DistanceMetric.Cosine, type: VectorType.Float32}
+        ]}});
+        await backend.load([
+            {qid: '1', pid: 'p1', rank: 1, text: 'silk fiber', title: 'Silk'},
+            {qid: '1', pid: 'p2', rank: 2, text: 'cotton fiber'}
+        ]);
+        expect(client.calls.set.map(([key]) => key)).toEqual(['doc:p1', 'doc:p2']);
+        expect(client.calls.set[0][1].vector).toHaveLength(8);
+        expect(client.calls.set[0][1].title_vector).toHaveLength(8);
+        expect(client.calls.set[1][1].title_vector).toBeUndefined();
+    });
+
+    test('query construction', async () => {
+        const client = fakeClient();
+        const backend = new RedisBackend(client, embedder, {scorer: TextScorer.BM25, knn: 5, filterQid: true, schema: {vectors: [
+            {name: 'vector', source: 'text', algorithm: 'HNSW', metric: DistanceMetric.L2, type: VectorType.Float16, efRuntime: 50}
+        ]}});
+        const [fts] = await backend.search([query], QueryType.FTS);
+        expect(fts.results.fts[0]).toEqual({id: 'p1', score: 2.5, rank: 1});
+        const [, qstr, options] = client.calls.aggregate[0];
+        expect(qstr).toBe('@qid:{1} @text:(silk)');
+        expect(options.SCORER).toBe('BM25');
+
+        await backend.search([query], QueryType.HYB);
+        const [, hybStr, hybOptions] = client.calls.aggregate[1];
+        expect(hybStr).toBe('(@qid:{1} @text:(silk))=>[KNN 5 @vector $qvec EF_RUNTIME 50 AS dist]');
+        expect(hybOptions.PARAMS.qvec).toHaveLength(16);
+        expect(hybOptions.STEPS[0].expression).toBe('1/(1 + @dist)');
+
+        await new RedisBackend(client, embedder).search([query], QueryType.KNN);
+        const [, knnStr, knnOptions] = client.calls.aggregate[2];
+        expect(knnStr).toBe('*=>[KNN 10 @vector $qvec AS dist]');
+        expect(knnOptions.SCORER).toBe('TFIDF');
+        expect(knnOptions.PARAMS.qvec).toHaveLength(32);
+        expect(knnOptions.STEPS[0].expression).toBe('(2 - @dist)/2');
+    });
+
+    test('generated queries match passages of other queries', async () => {
+        // the fake index answers with a passage of query 1
+        const client = fakeClient();
+        const backend = new RedisBackend(client, embedder);
+        const generated = {qid: '2', query: 'What was taught in tenth grade?'};
+        for (const queryType of [QueryType.FTS, QueryType.HYB, QueryType.UNI]) {
+            const [result] = await backend.search([generated], queryType);
+            expect(result.qid).toBe('2');
+            expect(result.results.fts.map((elm) => elm.id)).toEqual(['p1']);
+        }
+        expect(client.calls.aggregate[0][1]).toBe('@text:(what|taught|tenth|grade)');
+        const filtered = new RedisBackend(client, embedder, {filterQid: true});
+        await expect(filtered.search([generated], QueryType.FTS)).rejects.toThrow();
+    });
+
+    test('text feedback queries', async () => {
+        const client = fakeClient();
+        const backend = new RedisBackend(client, embedder);
+        const retrievers = [
+            {name: 'cos', backend: backend, queryType: QueryType.KNN},
+            {name: 'fts', backend: backend, queryType: QueryType.FTS}
+        ];
+        const queries = [{qid: '2', query: 'what is silk'}];
+        const texts = new Map([['p1', 'Silk is a natural protein fiber produced by silkworms.']]);
+        const first = await retrieve(queries, retrievers);
+        const [expanded] = await feedbackQueries(queries, first, retrievers, texts, {mode: FeedbackMode.Text, docs: 1});
+        const [second] = await retrieve([expanded], retrievers);
+        expect(second.results.fts.map((elm) => elm.id)).toEqual(['p1']);
+        const qstr = client.calls.aggregate.map((args) => args[1]).find((elm) => elm.includes('silkworms'));
+        expect(qstr).toContain('((silkworms) => { $weight:');
+    });
+
+    test('float16', () => {
+        expect(toFloat16(0)).toBe(0x0000);
+        expect(toFloat16(-0)).toBe(0x8000);
+        expect(toFloat16(1)).toBe(0x3c00);
+        expect(toFloat16(-2)).toBe(0xc000);
+        expect(toFloat16(0.5)).toBe(0x3800);
+        expect(toFloat16(65504)).toBe(0x7bff);
+        expect(toFloat16(1e6)).toBe(0x7c00);
+        expect(toFloat16(Math.pow(2, -24))).toBe(0x0001);
+        expect(toFloat16(1e-10)).toBe(0x0000);
+        expect(toFloat16(NaN)).toBe(0x7e00);
+        expect(toFloat16(1 / 3)).toBe(0x3555);
+    });
+
+    test('fusion expressions', () => {
+        const stats = {cos: {min: 0.5, max: 0.9}, fts: {min: 1, max: 3}, n: 3};
+        const options = {weights: [1, 2], k: 60, topK: 10};
+        const rsf = fusionExpression(ServerFusion.RSF, stats, options);
+        expect(rsf).toBe('1 * ((@cos_score - 0.5) / 0.4) + 2 * ((@fts_score - 1) / 2)');
+        expect(fusionExpression(ServerFusion.RSF, {...stats, fts: {min: 2, max: 2}}, options)).toBe('1 * ((@cos_score - 0.5) / 0.4) + 2 * 1');
+        expect(fusionExpression(ServerFusion.RSF, {...stats, cos: {min: 1e-7, max: 0.5}}, options)).toContain('0.00000010000000000000');
+        expect(fusionExpression(ServerFusion.RRF, stats, options)).toBe(
+            '1 / (60 + (1 + (1 - ((@cos_score - 0.5) / 0.4)) * 2)) + 2 / (60 + (1 + (1 - ((@fts_score - 1) / 2)) * 2))');
+        expect(() => fusionExpression('combsum', stats, options)).toThrow();
+
+        // the server expression reproduces client-side RSF scores
+        const rows = [{id: 'a', cos: 0.9, fts: 1}, {id: 'b', cos: 0.5, fts: 3}, {id: 'c', cos: 0.7, fts: 2}];
+        const evaluate = (row) => Function(`return ${rsf.replaceAll('@cos_score', row.cos).replaceAll('@fts_score', row.fts)}`)();
+        const client = new Fusion([rows.map((row) => new Score(row.id, row.cos, 1)), rows.map((row) => new Score(row.id, row.fts, 1))], [1, 2]).rsf();
+        client.forEach((fused) => expect(evaluate(rows.find((row) => row.id === fused.id))).toBeCloseTo(fused.score));
+    });
+
+    test('server-side fusion', async () => {
+        const client = fakeClient();
+        client.ft.aggregate = async (...args) => {
+            client.calls.aggregate.push(args);
+            return args[2].STEPS.some((step) => step.type === 'GROUPBY') ?
+                {results: [{cos_min: '0.5', cos_max: '0.9', fts_min: '1', fts_max: '3', n: '3'}]} :
+                {results: [{pid: '["b"]', rank: '[2]', fused_score: '2'}, {pid: '["a"]', rank: '[1]', fused_score: '1'}]};
+        };
+        const backend = new RedisBackend(client, embedder, {filterQid: true});
+        const [fused] = await backend.fuse([query], ServerFusion.RSF, {topK: 2});
+        expect(fused.qid).toBe('1');
+        expect(fused.results).toEqual([{id: 'b', score: 2, rank: 2}, {id: 'a', score: 1, rank: 1}]);
+        expect(fused.ms).toBeGreaterThanOrEqual(0);
+
+        const [[, statsStr, statsOptions], [, fusedStr, fusedOptions]] = client.calls.aggregate;
+        expect(statsStr).toBe('(@qid:{1} @text:(silk))=>[KNN 10 @vector $qvec AS dist]');
+        expect(fusedStr).toBe(statsStr);
+        expect(statsOptions.STEPS[2].REDUCE.map((reducer) => reducer.AS)).toEqual(['cos_min', 'cos_max', 'fts_min', 'fts_max', 'n']);
+        expect(fusedOptions.STEPS[2]).toEqual({type: 'APPLY', AS: 'fused_score',
+            expression: '1 * ((@cos_score - 0.5) / 0.4) + 1 * ((@fts_score - 1) / 2)'});
+        expect(fusedOptions.STEPS[3].MAX).toBe(2);
+        expect(fusedOptions.STEPS[4]).toEqual({type: 'LIMIT', from: 0, size: 2});
+
+        client.ft.aggregate = async () => ({results: [{n: '0'}]});
+        const [empty] = await backend.fuse([query]);
+        expect(empty.results).toEqual([]);
+    });
+});
+
+/**
+ * Hash embedder whose first failures calls are rejected, and every call with a text containing poison.
+ */
+function flakyEmbedder(failures = 0) {
+    const hash = new HashEmbeddingProvider(8);
+    const embedder = {
+        model: hash.model,
+        dim: hash.dim,
+        calls: 0,
+        embed: async (texts, type) => {
+            embedder.calls++;
+            if (failures-- > 0 || texts.some((text) => text.includes('poison'))) {
+                throw new Error('embedding service unavailable');
+            }
+            return hash.embed(texts, type);
+        }
+    };
+    return embedder;
+}
+
+const passages = (n) => Array.from({length: n}, (_, i) => ({qid: '1', pid: `p${i}`, rank: i + 1, text: `passage ${i} about silk`}));
+
+describe('redis ingestion tests', () => {
+    const options = {batchSize: 2, concurrency: 1, retryDelay: 0};
+
+    test('unchanged passages are skipped', async () => {
+        const client = fakeClient();
+        const embedder = flakyEmbedder();
+        const backend = new RedisBackend(client, embedder, options);
+        const first = await backend.ingest(passages(5));
+        expect(first).toMatchObject({processed: 5, loaded: 5, unchanged: 0, failed: 0, failures: []});
+        expect(client.docs.get('passage:p0').content_hash).toMatch(/^[0-9a-f]{64}$/);
+
+        const calls = embedder.calls;
+        const changed = passages(5);
+        changed[3].text = 'passage 3 about cotton';
+        const second = await backend.ingest(changed);
+        expect(second).toMatchObject({processed: 5, loaded: 1, unchanged: 4, failed: 0});
+        expect(embedder.calls).toBe(calls + 1);
+        expect(client.calls.set.slice(5).map(([key]) => key)).toEqual(['passage:p3']);
+    });
+
+    test('failed calls are retried', async () => {
+        const client = fakeClient([], 2);
+        const report = await new RedisBackend(client, flakyEmbedder(2), options).ingest(passages(4));
+        expect(report).toMatchObject({loaded: 4, failed: 0, retries: 4});
+        expect(client.docs.size).toBe(4);
+    });
+
+    test('passages that fail for good are reported', async () => {
+        const client = fakeClient();
+        const docs = passages(4);
+        docs[1].text = 'poison pill';
+        const progress = [];
+        const report = await new RedisBackend(client, flakyEmbedder(), {...options, retries: 1})
+            .ingest(docs, (elm) => progress.push(elm));
+        expect(report).toMatchObject({processed: 4, loaded: 3, failed: 1});
+        expect(report.failures).toEqual([{pid: 'p1', error: 'embedding service unavailable'}]);
+        expect([...client.docs.keys()].sort()).toEqual(['passage:p0', 'passage:p2', 'passage:p3']);
+        expect(progress.map((elm) => elm.processed)).toEqual([2, 4]);
+        expect(progress[1].rate).toBeGreaterThan(0);
+    });
+
+    test('interrupted load resumes from the checkpoint', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+        const checkpoint = path.join(dir, 'idx.checkpoint.json');
+        const client = fakeClient();
+        const docs = passages(5);
+        docs[0].text = 'poison pill';
+        const interrupted = function* () {
+            yield* docs.slice(0, 4);
+            throw new Error('interrupted');
+        };
+        const backend = new RedisBackend(client, flakyEmbedder(), {...options, retries: 0, checkpoint: checkpoint});
+        await expect(backend.ingest(interrupted())).rejects.toThrow('interrupted');
+        expect(JSON.parse(fs.readFileSync(checkpoint, 'utf8'))).toMatchObject({index: 'idx', position: 4, loaded: 3});
+
+        const report = await backend.ingest(docs);
+        expect(report).toMatchObject({resumed: 4, processed: 5, loaded: 4, failed: 1});
+        expect(report.failures.map((elm) => elm.pid)).toEqual(['p0']);
+        expect(client.docs.size).toBe(4);
+        expect(fs.existsSync(checkpoint)).toBe(false);
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+
+    test('checkpoint of another input is ignored', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+        const checkpoint = path.join(dir, 'checkpoint.json');
+        const interrupted = function* () {
+            yield* passages(4);
+            throw new Error('interrupted');
+        };
+        const backend = new RedisBackend(fakeClient(), flakyEmbedder(), {...options, checkpoint: checkpoint});
+        await expect(backend.ingest(interrupted())).rejects.toThrow('interrupted');
+        const { input } = JSON.parse(fs.readFileSync(checkpoint, 'utf8'));
+        expect(input).toMatch(/^[0-9a-f]{64}$/);
+
+        const changed = passages(5);
+        changed[1].text = 'a new passage';
+        expect(await backend.ingest(changed)).toMatchObject({resumed: 0, processed: 5, loaded: 2, unchanged: 3});
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+
+    test('checkpoint of another index is ignored', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+        const checkpoint = path.join(dir, 'checkpoint.json');
+        fs.writeFileSync(checkpoint, JSON.stringify({index: 'other', position: 3, loaded: 3, unchanged: 0, failures: []}));
+        const report = await new RedisBackend(fakeClient(), flakyEmbedder(), {...options, checkpoint: checkpoint}).ingest(passages(3));
+        expect(report).toMatchObject({resumed: 0, loaded: 3});
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+});
@@ -0,0 +1,110 @@
+import {describe, expect, test, beforeAll, afterAll} from '@jest/globals';
+import http from 'node:http';
+import { CachedReranker, HttpReranker, LexicalReranker, rerank, RerankMode } from '../dist/models/Reranker.js'
+
+/**
+ * Fused results a, b, c, d in descending score order.
+ */
+function fusedResults() {
+    return ['a', 'b', 'c', 'd'].map((id, i) => ({id: id, score: 0.9 - i / 10, rank: i + 1, ranks: [i + 1, null], scores: [1 - i / 10, null]}));
+}
+
+const texts = new Map([
+    ['a', 'cotton'],
+    ['b', 'fiber of silk'],
+    ['c', 'silk fiber from silkworms'],
+    ['d', 'silk']
+]);
+
+describe('lexical reranker tests', () => {
+    test('scores', async () => {
+        const reranker = new LexicalReranker();
+        const scores = await reranker.score('silk fiber', ['silk fiber from silkworms', 'fiber of silk', 'cotton', 'silk silk', '']);
+        expect(scores[0]).toBeCloseTo(1);
+        expect(scores[1]).toBeCloseTo(0.5);
+        expect(scores[2]).toBe(0);
+        expect(scores[3]).toBeCloseTo(1 / 3);
+        expect(scores[4]).toBe(0);
+        expect(await reranker.score('the', ['the cat'])).toEqual([0.5]);
+    });
+});
+
+describe('rerank stage tests', () => {
+    test('replace', async () => {
+        const fused = fusedResults();
+        const reranked = await rerank('silk fiber', fused, texts, new LexicalReranker(), {topK: 3});
+        expect(reranked.map((elm) => elm.id)).toEqual(['c', 'b', 'a', 'd']);
+        expect(reranked.map((elm) => elm.rank)).toEqual([1, 2, 3, 4]);
+        expect(reranked[0].score).toBeCloseTo(1);
+        expect(reranked[3].score).toBeCloseTo(0.6);
+        expect(reranked[0].ranks).toEqual([3, null]);
+        expect(fused).toEqual(fusedResults());
+    });
+
+    test('blend', async () => {
+        const reranker = new LexicalReranker();
+        const blended = await rerank('silk fiber', fusedResults(), texts, reranker, {topK: 3, mode: RerankMode.Blend, alpha: 0.75});
+        expect(blended.map((elm) => elm.id)).toEqual(['c', 'b', 'a', 'd']);
+        expect(blended.map((elm) => elm.score).slice(0, 3)).toEqual([0.75, 0.5, 0.25]);
+        const fusedOnly = await rerank('silk fiber', fusedResults(), texts, reranker, {mode: RerankMode.Blend, alpha: 0});
+        expect(fusedOnly.map((elm) => elm.id)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    test('invalid options', async () => {
+        const reranker = new LexicalReranker();
+        await expect(rerank('silk', fusedResults(), texts, reranker, {topK: 0})).rejects.toThrow();
+        await expect(rerank('silk', fusedResults(), texts, reranker, {alpha: 2})).rejects.toThrow();
+        await expect(rerank('silk', fusedResults(), texts, reranker, {mode: 'mix'})).rejects.toThrow();
+    });
+
+    test('cache', async () => {
+        const calls = [];
+        const reranker = new CachedReranker({model: 'counting', score: async (query, passages) => {
+            calls.push(passages);
+            return passages.map((passage) => passage.length);
+        }});
+        expect(await reranker.score('q', ['aa', 'b', 'aa'])).toEqual([2, 1, 2]);
+        expect(await reranker.score('q', ['b', 'ccc'])).toEqual([1, 3]);
+        expect(await reranker.score('other', ['b'])).toEqual([1]);
+        expect(calls).toEqual([['aa', 'b'], ['ccc'], ['b']]);
+        expect(reranker.hits).toBe(2);
+        expect(reranker.misses).toBe(4);
+    });
+});
+
+describe('http reranker tests', () => {
+    const requests = [];
+    let server;
+    let url;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => body += chunk);
+            req.on('end', () => {
+                const json = JSON.parse(body);
+                requests.push({body: json, auth: req.headers['authorization']});
+                const rankings = json.passages.map((passage, i) => ({index: i, logit: passage.text.length}))
+                    .sort((a, b) => b.logit - a.logit);
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({rankings: rankings}));
+            });
+        });
+        await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${server.address().port}/v1/ranking`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('batch', async () => {
+        const reranker = new HttpReranker({url: url, model: 'test-model', apiKey: 'secret'});
+        expect(await reranker.score('silk', ['a', 'ccc', 'bb'])).toEqual([1, 3, 2]);
+        expect(requests[0].body).toEqual({model: 'test-model', query: {text: 'silk'},
+            passages: [{text: 'a'}, {text: 'ccc'}, {text: 'bb'}], truncate: 'END'});
+        expect(requests[0].auth).toBe('Bearer secret');
+        expect(await reranker.score('silk', [])).toEqual([]);
+        expect(requests).toHaveLength(1);
+    });
+});
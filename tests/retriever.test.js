@@ -0,0 +1,80 @@
+import {describe, expect, test} from '@jest/globals';
+import { Score } from '../dist/models/Fusion.js'
+import { combinations, fusionOf, retrieve } from '../dist/models/Retriever.js'
+import { QueryType } from '../dist/types.js'
+
+/**
+ * Backend stand-in that returns fixed lists and counts its searches.
+ */
+function fakeBackend(cos, fts) {
+    const backend = {
+        searches: [],
+        load: async () => undefined,
+        search: async (queries, queryType) => {
+            backend.searches.push(queryType);
+            return queries.map((query) => ({qid: query.qid, results: {
+                cos: queryType === QueryType.FTS ? [] : cos,
+                fts: queryType === QueryType.KNN ? [] : fts
+            }}));
+        }
+    };
+    return backend;
+}
+
+const queries = [{qid: '1', query: 'silk'}, {qid: '2', query: 'cotton'}];
+const cos = [new Score('a', 0.9, 1), new Score('b', 0.8, 2)];
+const fts = [new Score('b', 3, 2), new Score('c', 1, 3)];
+
+describe('retriever tests', () => {
+    test('named lists', async () => {
+        const first = fakeBackend(cos, fts);
+        const second = fakeBackend([new Score('d', 0.7, 4)], []);
+        const results = await retrieve(queries, [
+            {name: 'e5', backend: first, queryType: QueryType.KNN},
+            {name: 'bm25', backend: first, queryType: QueryType.FTS},
+            {name: 'minilm', backend: second, queryType: QueryType.KNN}
+        ]);
+        expect(results.map((elm) => elm.qid)).toEqual(['1', '2']);
+        expect(Object.keys(results[0].results)).toEqual(['e5', 'bm25', 'minilm']);
+        expect(results[0].results.e5).toBe(cos);
+        expect(results[0].results.bm25).toBe(fts);
+        expect(results[1].results.minilm.map((elm) => elm.id)).toEqual(['d']);
+        expect(first.searches).toEqual([QueryType.KNN, QueryType.FTS]);
+    });
+
+    test('shared hybrid search', async () => {
+        const backend = fakeBackend(cos, fts);
+        const results = await retrieve(queries, [
+            {name: 'cos', backend: backend, queryType: QueryType.HYB, list: 'cos'},
+            {name: 'fts', backend: backend, queryType: QueryType.HYB, list: 'fts'}
+        ]);
+        expect(backend.searches).toEqual([QueryType.HYB]);
+        expect(results[0].results).toEqual({cos: cos, fts: fts});
+    });
+
+    test('invalid retrievers', async () => {
+        const backend = fakeBackend(cos, fts);
+        await expect(retrieve(queries, [])).rejects.toThrow();
+        await expect(retrieve(queries, [{name: 'hyb', backend: backend, queryType: QueryType.HYB}])).rejects.toThrow();
+        await expect(retrieve(queries, [
+            {name: 'x', backend: backend, queryType: QueryType.KNN},
+            {name: 'x', backend: backend, queryType: QueryType.FTS}
+        ])).rejects.toThrow();
+    });
+
+    test('combinations', () => {
+        expect(combinations(['a', 'b', 'c'])).toEqual([['a'], ['b'], ['c'], ['a', 'b'], ['a', 'c'], ['b', 'c'], ['a', 'b', 'c']]);
+        expect(combinations(['a', 'b', 'c'], 2)).toEqual([['a', 'b'], ['a', 'c'], ['b', 'c'], ['a', 'b', 'c']]);
+        expect(combinations(['a'], 2)).toEqual([]);
+    });
+
+    test('weighted fusion of a combination', () => {
+        const queryScores = {qid: '1', results: {e5: cos, bm25: fts, minilm: []}};
+        const retrievers = [{name: 'e5', weight: 2}, {name: 'bm25'}];
+        const fusion = fusionOf(queryScores, ['e5', 'bm25'], retrievers);
+        expect(fusion.weights).toEqual([2, 1]);
+        expect(fusion.rrf().map((elm) => elm.id)).toEqual(['b', 'a', 'c']);
+        expect(fusionOf(queryScores, ['bm25']).weights).toEqual([1]);
+        expect(() => fusionOf(queryScores, ['e5', 'title'])).toThrow();
+    });
+});
@@ -0,0 +1,67 @@
+import {describe, expect, test} from '@jest/globals';
+import { pairedTTest, randomizationTest, bootstrapCI, adjust, compare, formatComparisons, Correction, SignificanceTest } 
+    from '../dist/models/Significance.js'
+
+describe('significance tests', () => {
+    test('t-test', () => {
+        expect(pairedTTest([1, 2, 3, 4, 5])).toBeCloseTo(0.013236, 5);
+        expect(pairedTTest([0, 0, 0])).toBe(1);
+        expect(pairedTTest([.1, .1, .1])).toBeCloseTo(0);
+        expect(pairedTTest([1])).toBe(1);
+        expect(pairedTTest([])).toBe(1);
+    });
+
+    test('randomization', () => {
+        expect(randomizationTest([1, 2, 3])).toBe(0.25);
+        expect(randomizationTest([1, -1, 1, -1])).toBe(1);
+        const sampled = randomizationTest(new Array(20).fill(.1), 1000);
+        expect(sampled).toBeCloseTo(3/1001);
+        expect(randomizationTest(new Array(20).fill(.1), 1000)).toBe(sampled);
+    });
+
+    test('bootstrap', () => {
+        const [lo, hi] = bootstrapCI([1, 2, 3, 4, 5]);
+        expect(lo).toBeLessThan(3);
+        expect(hi).toBeGreaterThan(3);
+        expect(bootstrapCI([.5, .5])).toEqual([.5, .5]);
+    });
+
+    test('correction', () => {
+        expect(adjust([.01, .04, .03], Correction.Bonferroni).map((p) => +p.toFixed(4))).toEqual([.03, .12, .09]);
+        expect(adjust([.01, .04, .03], Correction.Holm).map((p) => +p.toFixed(4))).toEqual([.03, .06, .06]);
+        expect(adjust([.01, .6], Correction.Holm)).toEqual([.02, .6]);
+        expect(adjust([.01, .6], Correction.None)).toEqual([.01, .6]);
+    });
+
+    test('compare', () => {
+        const qids = ['Q1', 'Q2', 'Q3', 'Q4', 'Q5', 'Q6', 'Q7', 'Q8'];
+        const baseline = {name: 'FTS', results: qids.map((qid, i) => ({qid: qid, ndcg: .5 + i / 100}))};
+        const better = {name: 'RRF', results: [...qids].reverse().map((qid) => ({qid: qid, ndcg: .9 + parseInt(qid[1]) / 200}))};
+        const same = {name: 'RSF', results: qids.map((qid, i) => ({qid: qid, ndcg: .5 + i / 100 + (i % 2 ? .01 : -.01)}))};
+        const result = compare(baseline, [better, same]);
+        expect(result.map((elm) => elm.method)).toEqual(['RRF', 'RSF']);
+        expect(result[0].difference).toBeGreaterThan(0);
+        expect(result[0].significant).toBe(true);
+        expect(result[1].significant).toBe(false);
+        expect(result[1].pAdjusted).toBe(1);
+        expect(compare(baseline, [better], {test: SignificanceTest.TTest})[0].pAdjusted).toBe(result[0].tTest);
+        expect(formatComparisons(result).split('\n')).toHaveLength(3);
+    });
+
+    test('single query', () => {
+        const [result] = compare({name: 'FTS', results: [{qid: 'Q1', ndcg: .5}]}, [{name: 'RRF', results: [{qid: 'Q1', ndcg: .7}]}]);
+        expect(result.tTest).toBe(1);
+        expect(result.difference).toBeCloseTo(.2);
+        expect(result.significant).toBe(false);
+    });
+
+    test('empty baseline', () => {
+        expect(compare({name: 'FTS', results: []}, [{name: 'RRF', results: [{qid: 'Q1', ndcg: .7}]}])).toEqual([]);
+        expect(formatComparisons([])).toBe('');
+    });
+
+    test('missing query', () => {
+        const baseline = {name: 'FTS', results: [{qid: 'Q1', ndcg: .5}, {qid: 'Q2', ndcg: .5}]};
+        expect(() => compare(baseline, [{name: 'RRF', results: [{qid: 'Q1', ndcg: .6}]}])).toThrow();
+    });
+});
@@ -0,0 +1,68 @@
+import {describe, expect, test, beforeAll, afterAll} from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { formatRun, fuseRuns, readRun, writeRun } from '../dist/models/TrecRun.js'
+
+let dir;
+
+beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trecrun-'));
+    fs.writeFileSync(path.join(dir, 'bm25.run'), 'q1 Q0 d2 2 8.5 bm25\nq1 Q0 d1 1 9.5 bm25\n\nq2 Q0 d3 1 4 bm25\n');
+    fs.writeFileSync(path.join(dir, 'dense.run.gz'), gzipSync('q1\tQ0\td4\t1\t0.9\tdense\nq1\tQ0\td2\t2\t0.8\tdense\nq3\tQ0\td5\t1\t0.7\tdense\n'));
+    fs.writeFileSync(path.join(dir, 'bad.run'), 'q1 Q0 d1 one 9.5 bm25\n');
+    fs.writeFileSync(path.join(dir, 'dup.run'), 'q1 Q0 d1 1 9.5 bm25\nq1 Q0 d1 2 9 bm25\n');
+});
+
+afterAll(() => {
+    fs.rmSync(dir, {recursive: true, force: true});
+});
+
+describe('trec run tests', () => {
+    test('read', async () => {
+        const run = await readRun(path.join(dir, 'bm25.run'));
+        expect(run.tag).toBe('bm25');
+        expect([...run.queries.keys()]).toEqual(['q1', 'q2']);
+        expect(run.queries.get('q1')).toEqual([{id: 'd1', score: 9.5, rank: 1}, {id: 'd2', score: 8.5, rank: 2}]);
+
+        const dense = await readRun(path.join(dir, 'dense.run.gz'));
+        expect(dense.tag).toBe('dense');
+        expect(dense.queries.get('q3')).toEqual([{id: 'd5', score: 0.7, rank: 1}]);
+
+        await expect(readRun(path.join(dir, 'bad.run'))).rejects.toThrow();
+        await expect(readRun(path.join(dir, 'dup.run'))).rejects.toThrow();
+    });
+
+    test('fuse', async () => {
+        const runs = [await readRun(path.join(dir, 'bm25.run')), await readRun(path.join(dir, 'dense.run.gz'))];
+        const fused = fuseRuns(runs, (fusion) => fusion.rrf(60));
+        expect(fused.map((query) => query.qid)).toEqual(['q1', 'q2', 'q3']);
+        expect(fused[0].results.map((elm) => elm.id)).toEqual(['d2', 'd1', 'd4']);
+        expect(fused[0].results[0].score).toBeCloseTo(1/61 + 1/61);
+        expect(fused[0].results[0].ranks).toEqual([2, 2]);
+        expect(fused[1].results.map((elm) => elm.id)).toEqual(['d3']);
+        expect(fused[2].results.map((elm) => elm.id)).toEqual(['d5']);
+
+        const weighted = fuseRuns(runs, (fusion) => fusion.rsf(2), [1, 3]);
+        expect(weighted[0].results.map((elm) => elm.id)).toEqual(['d4', 'd1']);
+        expect(runs[0].queries.get('q1').map((elm) => elm.id)).toEqual(['d1', 'd2']);
+        expect(() => fuseRuns([], (fusion) => fusion.rrf())).toThrow();
+    });
+
+    test('write', async () => {
+        const runs = [await readRun(path.join(dir, 'bm25.run')), await readRun(path.join(dir, 'dense.run.gz'))];
+        const fused = fuseRuns(runs, (fusion) => fusion.borda());
+        expect(formatRun(fused, 'fused').split('\n')[0]).toBe('q1 Q0 d2 1 4 fused');
+        expect(() => formatRun(fused, 'two words')).toThrow();
+
+        const file = path.join(dir, 'out', 'fused.run');
+        await writeRun(file, fused, 'fused');
+        await writeRun(file, fused, 'fused');
+        const reread = await readRun(file);
+        expect(reread.tag).toBe('fused');
+        expect([...reread.queries].map(([qid, scores]) => [qid, scores.map((elm) => elm.id)]))
+            .toEqual(fused.map((query) => [query.qid, query.results.map((elm) => elm.id)]));
+        expect(fs.readdirSync(path.join(dir, 'out'))).toEqual(['fused.run']);
+    });
+});
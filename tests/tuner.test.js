@@ -0,0 +1,61 @@
+import {describe, expect, test} from '@jest/globals';
+import { Score } from '../dist/models/Fusion.js'
+import { Tuner, SearchStrategy, TUNABLE_METHODS, ndcgAt } from '../dist/models/Tuner.js'
+
+describe('tuner tests', () => {
+    /* FTS ranks the relevant passages first, COS ranks them last */
+    const queries = ['Q1', 'Q2', 'Q3', 'Q4'].map((qid) => ({
+        qid: qid,
+        results: {
+            cos: [ new Score('P1', .1), new Score('P2', .2), new Score('P3', .3), new Score('P4', .4)],
+            fts: [ new Score('P1', 4), new Score('P2', 3), new Score('P3', 2), new Score('P4', 1)]
+        }
+    }));
+    const qrels = Object.fromEntries(queries.map((query) => [query.qid, {P1: 3, P2: 2}]));
+    const rrf = TUNABLE_METHODS.find((method) => method.name === 'RRF');
+    const rsf = TUNABLE_METHODS.find((method) => method.name === 'RSF');
+
+    test('ndcg', () => {
+        const ndcg = ndcgAt(2);
+        expect(ndcg(['P1', 'P2'], {P1: 3, P2: 2})).toBe(1);
+        expect(ndcg(['P3', 'P4'], {P1: 3, P2: 2})).toBe(0);
+        expect(ndcg(['P1'], {})).toBe(0);
+    });
+
+    test('grid', () => {
+        const result = new Tuner(queries, qrels).tune(rsf);
+        expect(result.score).toBe(1);
+        expect(result.config.weights[0]).toBeLessThan(result.config.weights[1]);
+        expect(result.cvScore).toBeNull();
+    });
+
+    test('random', () => {
+        const tuner = new Tuner(queries, qrels, ['cos', 'fts'], {strategy: SearchStrategy.Random, samples: 50});
+        const result = tuner.tune(rrf);
+        expect(result.score).toBe(1);
+        expect(result.config.k).toBeGreaterThanOrEqual(1);
+        expect(tuner.tune(rrf)).toEqual(result);
+    });
+
+    test('coordinate ascent', () => {
+        const tuner = new Tuner(queries, qrels, ['cos', 'fts'], {strategy: SearchStrategy.CoordinateAscent});
+        const result = tuner.tune(rrf);
+        expect(result.score).toBe(1);
+        expect(result.score).toBeGreaterThan(tuner.evaluate(rrf, {weights: [1, 1], k: 60}));
+    });
+
+    test('cross-validation', () => {
+        const result = new Tuner(queries, qrels, ['cos', 'fts'], {folds: 2}).tune(rsf);
+        expect(result.folds).toHaveLength(2);
+        expect(result.cvScore).toBe(1);
+    });
+
+    test('tune all', () => {
+        const results = new Tuner(queries, qrels, ['cos', 'fts'], {grid: [0, 1], kGrid: [60]}).tuneAll();
+        expect(results.map((result) => result.method)).toEqual(TUNABLE_METHODS.map((method) => method.name));
+    });
+
+    test('invalid folds', () => {
+        expect(() => new Tuner(queries, qrels, ['cos', 'fts'], {folds: 5})).toThrow();
+    });
+});